@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { SchedulerService } from '@/lib/scheduler'
+import { OutboxService } from '@/lib/outbox'
+
+/**
+ * Scheduler endpoint for an external cron, so rules run when no dashboard is open
+ * Runs the due rules and sends the messages they queued
+ * Callers must send CRON_SECRET as "Authorization: Bearer <secret>"; without the secret set, every request is refused
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    console.error('CRON_SECRET is not set, refusing scheduler request')
+    return NextResponse.json({ success: false, error: 'Scheduler is not configured' }, { status: 503 })
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const runs = await SchedulerService.runDueRules()
+
+    for (const run of runs) {
+      if (run.outbox_batch_id) {
+        await OutboxService.drain({ batchId: run.outbox_batch_id })
+      }
+    }
+
+    return NextResponse.json({ success: true, runs })
+  } catch (error) {
+    console.error('Error running scheduled rules:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { DeliveryService, isDeliveryStatus } from '@/lib/delivery'
+
+/**
+ * Webhook for delivery receipts of the messages we sent
+ * Expects a JSON body like { "messageId": "...", "status": "delivered" | "read" | "failed", "timestamp": "..." }
+ * The backend must send WHATSAPP_WEBHOOK_SECRET as "Authorization: Bearer <secret>"; without the secret set, every request is refused
+ */
+export async function POST(request: Request) {
+  const secret = process.env.WHATSAPP_WEBHOOK_SECRET
+  if (!secret) {
+    console.error('WHATSAPP_WEBHOOK_SECRET is not set, refusing webhook request')
+    return NextResponse.json({ success: false, error: 'Webhook is not configured' }, { status: 503 })
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const payload = await request.json().catch(() => null)
+  const messageId = payload?.messageId
+  const status = payload?.status
+
+  if (typeof messageId !== 'string' || !messageId.trim() || !isDeliveryStatus(status)) {
+    return NextResponse.json(
+      { success: false, error: 'Expected "messageId" and a "status" of sent, delivered, read or failed' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const updated = await DeliveryService.updateStatus({
+      messageId,
+      status,
+      timestamp: typeof payload.timestamp === 'string' ? payload.timestamp : null
+    })
+
+    return NextResponse.json({ success: true, updated })
+  } catch (error) {
+    console.error('Error handling WhatsApp delivery receipt:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { InboxService } from '@/lib/inbox'
+
+/**
+ * Webhook for messages the WhatsApp backend receives on the shop number
+ * Expects a JSON body like { "from": "919876543210", "body": "TOKEN", "messageId": "...", "timestamp": "..." }
+ * The backend must send WHATSAPP_WEBHOOK_SECRET as "Authorization: Bearer <secret>"; without the secret set, every request is refused
+ */
+export async function POST(request: Request) {
+  const secret = process.env.WHATSAPP_WEBHOOK_SECRET
+  if (!secret) {
+    console.error('WHATSAPP_WEBHOOK_SECRET is not set, refusing webhook request')
+    return NextResponse.json({ success: false, error: 'Webhook is not configured' }, { status: 503 })
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const payload = await request.json().catch(() => null)
+  const from = payload?.from
+  const body = payload?.body ?? payload?.message
+
+  if (typeof from !== 'string' || typeof body !== 'string' || !from.trim() || !body.trim()) {
+    return NextResponse.json({ success: false, error: 'Expected "from" and "body"' }, { status: 400 })
+  }
+
+  try {
+    const message = await InboxService.receive({
+      from,
+      body: body.trim(),
+      messageId: typeof payload.messageId === 'string' ? payload.messageId : null,
+      timestamp: typeof payload.timestamp === 'string' ? payload.timestamp : null
+    })
+
+    return NextResponse.json({ success: true, duplicate: message === null, data: message })
+  } catch (error) {
+    console.error('Error handling inbound WhatsApp message:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
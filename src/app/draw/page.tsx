@@ -0,0 +1,20 @@
+import { LiveDraw } from "@/components/draw/live-draw"
+
+/**
+ * Live Draw Page
+ * Full-screen draw shown on the shop TV or a phone at the 7 PM draw
+ * Opened from the dashboard with ?scheme=<id>&month=<month_table>
+ */
+export default async function DrawPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ scheme?: string; month?: string }>
+}) {
+  const { scheme, month } = await searchParams
+
+  return (
+    <main className="min-h-screen bg-background">
+      <LiveDraw schemeId={scheme ? Number(scheme) : undefined} month={month} />
+    </main>
+  )
+}
@@ -0,0 +1,13 @@
+import { TemplateEditor } from "@/components/templates/template-editor"
+
+/**
+ * Message Templates Page
+ * Edit the texts of the WhatsApp messages without a redeploy
+ */
+export default function TemplatesPage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <TemplateEditor />
+    </main>
+  )
+}
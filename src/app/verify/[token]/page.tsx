@@ -0,0 +1,88 @@
+import type { Metadata } from "next"
+import Image from "next/image"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { verifyReceipt } from "@/lib/receipt-verification"
+import { formatAmount, formatMonthName } from "@/lib/supabase"
+import { formatTokenDisplay } from "@/lib/utils"
+import { CheckCircle, XCircle } from "lucide-react"
+
+export const metadata: Metadata = {
+  title: "Receipt Verification",
+  robots: { index: false, follow: false }
+}
+
+/**
+ * Receipt Verification Page
+ * Public, read-only page opened from the QR code on a receipt
+ * Shows the receipt as stored in our books, so a forwarded screenshot can be checked
+ */
+export default async function VerifyReceiptPage({
+  params,
+}: {
+  params: Promise<{ token: string }>
+}) {
+  const { token } = await params
+  // Malformed tokens (e.g. a broken %-escape) show "not found" like unknown ones
+  const receipt = await Promise.resolve()
+    .then(() => verifyReceipt(decodeURIComponent(token)))
+    .catch(() => null)
+
+  return (
+    <main className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <Image src="/rafiLogo.jpeg" alt="Rafi" width={64} height={64} className="mx-auto rounded-full" />
+          <CardTitle className="text-lg">Receipt Verification</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!receipt ? (
+            <div className="text-center space-y-2 py-4">
+              <XCircle className="h-10 w-10 mx-auto text-destructive" />
+              <p className="font-medium">Receipt not found</p>
+              <p className="text-sm text-muted-foreground">
+                This code doesn&apos;t match any receipt in our books. Please contact the shop.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3 text-sm">
+              <div className="text-center space-y-1 pb-2">
+                {receipt.status === 'issued' ? (
+                  <CheckCircle className="h-10 w-10 mx-auto text-green-600" />
+                ) : (
+                  <XCircle className="h-10 w-10 mx-auto text-destructive" />
+                )}
+                <Badge
+                  variant={receipt.status === 'issued' ? 'default' : 'destructive'}
+                  className={receipt.status === 'issued' ? 'bg-green-600' : ''}
+                >
+                  {receipt.status === 'issued' ? 'Valid receipt' : 'Cancelled receipt'}
+                </Badge>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Receipt No</span>
+                <span className="font-mono">{receipt.receipt_number}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Member</span>
+                <span className="font-medium">{receipt.first_name}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Token</span>
+                <span className="font-mono">{formatTokenDisplay(receipt.token_number)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Month</span>
+                <span>{formatMonthName(receipt.month)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Amount</span>
+                <span className="font-medium">{formatAmount(receipt.amount)}</span>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
@@ -19,7 +19,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
-import { NewMember, PaymentStatus, MonthTable } from "@/lib/supabase"
+import { NewMember, PaymentStatus, MessageLanguage, MonthTable, Scheme, Collector, DEFAULT_COLLECTOR, MESSAGE_LANGUAGE_LABELS } from "@/lib/supabase"
 import { validatePhoneNumber } from "@/lib/utils"
 import { DatabaseService } from "@/lib/database"
 
@@ -33,6 +33,8 @@ interface AddMemberDialogProps {
   isLoading?: boolean
   familySuggestions?: string[]
   currentMonth?: string // Add current month for family number lookup
+  scheme?: Scheme // Scheme whose roster is being edited
+  collectors?: Collector[] // Options for the paid-to select
 }
 
 /**
@@ -42,7 +44,7 @@ interface AddMemberDialogProps {
  * Mobile-optimized with responsive design
  * Now includes manual family number sharing option
  */
-export function AddMemberDialog({ open, onOpenChange, onAddMember, isLoading, familySuggestions, currentMonth }: AddMemberDialogProps) {
+export function AddMemberDialog({ open, onOpenChange, onAddMember, isLoading, familySuggestions, currentMonth, scheme, collectors = [DEFAULT_COLLECTOR] }: AddMemberDialogProps) {
   // Form state management
   const [formData, setFormData] = React.useState<NewMember>({
     full_name: '',
@@ -51,12 +53,16 @@ export function AddMemberDialog({ open, onOpenChange, onAddMember, isLoading, fa
     payment_status: 'pending',
     paid_to: undefined,
     draw_status: 'not_drawn',
-    additional_information: ''
+    additional_information: '',
+    preferred_language: 'both'
   })
 
   // Custom family input state
   const [customFamilyName, setCustomFamilyName] = React.useState('')
 
+  // Per-member installment amount override (empty uses the scheme amount)
+  const [installmentAmount, setInstallmentAmount] = React.useState('')
+
   // Form validation errors
   const [errors, setErrors] = React.useState<Record<string, string>>({})
 
@@ -78,9 +84,11 @@ export function AddMemberDialog({ open, onOpenChange, onAddMember, isLoading, fa
         payment_status: 'pending',
         paid_to: undefined,
         draw_status: 'not_drawn',
-        additional_information: ''
+        additional_information: '',
+        preferred_language: 'both'
       })
       setCustomFamilyName('')
+      setInstallmentAmount('')
       setErrors({})
     }
   }, [open])
@@ -102,18 +110,30 @@ export function AddMemberDialog({ open, onOpenChange, onAddMember, isLoading, fa
     }
   }
 
+  /**
+   * Handle installment amount changes
+   * Kept as a string while editing, empty means the scheme amount applies
+   */
+  const handleInstallmentAmountChange = (value: string) => {
+    setInstallmentAmount(value)
+
+    if (errors.installment_amount) {
+      setErrors(prev => ({ ...prev, installment_amount: '' }))
+    }
+  }
+
   /**
    * Handle sharing family mobile number
    * Fetches the mobile number from the first family member and applies it
    */
   const handleShareFamilyNumber = async () => {
-    if (!currentMonth || !formData.family || formData.family === 'Individual' || formData.family === '__new__') {
+    if (!scheme || !currentMonth || !formData.family || formData.family === 'Individual' || formData.family === '__new__') {
       return
     }
 
     setIsLoadingFamilyNumber(true)
     try {
-      const familyMobileNumber = await DatabaseService.getFamilyMobileNumber(currentMonth as MonthTable, formData.family)
+      const familyMobileNumber = await DatabaseService.getFamilyMobileNumber(scheme, currentMonth as MonthTable, formData.family)
       if (familyMobileNumber) {
         setFormData(prev => ({ ...prev, mobile_number: familyMobileNumber }))
         // Clear any mobile number validation errors
@@ -136,7 +156,8 @@ export function AddMemberDialog({ open, onOpenChange, onAddMember, isLoading, fa
            formData.family !== 'Individual' &&
            formData.family !== '__new__' &&
            familySuggestions?.includes(formData.family) &&
-           currentMonth
+           currentMonth &&
+           scheme
   }
 
   /**
@@ -170,6 +191,14 @@ export function AddMemberDialog({ open, onOpenChange, onAddMember, isLoading, fa
       // Individual is valid, no error needed
     }
 
+    // Validate installment amount override (optional)
+    if (installmentAmount.trim()) {
+      const amount = Number(installmentAmount)
+      if (!Number.isFinite(amount) || amount <= 0) {
+        newErrors.installment_amount = 'Please enter a valid installment amount'
+      }
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -194,7 +223,9 @@ export function AddMemberDialog({ open, onOpenChange, onAddMember, isLoading, fa
         payment_status: formData.payment_status,
         paid_to: formData.paid_to || null,
         draw_status: formData.draw_status,
-        additional_information: formData.additional_information?.trim() || null
+        additional_information: formData.additional_information?.trim() || null,
+        installment_amount: installmentAmount.trim() ? Number(installmentAmount) : null,
+        preferred_language: formData.preferred_language
       }
 
       await onAddMember(cleanedData)
@@ -356,12 +387,56 @@ export function AddMemberDialog({ open, onOpenChange, onAddMember, isLoading, fa
                   <SelectValue placeholder="Select recipient" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Rafi">Rafi</SelectItem>
+                  {collectors.map(collector => (
+                    <SelectItem key={collector.id} value={collector.name}>{collector.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          {/* Installment Amount Field - leave empty to use the scheme amount */}
+          <div className="space-y-2">
+            <Label htmlFor="installment_amount" className="text-sm sm:text-base">
+              Installment Amount (₹)
+            </Label>
+            <Input
+              id="installment_amount"
+              type="number"
+              min={1}
+              value={installmentAmount}
+              onChange={(e) => handleInstallmentAmountChange(e.target.value)}
+              placeholder={scheme ? `${scheme.installment_amount} (scheme amount)` : 'Scheme amount'}
+              className={`${errors.installment_amount ? "border-destructive" : ""} text-sm sm:text-base`}
+            />
+            {errors.installment_amount && (
+              <p className="text-xs sm:text-sm text-destructive">{errors.installment_amount}</p>
+            )}
+          </div>
+
+          {/* Message Language Field */}
+          <div className="space-y-2">
+            <Label htmlFor="preferred_language" className="text-sm sm:text-base">
+              Message Language
+            </Label>
+            <Select
+              value={formData.preferred_language}
+              onValueChange={(value) => handleInputChange('preferred_language', value as MessageLanguage)}
+            >
+              <SelectTrigger id="preferred_language" className="text-sm sm:text-base">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MESSAGE_LANGUAGE_LABELS) as MessageLanguage[]).map(language => (
+                  <SelectItem key={language} value={language}>{MESSAGE_LANGUAGE_LABELS[language]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              WhatsApp messages are sent to this member in the chosen language.
+            </p>
+          </div>
+
           {/* Additional Information Field */}
           <div className="space-y-2">
             <Label htmlFor="additional_information" className="text-sm sm:text-base">
@@ -0,0 +1,245 @@
+'use client'
+
+import * as React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { NewScheme } from "@/lib/supabase"
+
+/**
+ * Props for the AddSchemeDialog component
+ */
+interface AddSchemeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onAddScheme: (scheme: NewScheme) => Promise<void>
+}
+
+/**
+ * Default form values for a new scheme
+ * Starts next month with the same 16 month duration as the original batch
+ */
+const getInitialFormData = () => {
+  const nextMonth = new Date()
+  nextMonth.setDate(1)
+  nextMonth.setMonth(nextMonth.getMonth() + 1)
+
+  return {
+    name: '',
+    installment_amount: '',
+    start_month: `${nextMonth.getFullYear()}-${String(nextMonth.getMonth() + 1).padStart(2, '0')}`,
+    duration_months: '16'
+  }
+}
+
+/**
+ * Add Scheme Dialog Component
+ * Form for starting a new parallel chit group with its own amount and calendar
+ */
+export function AddSchemeDialog({ open, onOpenChange, onAddScheme }: AddSchemeDialogProps) {
+  // Form state management (kept as strings while editing)
+  const [formData, setFormData] = React.useState(getInitialFormData)
+
+  // Form validation errors
+  const [errors, setErrors] = React.useState<Record<string, string>>({})
+
+  // Loading state for form submission
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  /**
+   * Reset form when dialog is closed
+   */
+  React.useEffect(() => {
+    if (!open) {
+      setFormData(getInitialFormData())
+      setErrors({})
+    }
+  }, [open])
+
+  /**
+   * Handle input field changes
+   */
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  /**
+   * Validate form data before submission
+   */
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {}
+
+    // Validate scheme name
+    if (formData.name.trim().length < 2) {
+      newErrors.name = 'Scheme name must be at least 2 characters'
+    }
+
+    // Validate installment amount
+    const amount = Number(formData.installment_amount)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      newErrors.installment_amount = 'Please enter a valid installment amount'
+    }
+
+    // Validate start month
+    if (!/^\d{4}-\d{2}$/.test(formData.start_month)) {
+      newErrors.start_month = 'Please select the first month of the scheme'
+    }
+
+    // Validate duration
+    const duration = Number(formData.duration_months)
+    if (!Number.isInteger(duration) || duration < 1) {
+      newErrors.duration_months = 'Duration must be at least 1 month'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await onAddScheme({
+        name: formData.name.trim(),
+        installment_amount: Number(formData.installment_amount),
+        start_month: formData.start_month,
+        duration_months: Number(formData.duration_months)
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error adding scheme:', error)
+      // Error handling is done in the parent component
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-[425px] max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="text-lg sm:text-xl">Add New Scheme</DialogTitle>
+          <DialogDescription className="text-sm sm:text-base">
+            Start a new chit group with its own installment amount and calendar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Scheme Name Field */}
+          <div className="space-y-2">
+            <Label htmlFor="scheme_name" className="text-sm sm:text-base">
+              Scheme Name *
+            </Label>
+            <Input
+              id="scheme_name"
+              value={formData.name}
+              onChange={(e) => handleInputChange('name', e.target.value)}
+              placeholder="e.g. ₹5000 Gold Scheme"
+              className={`${errors.name ? "border-destructive" : ""} text-sm sm:text-base`}
+            />
+            {errors.name && (
+              <p className="text-xs sm:text-sm text-destructive">{errors.name}</p>
+            )}
+          </div>
+
+          {/* Installment Amount Field */}
+          <div className="space-y-2">
+            <Label htmlFor="installment_amount" className="text-sm sm:text-base">
+              Monthly Installment (₹) *
+            </Label>
+            <Input
+              id="installment_amount"
+              type="number"
+              min={1}
+              value={formData.installment_amount}
+              onChange={(e) => handleInputChange('installment_amount', e.target.value)}
+              placeholder="2000"
+              className={`${errors.installment_amount ? "border-destructive" : ""} text-sm sm:text-base`}
+            />
+            {errors.installment_amount && (
+              <p className="text-xs sm:text-sm text-destructive">{errors.installment_amount}</p>
+            )}
+          </div>
+
+          {/* Calendar Fields - Side by Side */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {/* Start Month Field */}
+            <div className="space-y-2">
+              <Label htmlFor="start_month" className="text-sm sm:text-base">
+                First Month *
+              </Label>
+              <Input
+                id="start_month"
+                type="month"
+                value={formData.start_month}
+                onChange={(e) => handleInputChange('start_month', e.target.value)}
+                className={`${errors.start_month ? "border-destructive" : ""} text-sm sm:text-base`}
+              />
+              {errors.start_month && (
+                <p className="text-xs sm:text-sm text-destructive">{errors.start_month}</p>
+              )}
+            </div>
+
+            {/* Duration Field */}
+            <div className="space-y-2">
+              <Label htmlFor="duration_months" className="text-sm sm:text-base">
+                Duration (months) *
+              </Label>
+              <Input
+                id="duration_months"
+                type="number"
+                min={1}
+                value={formData.duration_months}
+                onChange={(e) => handleInputChange('duration_months', e.target.value)}
+                className={`${errors.duration_months ? "border-destructive" : ""} text-sm sm:text-base`}
+              />
+              {errors.duration_months && (
+                <p className="text-xs sm:text-sm text-destructive">{errors.duration_months}</p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter className="flex flex-col space-y-2 sm:flex-row sm:space-y-0 sm:space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+              className="w-full sm:w-auto"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full sm:w-auto"
+            >
+              {isSubmitting ? "Creating..." : "Create Scheme"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,190 @@
+'use client'
+
+import * as React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { BulkMessagePlan, dryRunBulkMessages, getSendableEntries } from "@/lib/outbox"
+import { ClipboardList, AlertTriangle, BellOff, Loader2, Send, Users } from "lucide-react"
+
+/**
+ * Props for the BulkDryRunDialog component
+ */
+interface BulkDryRunDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  plan: BulkMessagePlan | null
+  onConfirm: (plan: BulkMessagePlan) => Promise<void> // Queues the reviewed messages
+}
+
+/**
+ * Bulk Dry Run Dialog Component
+ * Shows every message of a bulk action before it is queued, with invalid and shared numbers and opted-out members flagged
+ * Messages to invalid numbers and opted-out members are left out when the rest are queued
+ */
+export function BulkDryRunDialog({ open, onOpenChange, plan, onConfirm }: BulkDryRunDialogProps) {
+  // Confirmation state
+  const [isQueueing, setIsQueueing] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [showFlaggedOnly, setShowFlaggedOnly] = React.useState(false)
+
+  /**
+   * Reset the view when another action is reviewed
+   */
+  React.useEffect(() => {
+    setError(null)
+    setShowFlaggedOnly(false)
+  }, [plan])
+
+  // Every message with the problems found
+  const entries = React.useMemo(() => plan ? dryRunBulkMessages(plan) : [], [plan])
+
+  const invalidCount = entries.filter(entry => entry.issues.includes('invalid_number')).length
+  const sharedCount = entries.filter(entry => entry.issues.includes('duplicate_number')).length
+  const optedOutCount = entries.filter(entry => entry.issues.includes('opted_out')).length
+  const sendableEntries = getSendableEntries(entries)
+  const visibleEntries = showFlaggedOnly ? entries.filter(entry => entry.issues.length > 0) : entries
+
+  /**
+   * Handle queueing the messages that can be sent
+   */
+  const handleConfirm = async () => {
+    if (!plan) return
+
+    try {
+      setIsQueueing(true)
+      setError(null)
+
+      await onConfirm({ ...plan, messages: sendableEntries.map(entry => entry.message) })
+      onOpenChange(false)
+    } catch (err) {
+      console.error('Error queueing reviewed messages:', err)
+      setError(err instanceof Error ? err.message : 'Failed to queue messages')
+    } finally {
+      setIsQueueing(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Review: {plan?.label}
+          </DialogTitle>
+          <DialogDescription>
+            Nothing has been sent yet. Check who will receive what before queueing the messages.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+          <div className="rounded-md border p-2">
+            <div className="text-lg font-semibold">{sendableEntries.length}</div>
+            <div className="text-xs text-muted-foreground">Will be sent</div>
+          </div>
+          <div className={`rounded-md border p-2 ${invalidCount > 0 ? 'border-red-300 bg-red-50 dark:bg-red-950' : ''}`}>
+            <div className="text-lg font-semibold">{invalidCount}</div>
+            <div className="text-xs text-muted-foreground">Invalid numbers (skipped)</div>
+          </div>
+          <div className={`rounded-md border p-2 ${sharedCount > 0 ? 'border-yellow-300 bg-yellow-50 dark:bg-yellow-950' : ''}`}>
+            <div className="text-lg font-semibold">{sharedCount}</div>
+            <div className="text-xs text-muted-foreground">Shared numbers</div>
+          </div>
+          <div className={`rounded-md border p-2 ${optedOutCount > 0 ? 'border-gray-300 bg-gray-50 dark:bg-gray-900' : ''}`}>
+            <div className="text-lg font-semibold">{optedOutCount}</div>
+            <div className="text-xs text-muted-foreground">Opted out (skipped)</div>
+          </div>
+        </div>
+
+        {(invalidCount > 0 || sharedCount > 0 || optedOutCount > 0) && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowFlaggedOnly(prev => !prev)}
+            className="w-fit"
+          >
+            {showFlaggedOnly ? 'Show all messages' : 'Show flagged only'}
+          </Button>
+        )}
+
+        {/* Messages */}
+        <div className="space-y-2">
+          {visibleEntries.map((entry, index) => (
+            <details
+              key={`${entry.message.member_id ?? entry.message.recipient_number}-${index}`}
+              className={`rounded-md border p-3 text-sm ${entry.issues.includes('invalid_number') ? 'border-red-300' : entry.issues.length > 0 ? 'border-yellow-300' : ''}`}
+            >
+              <summary className="flex cursor-pointer list-none items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{entry.message.recipient_name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {entry.message.recipient_number}
+                    {entry.formattedNumber !== entry.message.recipient_number && ` → ${entry.formattedNumber}`}
+                  </div>
+                </div>
+                <div className="flex flex-wrap justify-end gap-1">
+                  {entry.issues.includes('invalid_number') && (
+                    <Badge variant="destructive" className="text-xs">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      Invalid number
+                    </Badge>
+                  )}
+                  {entry.issues.includes('duplicate_number') && (
+                    <Badge variant="outline" className="text-xs border-yellow-400 text-yellow-700 dark:text-yellow-300">
+                      <Users className="h-3 w-3 mr-1" />
+                      Shared
+                    </Badge>
+                  )}
+                  {entry.issues.includes('opted_out') && (
+                    <Badge variant="secondary" className="text-xs">
+                      <BellOff className="h-3 w-3 mr-1" />
+                      Opted out
+                    </Badge>
+                  )}
+                </div>
+              </summary>
+              {entry.sharedWith.length > 0 && (
+                <p className="mt-2 text-xs text-yellow-700 dark:text-yellow-300">
+                  Same number as {entry.sharedWith.join(', ')}
+                </p>
+              )}
+              <pre className="mt-2 whitespace-pre-wrap break-words rounded bg-muted p-2 font-sans text-xs">{entry.message.body}</pre>
+            </details>
+          ))}
+          {visibleEntries.length === 0 && (
+            <p className="text-sm text-muted-foreground py-4 text-center">No messages to send</p>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isQueueing}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isQueueing || sendableEntries.length === 0}>
+            {isQueueing ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
+            Queue {sendableEntries.length} Message{sendableEntries.length !== 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,278 @@
+'use client'
+
+import * as React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Collector,
+  CollectorSummary,
+  MonthTable,
+  Scheme,
+  PaymentMode,
+  PAYMENT_MODE_LABELS,
+  formatAmount,
+  formatMonthName
+} from "@/lib/supabase"
+import { DatabaseService } from "@/lib/database"
+import { validatePhoneNumber } from "@/lib/utils"
+import { Wallet, UserPlus, Loader2 } from "lucide-react"
+
+/**
+ * Props for the CollectorsDialog component
+ */
+interface CollectorsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  scheme: Scheme
+  currentMonth: MonthTable
+  onCollectorsChange?: () => void // Lets the dashboard refresh its paid-to options
+}
+
+/**
+ * Collectors Dialog Component
+ * Manages the people who collect installments at the shop
+ * Shows how much each collector received this month so the cash can be reconciled
+ */
+export function CollectorsDialog({ open, onOpenChange, scheme, currentMonth, onCollectorsChange }: CollectorsDialogProps) {
+  // Collectors list including inactive ones
+  const [collectors, setCollectors] = React.useState<Collector[]>([])
+
+  // Cash summary of the month per collector
+  const [summary, setSummary] = React.useState<CollectorSummary[]>([])
+
+  // Loading and error states
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // New collector form state
+  const [newName, setNewName] = React.useState('')
+  const [newPhone, setNewPhone] = React.useState('')
+  const [isAdding, setIsAdding] = React.useState(false)
+
+  /**
+   * Load collectors and the month's cash summary
+   */
+  const loadData = React.useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const [collectorsList, collectorSummary] = await Promise.all([
+        DatabaseService.getCollectors(true),
+        DatabaseService.getCollectorSummary(scheme, currentMonth)
+      ])
+
+      setCollectors(collectorsList)
+      setSummary(collectorSummary)
+    } catch (err) {
+      console.error('Error loading collectors:', err)
+      setError('Failed to load collectors. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [scheme, currentMonth])
+
+  /**
+   * Load data when dialog opens
+   */
+  React.useEffect(() => {
+    if (open) {
+      loadData()
+    } else {
+      setNewName('')
+      setNewPhone('')
+      setError(null)
+    }
+  }, [open, loadData])
+
+  /**
+   * Handle adding a new collector
+   */
+  const handleAddCollector = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (newName.trim().length < 2) {
+      setError('Collector name must be at least 2 characters')
+      return
+    }
+
+    if (newPhone.trim() && !validatePhoneNumber(newPhone)) {
+      setError('Please enter a valid mobile number')
+      return
+    }
+
+    if (collectors.some(c => c.name.toLowerCase() === newName.trim().toLowerCase())) {
+      setError('A collector with this name already exists')
+      return
+    }
+
+    setIsAdding(true)
+    try {
+      setError(null)
+      await DatabaseService.addCollector({ name: newName, phone: newPhone })
+      setNewName('')
+      setNewPhone('')
+      await loadData()
+      onCollectorsChange?.()
+    } catch (err) {
+      console.error('Error adding collector:', err)
+      setError('Failed to add collector. Please try again.')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  /**
+   * Handle activating/deactivating a collector
+   */
+  const handleToggleActive = async (collector: Collector) => {
+    try {
+      setError(null)
+      await DatabaseService.updateCollector(collector.id, { is_active: !collector.is_active })
+      await loadData()
+      onCollectorsChange?.()
+    } catch (err) {
+      console.error('Error updating collector:', err)
+      setError('Failed to update collector. Please try again.')
+    }
+  }
+
+  const monthTotal = summary.reduce((sum, s) => sum + s.total, 0)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Collectors
+          </DialogTitle>
+          <DialogDescription>
+            People who collect installments and the cash each of them received in {formatMonthName(currentMonth)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Error Alert */}
+        {error && (
+          <div className="bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading collectors...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Cash Summary for the Month */}
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center justify-between">
+                  <span>Cash Summary</span>
+                  <span className="text-green-600">{formatAmount(monthTotal)}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {summary.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No payments recorded for this month</p>
+                ) : (
+                  summary.map(item => (
+                    <div key={item.collector} className="flex items-center justify-between border-b last:border-b-0 pb-2 last:pb-0 text-sm">
+                      <div>
+                        <div className="font-medium">{item.collector}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {item.payments} payment{item.payments !== 1 ? 's' : ''}
+                          {(Object.keys(item.byMode) as PaymentMode[])
+                            .filter(mode => item.byMode[mode] > 0)
+                            .map(mode => ` • ${PAYMENT_MODE_LABELS[mode]} ${formatAmount(item.byMode[mode])}`)
+                            .join('')}
+                        </div>
+                      </div>
+                      <div className="font-medium">{formatAmount(item.total)}</div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Collectors List */}
+            <div className="space-y-2">
+              <h3 className="font-medium text-sm">All Collectors</h3>
+              {collectors.map(collector => (
+                <div key={collector.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      {collector.name}
+                      {!collector.is_active && (
+                        <Badge variant="secondary" className="text-xs">Inactive</Badge>
+                      )}
+                    </div>
+                    {collector.phone && (
+                      <div className="text-xs text-muted-foreground">{collector.phone}</div>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleToggleActive(collector)}
+                    className="h-7 text-xs"
+                  >
+                    {collector.is_active ? 'Deactivate' : 'Activate'}
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {/* Add Collector Form */}
+            <form onSubmit={handleAddCollector} className="space-y-3 border-t pt-4">
+              <h3 className="font-medium text-sm">Add Collector</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="collector_name" className="text-xs text-muted-foreground">
+                    Name *
+                  </Label>
+                  <Input
+                    id="collector_name"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="Enter name"
+                    className="text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="collector_phone" className="text-xs text-muted-foreground">
+                    Phone
+                  </Label>
+                  <Input
+                    id="collector_phone"
+                    type="tel"
+                    value={newPhone}
+                    onChange={(e) => setNewPhone(e.target.value)}
+                    placeholder="Optional"
+                    className="text-sm"
+                  />
+                </div>
+              </div>
+              <Button type="submit" size="sm" disabled={isAdding}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                {isAdding ? 'Adding...' : 'Add Collector'}
+              </Button>
+            </form>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
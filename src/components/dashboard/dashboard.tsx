@@ -1,11 +1,14 @@
 'use client'
 
 import * as React from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Plus, Users, CreditCard, Trophy, Hash, Search, ArrowRight, Crown, AlertCircle, ChevronDown, X, IndianRupee } from "lucide-react"
+import { Plus, Users, CreditCard, Trophy, Hash, Search, ArrowRight, Crown, AlertCircle, ChevronDown, X, IndianRupee, Wallet, Tv, Undo2, MessageSquare, FileText, CalendarClock, Percent, Inbox } from "lucide-react"
 import { ThemeSwitch } from "@/components/ui/theme-switch"
 import { MonthSelector } from "./month-selector"
+import { SchemeSelector } from "./scheme-selector"
+import { AddSchemeDialog } from "./add-scheme-dialog"
 import { MembersTable } from "./members-table"
 import { AddMemberDialog } from "./add-member-dialog"
 import { EditMemberDialog } from "./edit-member-dialog"
@@ -14,13 +17,39 @@ import { MemberHistoryDialog } from "./member-history-dialog"
 import { PreviousWinnersDialog } from "./previous-winners-dialog"
 import { UnpaidMembersDialog } from "./unpaid-members-dialog"
 import { ReceiptDialog } from "./receipt-dialog"
+import { RecordPaymentDialog } from "./record-payment-dialog"
+import { CollectorsDialog } from "./collectors-dialog"
+import { MessageLogDialog } from "./message-log-dialog"
+import { RolloverPreviewDialog } from "./rollover-preview-dialog"
+import { OutboxProgress } from "./outbox-progress"
+import { BulkDryRunDialog } from "./bulk-dry-run-dialog"
+import { SchedulerDialog } from "./scheduler-dialog"
+import { OverdueNotice } from "./overdue-notice"
+import { LateFeeDialog } from "./late-fee-dialog"
+import { InboxDialog } from "./inbox-dialog"
 import { DatabaseService } from "@/lib/database"
-import { Member, NewMember, MonthTable, PaymentStatus, PaidToRecipient, formatMonthName, isWinnerOfMonth } from "@/lib/supabase"
+import { Draw } from "@/lib/draw-engine"
+import { Member, NewMember, NewPayment, Collector, DEFAULT_COLLECTOR, MonthTable, Scheme, NewScheme, DEFAULT_SCHEME, getSchemeMonths, PaymentStatus, PaidToRecipient, formatMonthName, formatAmount, getInstallmentAmount, isWinnerOfMonth } from "@/lib/supabase"
+import { getCurrentSchemeMonth } from "@/lib/scheme-calendar"
 import { formatTokenDisplay } from "@/lib/utils"
-import { sendDrawReminders, sendBulkReceipts, checkWhatsAppStatus } from "@/lib/whatsapp"
+import { checkWhatsAppStatus } from "@/lib/whatsapp"
+import { OutboxService, BulkMessagePlan, planBulkMessages, queueBulkMessages } from "@/lib/outbox"
+import { loadMessageTemplates } from "@/lib/message-templates"
+import { SchedulerService, ScheduleRun } from "@/lib/scheduler"
+import { InboxService } from "@/lib/inbox"
 import { Input } from "@/components/ui/input"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 
+/**
+ * How often the open dashboard checks for scheduled rules that are due
+ */
+const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * How often the open dashboard checks the inbox for new WhatsApp messages
+ */
+const INBOX_REFRESH_MS = 60 * 1000
+
 /**
  * Main Dashboard Component
  * Provides complete interface for managing the scheme register
@@ -28,9 +57,16 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
  * Mobile-first responsive design with progressive enhancement
  */
 export function Dashboard() {
+  // All schemes (parallel chit groups) and the one currently being managed
+  const [schemes, setSchemes] = React.useState<Scheme[]>([DEFAULT_SCHEME])
+  const [selectedScheme, setSelectedScheme] = React.useState<Scheme>(DEFAULT_SCHEME)
+
+  // Months of the selected scheme's calendar
+  const schemeMonths = React.useMemo(() => getSchemeMonths(selectedScheme), [selectedScheme])
+
   // Current selected month state
-  // Default to November as the primary month
-  const [selectedMonth, setSelectedMonth] = React.useState<MonthTable>('january_2026')
+  // Defaults to the scheme calendar month matching today's date
+  const [selectedMonth, setSelectedMonth] = React.useState<MonthTable>(() => getCurrentSchemeMonth(getSchemeMonths(DEFAULT_SCHEME)))
 
   // Members data and loading state
   const [members, setMembers] = React.useState<Member[]>([])
@@ -80,21 +116,34 @@ export function Dashboard() {
 
   // Dialog states
   const [isAddDialogOpen, setIsAddDialogOpen] = React.useState(false)
+  const [isAddSchemeDialogOpen, setIsAddSchemeDialogOpen] = React.useState(false)
   const [isEditDialogOpen, setIsEditDialogOpen] = React.useState(false)
   const [isDeclareWinnerDialogOpen, setIsDeclareWinnerDialogOpen] = React.useState(false)
   const [isMemberHistoryDialogOpen, setIsMemberHistoryDialogOpen] = React.useState(false)
   const [isPreviousWinnersDialogOpen, setIsPreviousWinnersDialogOpen] = React.useState(false)
   const [isUnpaidMembersDialogOpen, setIsUnpaidMembersDialogOpen] = React.useState(false)
   const [isReceiptDialogOpen, setIsReceiptDialogOpen] = React.useState(false)
+  const [isRecordPaymentDialogOpen, setIsRecordPaymentDialogOpen] = React.useState(false)
+  const [isCollectorsDialogOpen, setIsCollectorsDialogOpen] = React.useState(false)
+  const [isMessageLogDialogOpen, setIsMessageLogDialogOpen] = React.useState(false)
+  const [isSchedulerDialogOpen, setIsSchedulerDialogOpen] = React.useState(false)
+  const [isLateFeeDialogOpen, setIsLateFeeDialogOpen] = React.useState(false)
+  const [isInboxDialogOpen, setIsInboxDialogOpen] = React.useState(false)
   const [editingMember, setEditingMember] = React.useState<Member | null>(null)
   const [historyMember, setHistoryMember] = React.useState<Member | null>(null)
   const [receiptMember, setReceiptMember] = React.useState<Member | null>(null)
+  const [paymentMember, setPaymentMember] = React.useState<Member | null>(null)
 
   // Loading states for various operations
   const [isAssigningTokens, setIsAssigningTokens] = React.useState(false)
   const [isProceedingToNextMonth, setIsProceedingToNextMonth] = React.useState(false)
+  const [isRolloverPreviewOpen, setIsRolloverPreviewOpen] = React.useState(false)
+  const [isUndoingRollover, setIsUndoingRollover] = React.useState(false)
   const [isSendingReminders, setIsSendingReminders] = React.useState(false)
   const [isSendingBulkReceipts, setIsSendingBulkReceipts] = React.useState(false)
+
+  // Bulk messages being reviewed before they are queued
+  const [dryRunPlan, setDryRunPlan] = React.useState<BulkMessagePlan | null>(null)
   const [isCheckingWhatsApp, setIsCheckingWhatsApp] = React.useState(false)
 
   // Error state for user feedback
@@ -118,8 +167,8 @@ export function Dashboard() {
 
       // Load members and all winners in parallel
       const [data, allWinnersData] = await Promise.all([
-        DatabaseService.getMembers(selectedMonth),
-        DatabaseService.getAllWinners()
+        DatabaseService.getMembers(selectedScheme, selectedMonth),
+        DatabaseService.getAllWinners(selectedScheme)
       ])
 
       setMembers(data)
@@ -127,7 +176,7 @@ export function Dashboard() {
       setAllWinners(allWinnersData)
 
       // Load family suggestions
-      const families = await DatabaseService.getExistingFamilyNames(selectedMonth)
+      const families = await DatabaseService.getExistingFamilyNames(selectedScheme, selectedMonth)
       setFamilySuggestions(families)
     } catch (err) {
       console.error('Error loading members:', err)
@@ -135,7 +184,7 @@ export function Dashboard() {
     } finally {
       setIsLoading(false)
     }
-  }, [selectedMonth])
+  }, [selectedScheme, selectedMonth])
 
   // Check if next month already has data
   const [nextMonthHasData, setNextMonthHasData] = React.useState(false)
@@ -145,9 +194,9 @@ export function Dashboard() {
    */
   const checkNextMonthData = React.useCallback(async () => {
     try {
-      const nextMonth = DatabaseService.getNextMonth(selectedMonth);
+      const nextMonth = DatabaseService.getNextMonth(selectedScheme, selectedMonth);
       if (nextMonth) {
-        const nextMonthMembers = await DatabaseService.getMembers(nextMonth);
+        const nextMonthMembers = await DatabaseService.getMembers(selectedScheme, nextMonth);
         setNextMonthHasData(nextMonthMembers.length > 0);
       } else {
         setNextMonthHasData(false);
@@ -156,7 +205,7 @@ export function Dashboard() {
       console.error('Error checking next month data:', error);
       setNextMonthHasData(false);
     }
-  }, [selectedMonth]);
+  }, [selectedScheme, selectedMonth]);
 
   /**
    * Load members when component mounts or month changes
@@ -173,6 +222,159 @@ export function Dashboard() {
     checkNextMonthData()
   }, [selectedMonth, checkNextMonthData])
 
+  // Outbox batches followed (and sent) from the dashboard
+  const [outboxBatchIds, setOutboxBatchIds] = React.useState<number[]>([])
+
+  /**
+   * Follow a newly queued batch
+   */
+  const addOutboxBatch = React.useCallback((batchId: number) => {
+    setOutboxBatchIds(prev => prev.includes(batchId) ? prev : [...prev, batchId])
+  }, [])
+
+  /**
+   * Pick up sends that were interrupted when the app was last closed
+   */
+  React.useEffect(() => {
+    OutboxService.getUnfinishedBatches()
+      .then(batches => batches.forEach(batch => addOutboxBatch(batch.id)))
+      .catch(err => console.error('Error loading unfinished outbox batches:', err))
+  }, [addOutboxBatch])
+
+  // Latest marking of the month's pending payments as overdue, shown as a notice
+  const [overdueTransition, setOverdueTransition] = React.useState<ScheduleRun | null>(null)
+
+  /**
+   * Load the overdue marking of the selected month
+   */
+  const loadOverdueTransition = React.useCallback(() => {
+    SchedulerService.getOverdueTransition(selectedScheme, selectedMonth)
+      .then(setOverdueTransition)
+      .catch(err => console.error('Error loading overdue marking:', err))
+  }, [selectedScheme, selectedMonth])
+
+  React.useEffect(() => {
+    loadOverdueTransition()
+  }, [loadOverdueTransition])
+
+  /**
+   * Run the deadline job and the scheduled reminders that are due while the dashboard is open
+   * Queued reminders are sent by the outbox worker; members are reloaded after overdue marking
+   */
+  React.useEffect(() => {
+    const runSchedule = () => {
+      SchedulerService.runDueRules()
+        .then(runs => {
+          runs.forEach(run => run.outbox_batch_id && addOutboxBatch(run.outbox_batch_id))
+          if (runs.some(run => run.action === 'mark_overdue' && run.status === 'success')) {
+            loadMembers()
+            loadOverdueTransition()
+          }
+        })
+        .catch(err => console.error('Error running scheduled rules:', err))
+    }
+
+    runSchedule()
+    const interval = setInterval(runSchedule, SCHEDULER_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [addOutboxBatch, loadMembers, loadOverdueTransition])
+
+  // WhatsApp messages from members that still need an answer
+  const [inboxOpenCount, setInboxOpenCount] = React.useState(0)
+
+  /**
+   * Refresh the number of open inbox messages
+   */
+  const loadInboxCount = React.useCallback(() => {
+    InboxService.getOpenCount().then(setInboxOpenCount)
+  }, [])
+
+  React.useEffect(() => {
+    loadInboxCount()
+    const interval = setInterval(loadInboxCount, INBOX_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [loadInboxCount])
+
+  // Active collectors offered in the paid-to selects
+  const [collectors, setCollectors] = React.useState<Collector[]>([DEFAULT_COLLECTOR])
+
+  /**
+   * Load the active collectors
+   * Called on mount and whenever the collectors list is changed
+   */
+  const loadCollectors = React.useCallback(() => {
+    DatabaseService.getCollectors().then(setCollectors)
+  }, [])
+
+  React.useEffect(() => {
+    loadCollectors()
+  }, [loadCollectors])
+
+  /**
+   * Load the edited message templates used by the receipt and reminder dialogs
+   */
+  React.useEffect(() => {
+    loadMessageTemplates()
+  }, [])
+
+  /**
+   * Load all schemes once when the dashboard mounts
+   * Keeps the first scheme selected by default
+   */
+  React.useEffect(() => {
+    DatabaseService.getSchemes().then(loadedSchemes => {
+      setSchemes(loadedSchemes)
+      setSelectedScheme(loadedSchemes[0])
+    })
+  }, [])
+
+  /**
+   * Handle scheme selection change
+   * Jumps to the current month of the new scheme's calendar
+   */
+  const handleSchemeChange = (scheme: Scheme) => {
+    setSelectedScheme(scheme)
+    setSelectedMonth(getCurrentSchemeMonth(getSchemeMonths(scheme)))
+    // Clear filters when scheme changes
+    setSearchQuery('')
+    setSelectedFamily(null)
+  }
+
+  /**
+   * Handle creating a new scheme
+   */
+  const handleAddScheme = async (schemeData: NewScheme) => {
+    try {
+      setError(null)
+      const newScheme = await DatabaseService.createScheme(schemeData)
+
+      // Add the new scheme to the list and switch to it
+      setSchemes(prev => [...prev, newScheme])
+      handleSchemeChange(newScheme)
+    } catch (err) {
+      console.error('Error adding scheme:', err)
+      setError('Failed to create scheme. Please try again.')
+      throw err // Re-throw to handle in dialog
+    }
+  }
+
+  /**
+   * Handle saving the late fee rule of the selected scheme
+   */
+  const handleSaveLateFee = async (updates: Partial<NewScheme>) => {
+    try {
+      setError(null)
+      const updatedScheme = await DatabaseService.updateScheme(selectedScheme.id, updates)
+
+      setSchemes(prev => prev.map(scheme => scheme.id === updatedScheme.id ? updatedScheme : scheme))
+      setSelectedScheme(updatedScheme)
+    } catch (err) {
+      console.error('Error saving late fee:', err)
+      setError('Failed to save the late fee. Please try again.')
+      throw err // Re-throw to handle in dialog
+    }
+  }
+
   /**
    * Handle month selection change
    */
@@ -188,7 +390,7 @@ export function Dashboard() {
   const handleAddMember = async (memberData: NewMember) => {
     try {
       setError(null)
-      const newMember = await DatabaseService.addMember(selectedMonth, memberData)
+      const newMember = await DatabaseService.addMember(selectedScheme, selectedMonth, memberData)
 
       // Add the new member to the current list and re-sort
       setMembers(prev => [...prev, newMember].sort((a, b) => a.full_name.localeCompare(b.full_name)))
@@ -213,7 +415,7 @@ export function Dashboard() {
   const handleUpdateMember = async (memberId: number, updates: Partial<NewMember>) => {
     try {
       setError(null)
-      const updatedMember = await DatabaseService.updateMember(selectedMonth, memberId, updates)
+      const updatedMember = await DatabaseService.updateMember(selectedScheme, selectedMonth, memberId, updates)
 
       // Update the editingMember state with the new data
       setEditingMember(updatedMember)
@@ -225,7 +427,7 @@ export function Dashboard() {
       // User can manually close it when done
     } catch (err) {
       console.error('Error updating member:', err)
-      setError('Failed to update member. Please try again.')
+      setError(err instanceof Error ? err.message : 'Failed to update member. Please try again.')
       throw err // Re-throw to handle in dialog
     }
   }
@@ -242,7 +444,7 @@ export function Dashboard() {
     ;(async () => {
       try {
         setError(null)
-        await DatabaseService.deleteMember(selectedMonth, memberId)
+        await DatabaseService.deleteMember(selectedScheme, selectedMonth, memberId)
 
         // Remove the member from the current list
         setMembers(prev => prev.filter(member => member.id !== memberId))
@@ -265,7 +467,7 @@ export function Dashboard() {
       return
     }
 
-    const confirmMessage = `This will assign token numbers to ${membersWithoutTokens.length} member(s) and send WhatsApp messages to all members with their token numbers. Are you sure?`
+    const confirmMessage = `This will assign token numbers to ${membersWithoutTokens.length} member(s). The WhatsApp messages with their token numbers can be reviewed before they are sent. Are you sure?`
     if (!confirm(confirmMessage)) {
       return
     }
@@ -277,14 +479,20 @@ export function Dashboard() {
       // Show initial progress message
       console.log(`🔄 Starting token assignment for ${membersWithoutTokens.length} members`)
 
-      await DatabaseService.assignTokenNumbers(selectedMonth)
+      const updatedMembers = await DatabaseService.assignTokenNumbers(selectedScheme, selectedMonth)
 
       // Reload members to get updated token numbers
       await loadMembers()
 
-      // Show success message
+      // Review the token messages before they are queued
       console.log(`✅ Token assignment completed successfully`)
-      alert(`✅ Token numbers assigned successfully!\n\nWhatsApp messages have been sent to all members with their assigned token numbers.\n\nNote: If any messages failed, they will be logged in the console for review.`)
+      try {
+        setDryRunPlan(await planBulkMessages('token_assignment', updatedMembers, selectedMonth, selectedScheme))
+      } catch (messagingError) {
+        // Token assignment was successful, messaging is secondary
+        console.error('❌ Error preparing token assignment messages:', messagingError)
+        setError('Tokens were assigned, but the WhatsApp messages could not be prepared.')
+      }
     } catch (err) {
       console.error('Error assigning tokens:', err)
       setError('Failed to assign tokens. Please try again.')
@@ -296,7 +504,7 @@ export function Dashboard() {
   /**
    * Handle declaring a winner for the current month
    */
-  const handleDeclareWinner = async (memberId: number) => {
+  const handleDeclareWinner = async (draw: Draw) => {
     try {
       setError(null)
 
@@ -306,7 +514,7 @@ export function Dashboard() {
         return
       }
 
-      await DatabaseService.declareWinner(selectedMonth, memberId)
+      await DatabaseService.declareWinner(selectedScheme, selectedMonth, draw.id)
 
       // hasCurrentMonthWinner will automatically update via useMemo when members change
 
@@ -328,9 +536,10 @@ export function Dashboard() {
 
   /**
    * Handle proceeding to the next month
+   * Opens the rollover preview, the month is created once it is confirmed there
    */
-  const handleProceedToNextMonth = async () => {
-    const nextMonth = DatabaseService.getNextMonth(selectedMonth)
+  const handleProceedToNextMonth = () => {
+    const nextMonth = DatabaseService.getNextMonth(selectedScheme, selectedMonth)
 
     if (!nextMonth) {
       alert('This is the last month in the sequence.')
@@ -342,16 +551,18 @@ export function Dashboard() {
       return
     }
 
-    const confirmMessage = `This will copy all members to ${formatMonthName(nextMonth)}. Payment statuses will be reset to 'pending' for regular members, and 'no_payment_required' for previous winners. Are you sure?`
-    if (!confirm(confirmMessage)) {
-      return
-    }
+    setIsRolloverPreviewOpen(true)
+  }
 
+  /**
+   * Create the next month after the preview is confirmed
+   */
+  const handleConfirmRollover = async () => {
     try {
       setIsProceedingToNextMonth(true)
       setError(null)
 
-      const newMonth = await DatabaseService.proceedToNextMonth(selectedMonth)
+      const newMonth = await DatabaseService.proceedToNextMonth(selectedScheme, selectedMonth)
 
       // Update next month data state
       setNextMonthHasData(true)
@@ -361,13 +572,50 @@ export function Dashboard() {
     } catch (err) {
       console.error('Error proceeding to next month:', err)
       setError('Failed to proceed to next month. Please try again.')
+      throw err // Re-throw to handle in dialog
     } finally {
       setIsProceedingToNextMonth(false)
     }
   }
 
+  /**
+   * Handle undoing the rollover into the selected month
+   * Deletes the month again as long as nothing has been recorded in it
+   */
+  const handleUndoRollover = async () => {
+    const confirmMessage = `This will delete ${formatMonthName(selectedMonth)} for all members. It only works while no payments or winner have been recorded in it. Are you sure?`
+    if (!confirm(confirmMessage)) {
+      return
+    }
+
+    try {
+      setIsUndoingRollover(true)
+      setError(null)
+
+      const previousMonth = await DatabaseService.undoRollover(selectedScheme, selectedMonth)
+
+      // Switch back to the month the rollover was made from
+      setSelectedMonth(previousMonth)
+    } catch (err) {
+      console.error('Error undoing rollover:', err)
+      setError(err instanceof Error ? err.message : 'Failed to undo the rollover. Please try again.')
+    } finally {
+      setIsUndoingRollover(false)
+    }
+  }
+
+  /**
+   * Queue bulk messages once they have been reviewed in the dry run
+   * Errors are shown in the review dialog
+   */
+  const handleConfirmDryRun = async (plan: BulkMessagePlan) => {
+    const batch = await queueBulkMessages(plan, selectedScheme, selectedMonth)
+    addOutboxBatch(batch.id)
+  }
+
   /**
    * Handle sending draw reminders to all members
+   * Opens the dry run so the messages can be reviewed first
    */
   const handleSendReminders = async () => {
     if (members.length === 0) {
@@ -375,33 +623,14 @@ export function Dashboard() {
       return
     }
 
-    const confirmMessage = `This will send draw reminder messages to all ${members.length} members via WhatsApp. Are you sure?`
-    if (!confirm(confirmMessage)) {
-      return
-    }
-
     try {
       setIsSendingReminders(true)
       setError(null)
 
-      // Show initial progress message
-      console.log(`🔄 Starting draw reminder to ${members.length} members`)
-
-      const results = await sendDrawReminders(members, (current, total, memberName) => {
-        console.log(`📤 Sending reminder ${current}/${total}: ${memberName}`)
-      })
-
-      // Show success message
-      console.log(`✅ Draw reminders completed: ${results.sent} sent, ${results.failed} failed`)
-
-      if (results.failed > 0) {
-        alert(`✅ Draw reminders sent!\n\n${results.sent} messages sent successfully.\n${results.failed} messages failed.\n\nFailed messages:\n${results.errors.map(e => `- ${e.memberName}: ${e.error}`).join('\n')}`)
-      } else {
-        alert(`✅ Draw reminders sent successfully!\n\nAll ${results.sent} messages were delivered.`)
-      }
+      setDryRunPlan(await planBulkMessages('draw_reminder', members, selectedMonth, selectedScheme))
     } catch (err) {
-      console.error('Error sending draw reminders:', err)
-      setError('Failed to send draw reminders. Please try again.')
+      console.error('Error preparing draw reminders:', err)
+      setError('Failed to prepare draw reminders. Please try again.')
     } finally {
       setIsSendingReminders(false)
     }
@@ -439,6 +668,7 @@ export function Dashboard() {
 
   /**
    * Handle sending bulk receipts to paid members
+   * Opens the dry run so the receipts can be reviewed first
    */
   const handleSendBulkReceipts = async () => {
     // Filter paid members
@@ -449,33 +679,14 @@ export function Dashboard() {
       return
     }
 
-    const confirmMessage = `This will send payment receipts to ${paidMembers.length} paid members via WhatsApp. Are you sure?`
-    if (!confirm(confirmMessage)) {
-      return
-    }
-
     try {
       setIsSendingBulkReceipts(true)
       setError(null)
 
-      // Show initial progress message
-      console.log(`🔄 Starting bulk receipt sending to ${paidMembers.length} paid members`)
-
-      const results = await sendBulkReceipts(paidMembers, selectedMonth, (current, total, memberName) => {
-        console.log(`📤 Sending receipt ${current}/${total}: ${memberName}`)
-      })
-
-      // Show success message
-      console.log(`✅ Bulk receipts completed: ${results.sent} sent, ${results.failed} failed`)
-
-      if (results.failed > 0) {
-        alert(`✅ Bulk receipts sent!\n\n${results.sent} receipts sent successfully.\n${results.failed} receipts failed.\n\nFailed receipts:\n${results.errors.map(e => `- ${e.memberName}: ${e.error}`).join('\n')}`)
-      } else {
-        alert(`✅ Bulk receipts sent successfully!\n\nAll ${results.sent} receipts were delivered.`)
-      }
+      setDryRunPlan(await planBulkMessages('receipt', paidMembers, selectedMonth, selectedScheme))
     } catch (err) {
-      console.error('Error sending bulk receipts:', err)
-      setError('Failed to send bulk receipts. Please try again.')
+      console.error('Error preparing bulk receipts:', err)
+      setError('Failed to prepare receipts. Please try again.')
     } finally {
       setIsSendingBulkReceipts(false)
     }
@@ -497,18 +708,67 @@ export function Dashboard() {
     setIsReceiptDialogOpen(true)
   }
 
+  /**
+   * Handle opening the payments ledger of a member
+   */
+  const handleOpenPayments = (member: Member) => {
+    setPaymentMember(member)
+    setIsRecordPaymentDialogOpen(true)
+  }
+
+  /**
+   * Handle recording a (partial or advance) payment in the ledger
+   */
+  const handleRecordPayment = async (memberId: number, payment: NewPayment) => {
+    try {
+      setError(null)
+      const updatedMember = await DatabaseService.recordPayment(selectedScheme, selectedMonth, memberId, payment)
+
+      // Keep the ledger dialog showing the refreshed totals
+      setPaymentMember(updatedMember)
+
+      // Reload members to get updated data
+      await loadMembers()
+    } catch (err) {
+      console.error('Error recording payment:', err)
+      setError('Failed to record payment. Please try again.')
+      throw err // Re-throw to handle in dialog
+    }
+  }
+
+  /**
+   * Handle removing an entry from the payments ledger
+   * Its receipt is kept as cancelled with the reason
+   */
+  const handleDeletePayment = async (memberId: number, paymentId: number, reason: string | null) => {
+    try {
+      setError(null)
+      const updatedMember = await DatabaseService.deletePayment(selectedScheme, selectedMonth, memberId, paymentId, reason)
+      setPaymentMember(updatedMember)
+      await loadMembers()
+    } catch (err) {
+      console.error('Error deleting payment:', err)
+      setError('Failed to delete payment. Please try again.')
+      throw err // Re-throw to handle in dialog
+    }
+  }
+
   /**
    * Handle payment status change from unpaid members dialog
    */
   const handlePaymentStatusChange = async (memberId: number, status: PaymentStatus) => {
     try {
       setError(null)
-      await DatabaseService.updateMember(selectedMonth, memberId, { payment_status: status })
+      // Record the moment the member was marked as paid as the payment date
+      const updates = status === 'paid'
+        ? { payment_status: status, paid_at: new Date().toISOString() }
+        : { payment_status: status }
+      await DatabaseService.updateMember(selectedScheme, selectedMonth, memberId, updates)
       // Reload members to get updated data
       await loadMembers()
     } catch (err) {
       console.error('Error updating payment status:', err)
-      setError('Failed to update payment status. Please try again.')
+      setError(err instanceof Error ? err.message : 'Failed to update payment status. Please try again.')
     }
   }
 
@@ -516,9 +776,15 @@ export function Dashboard() {
    * Handle paid to change from unpaid members dialog
    */
   const handlePaidToChange = async (memberId: number, paidTo: string) => {
+    // Only active collectors can receive payments
+    if (!collectors.some(collector => collector.name === paidTo)) {
+      setError(`${paidTo} is not an active collector.`)
+      return
+    }
+
     try {
       setError(null)
-      await DatabaseService.updateMember(selectedMonth, memberId, { paid_to: paidTo as PaidToRecipient })
+      await DatabaseService.updateMember(selectedScheme, selectedMonth, memberId, { paid_to: paidTo as PaidToRecipient })
       // Reload members to get updated data
       await loadMembers()
     } catch (err) {
@@ -556,7 +822,7 @@ export function Dashboard() {
   /**
    * Check if current month is starting month for conditional features
    */
-  const isStartingMonth = DatabaseService.isStartingMonth(selectedMonth)
+  const isStartingMonth = DatabaseService.isStartingMonth(selectedScheme, selectedMonth)
 
   /**
    * Get unique families from current members
@@ -611,6 +877,11 @@ export function Dashboard() {
     // Get unique families count
     const uniqueFamiliesCount = uniqueFamilies.length
 
+    // Expected amount for the month (winners don't pay) and the payments ledger total
+    const payingMembers = members.filter(m => m.payment_status !== 'no_payment_required')
+    const expectedAmount = payingMembers.reduce((sum, m) => sum + getInstallmentAmount(selectedScheme, m), 0)
+    const collectedAmount = members.reduce((sum, m) => sum + m.paid_amount, 0)
+
     return {
       totalMembers: members.length,
       membersWithTokens: members.filter(m => m.token_number).length,
@@ -622,10 +893,12 @@ export function Dashboard() {
       winnersSelected: totalWinners,
       drawnMembers: drawnMembers,
       totalWinners: totalWinners + drawnMembers, // Current + previous winners
+      expectedAmount,
+      collectedAmount,
       // Add filtered count for search results
       filteredCount: filteredMembers.length
     }
-  }, [members, filteredMembers, uniqueFamilies])
+  }, [members, filteredMembers, uniqueFamilies, selectedScheme])
 
   /**
    * Check if there are eligible members for winner declaration
@@ -654,7 +927,7 @@ export function Dashboard() {
           </h1>
           <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-4 space-y-2 sm:space-y-0">
             <p className="text-sm text-muted-foreground sm:text-base">
-              Manage members and tokens for {formatMonthName(selectedMonth)}
+              Manage members and tokens of {selectedScheme.name} for {formatMonthName(selectedMonth)}
               {currentWinner && (
                 <span className="ml-2 inline-flex items-center gap-1">
                   &bull; <Crown className="h-4 w-4 text-yellow-500" /> Winner: {currentWinner.full_name}
@@ -692,11 +965,23 @@ export function Dashboard() {
           </div>
         </div>
 
-        {/* Right side controls - Month selector and theme toggle */}
+        {/* Right side controls - Scheme selector, month selector and theme toggle */}
         <div className="flex flex-col space-y-3 sm:flex-row sm:items-center sm:space-y-0 sm:space-x-3">
+          {/* Scheme selector - Full width on mobile, auto width on larger screens */}
+          <div className="w-full sm:w-auto">
+            <SchemeSelector
+              schemes={schemes}
+              selectedScheme={selectedScheme}
+              onSchemeChange={handleSchemeChange}
+              onAddScheme={() => setIsAddSchemeDialogOpen(true)}
+              className="w-full sm:w-auto"
+            />
+          </div>
+
           {/* Month selector - Full width on mobile, auto width on larger screens */}
           <div className="w-full sm:w-auto">
             <MonthSelector
+              months={schemeMonths}
               selectedMonth={selectedMonth}
               onMonthChange={handleMonthChange}
               className="w-full sm:w-auto"
@@ -717,6 +1002,17 @@ export function Dashboard() {
         </div>
       )}
 
+      {/* Notice of payments marked overdue after the deadline */}
+      {overdueTransition && (
+        <div className="mt-4">
+          <OverdueNotice
+            transition={overdueTransition}
+            overdueCount={members.filter(m => m.payment_status === 'overdue').length}
+            onView={() => setIsUnpaidMembersDialogOpen(true)}
+          />
+        </div>
+      )}
+
       {/* Statistics Cards - Mobile-first grid layout */}
       <div className="grid gap-3 grid-cols-2 sm:gap-4 sm:grid-cols-2 lg:grid-cols-4 mt-4">
         {/* Total Members Card */}
@@ -805,6 +1101,9 @@ export function Dashboard() {
             <p className="text-xs text-muted-foreground">
               of {stats.totalMembers} members {stats.noPaymentRequired > 0 && `(+${stats.noPaymentRequired} winner${stats.noPaymentRequired > 1 ? 's' : ''})`}
             </p>
+            <p className="text-xs text-muted-foreground">
+              {formatAmount(stats.collectedAmount)} of {formatAmount(stats.expectedAmount)} collected
+            </p>
             {/* Unpaid Members Button */}
             <Button
               variant="outline"
@@ -860,6 +1159,17 @@ export function Dashboard() {
                       <Crown className="mr-1 h-3 w-3" />
                       Declare Winner
                     </Button>
+                    <Button
+                      variant="ghost"
+                      asChild
+                      className="w-full h-7 text-xs text-yellow-600"
+                      size="sm"
+                    >
+                      <a href={`/draw?scheme=${selectedScheme.id}&month=${selectedMonth}`} target="_blank" rel="noopener noreferrer">
+                        <Tv className="mr-1 h-3 w-3" />
+                        Live Draw
+                      </a>
+                    </Button>
 
                   </div>
                 )}
@@ -897,7 +1207,7 @@ export function Dashboard() {
         )}
 
         {/* Proceed to Next Month Button - Show if winner is declared and next month doesn't have data */}
-        {currentWinner && DatabaseService.getNextMonth(selectedMonth) && !nextMonthHasData && (
+        {currentWinner && DatabaseService.getNextMonth(selectedScheme, selectedMonth) && !nextMonthHasData && (
           <Button
             variant="outline"
             onClick={handleProceedToNextMonth}
@@ -906,7 +1216,21 @@ export function Dashboard() {
             size="lg"
           >
             <ArrowRight className="mr-2 h-4 w-4" />
-            {isProceedingToNextMonth ? 'Proceeding...' : `Proceed to ${formatMonthName(DatabaseService.getNextMonth(selectedMonth)!)}`}
+            {isProceedingToNextMonth ? 'Proceeding...' : `Proceed to ${formatMonthName(DatabaseService.getNextMonth(selectedScheme, selectedMonth)!)}`}
+          </Button>
+        )}
+
+        {/* Undo Rollover Button - Show on a generated month while it is still the latest one */}
+        {!isStartingMonth && !nextMonthHasData && members.length > 0 && !hasCurrentMonthWinner && (
+          <Button
+            variant="ghost"
+            onClick={handleUndoRollover}
+            disabled={isUndoingRollover}
+            className="w-full sm:w-auto text-muted-foreground"
+            size="lg"
+          >
+            <Undo2 className="mr-2 h-4 w-4" />
+            {isUndoingRollover ? 'Undoing...' : 'Undo Rollover'}
           </Button>
         )}
 
@@ -921,7 +1245,78 @@ export function Dashboard() {
             size="sm"
           >
             <AlertCircle className="mr-2 h-4 w-4" />
-            {isSendingReminders ? 'Sending Reminders...' : 'Send Reminders'}
+            {isSendingReminders ? 'Preparing Reminders...' : 'Send Reminders'}
+          </Button>
+
+          {/* Collectors and Cash Summary Button */}
+          <Button
+            variant="outline"
+            onClick={() => setIsCollectorsDialogOpen(true)}
+            className="h-10 text-sm whitespace-nowrap"
+            size="sm"
+          >
+            <Wallet className="mr-2 h-4 w-4" />
+            Collectors
+          </Button>
+
+          {/* Late Fee Button */}
+          <Button
+            variant="outline"
+            onClick={() => setIsLateFeeDialogOpen(true)}
+            className="h-10 text-sm whitespace-nowrap"
+            size="sm"
+          >
+            <Percent className="mr-2 h-4 w-4" />
+            Late Fee
+          </Button>
+
+          {/* Inbox Button */}
+          <Button
+            variant="outline"
+            onClick={() => setIsInboxDialogOpen(true)}
+            className="h-10 text-sm whitespace-nowrap"
+            size="sm"
+          >
+            <Inbox className="mr-2 h-4 w-4" />
+            Inbox
+            {inboxOpenCount > 0 && (
+              <span className="ml-2 rounded-full bg-red-500 px-1.5 text-xs text-white">{inboxOpenCount}</span>
+            )}
+          </Button>
+
+          {/* Message Log Button */}
+          <Button
+            variant="outline"
+            onClick={() => setIsMessageLogDialogOpen(true)}
+            className="h-10 text-sm whitespace-nowrap"
+            size="sm"
+          >
+            <MessageSquare className="mr-2 h-4 w-4" />
+            Messages
+          </Button>
+
+          {/* Reminder Schedule Button */}
+          <Button
+            variant="outline"
+            onClick={() => setIsSchedulerDialogOpen(true)}
+            className="h-10 text-sm whitespace-nowrap"
+            size="sm"
+          >
+            <CalendarClock className="mr-2 h-4 w-4" />
+            Schedule
+          </Button>
+
+          {/* Message Templates Button */}
+          <Button
+            variant="outline"
+            asChild
+            className="h-10 text-sm whitespace-nowrap"
+            size="sm"
+          >
+            <Link href="/templates">
+              <FileText className="mr-2 h-4 w-4" />
+              Templates
+            </Link>
           </Button>
 
           {/* Send Bulk Receipts Button */}
@@ -933,7 +1328,7 @@ export function Dashboard() {
             size="sm"
           >
             <IndianRupee className="mr-2 h-4 w-4" />
-            {isSendingBulkReceipts ? 'Sending Receipts...' : 'Send Receipts'}
+            {isSendingBulkReceipts ? 'Preparing Receipts...' : 'Send Receipts'}
           </Button>
         </div>
       </div>
@@ -970,6 +1365,20 @@ export function Dashboard() {
         </div>
       </div>
 
+      {/* WhatsApp Outbox Progress - Sent from this tab while it stays open */}
+      {outboxBatchIds.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {outboxBatchIds.map(batchId => (
+            <OutboxProgress
+              key={batchId}
+              batchId={batchId}
+              runWorker
+              onDismiss={() => setOutboxBatchIds(prev => prev.filter(id => id !== batchId))}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Members Table - Mobile optimized with filtered data */}
       <div className="mt-4">
         <MembersTable
@@ -993,9 +1402,18 @@ export function Dashboard() {
           isLoading={isLoading}
           familySuggestions={familySuggestions}
           currentMonth={selectedMonth}
+          scheme={selectedScheme}
+          collectors={collectors}
         />
       )}
 
+      {/* Add Scheme Dialog */}
+      <AddSchemeDialog
+        open={isAddSchemeDialogOpen}
+        onOpenChange={setIsAddSchemeDialogOpen}
+        onAddScheme={handleAddScheme}
+      />
+
       {/* Edit Member Dialog */}
       <EditMemberDialog
         open={isEditDialogOpen}
@@ -1005,15 +1423,29 @@ export function Dashboard() {
         isLoading={isLoading}
         familySuggestions={familySuggestions}
         currentMonth={selectedMonth}
+        scheme={selectedScheme}
+        collectors={collectors}
       />
 
+      {/* Rollover Preview Dialog */}
+      {DatabaseService.getNextMonth(selectedScheme, selectedMonth) && (
+        <RolloverPreviewDialog
+          open={isRolloverPreviewOpen}
+          onOpenChange={setIsRolloverPreviewOpen}
+          scheme={selectedScheme}
+          currentMonth={selectedMonth}
+          nextMonth={DatabaseService.getNextMonth(selectedScheme, selectedMonth)!}
+          onConfirm={handleConfirmRollover}
+        />
+      )}
+
       {/* Declare Winner Dialog */}
       <DeclareWinnerDialog
         open={isDeclareWinnerDialogOpen}
         onOpenChange={setIsDeclareWinnerDialogOpen}
         onDeclareWinner={handleDeclareWinner}
-        members={members}
-        isLoading={isLoading}
+        scheme={selectedScheme}
+        currentMonth={selectedMonth}
         hasCurrentMonthWinner={hasCurrentMonthWinner}
       />
 
@@ -1022,12 +1454,14 @@ export function Dashboard() {
         open={isMemberHistoryDialogOpen}
         onOpenChange={setIsMemberHistoryDialogOpen}
         member={historyMember}
+        scheme={selectedScheme}
       />
 
       {/* Previous Winners Dialog */}
       <PreviousWinnersDialog
         open={isPreviousWinnersDialogOpen}
         onOpenChange={setIsPreviousWinnersDialogOpen}
+        scheme={selectedScheme}
       />
 
       {/* Unpaid Members Dialog */}
@@ -1035,8 +1469,14 @@ export function Dashboard() {
         open={isUnpaidMembersDialogOpen}
         onOpenChange={setIsUnpaidMembersDialogOpen}
         members={members}
+        scheme={selectedScheme}
+        collectors={collectors}
         onPaymentStatusChange={handlePaymentStatusChange}
         onPaidToChange={handlePaidToChange}
+        onRecordPayment={handleOpenPayments}
+        currentMonth={selectedMonth}
+        overdueTransition={overdueTransition}
+        onBatchQueued={addOutboxBatch}
       />
 
       {/* Receipt Dialog */}
@@ -1045,6 +1485,67 @@ export function Dashboard() {
         onOpenChange={setIsReceiptDialogOpen}
         member={receiptMember}
         currentMonth={selectedMonth}
+        scheme={selectedScheme}
+      />
+
+      {/* Record Payment Dialog */}
+      <RecordPaymentDialog
+        open={isRecordPaymentDialogOpen}
+        onOpenChange={setIsRecordPaymentDialogOpen}
+        member={paymentMember}
+        scheme={selectedScheme}
+        currentMonth={selectedMonth}
+        collectors={collectors}
+        onRecordPayment={handleRecordPayment}
+        onDeletePayment={handleDeletePayment}
+      />
+
+      {/* Collectors Dialog */}
+      <CollectorsDialog
+        open={isCollectorsDialogOpen}
+        onOpenChange={setIsCollectorsDialogOpen}
+        scheme={selectedScheme}
+        currentMonth={selectedMonth}
+        onCollectorsChange={loadCollectors}
+      />
+
+      {/* Bulk Message Dry Run Dialog */}
+      <BulkDryRunDialog
+        open={dryRunPlan !== null}
+        onOpenChange={(open) => !open && setDryRunPlan(null)}
+        plan={dryRunPlan}
+        onConfirm={handleConfirmDryRun}
+      />
+
+      {/* Message Log Dialog */}
+      <MessageLogDialog
+        open={isMessageLogDialogOpen}
+        onOpenChange={setIsMessageLogDialogOpen}
+        scheme={selectedScheme}
+        currentMonth={selectedMonth}
+      />
+
+      {/* Inbox Dialog */}
+      <InboxDialog
+        open={isInboxDialogOpen}
+        onOpenChange={setIsInboxDialogOpen}
+        onInboxChange={loadInboxCount}
+      />
+
+      {/* Late Fee Dialog */}
+      <LateFeeDialog
+        open={isLateFeeDialogOpen}
+        onOpenChange={setIsLateFeeDialogOpen}
+        scheme={selectedScheme}
+        onSave={handleSaveLateFee}
+      />
+
+      {/* Reminder Schedule Dialog */}
+      <SchedulerDialog
+        open={isSchedulerDialogOpen}
+        onOpenChange={setIsSchedulerDialogOpen}
+        scheme={selectedScheme}
+        currentMonth={selectedMonth}
       />
     </div>
     </div>
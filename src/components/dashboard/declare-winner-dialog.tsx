@@ -1,6 +1,7 @@
 'use client'
 
 import * as React from "react"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import {
   Dialog,
@@ -10,105 +11,216 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Member } from "@/lib/supabase"
-import { Trophy, User } from "lucide-react"
+import { Member, MonthTable, Scheme, formatMonthName } from "@/lib/supabase"
+import { DatabaseService } from "@/lib/database"
+import { Draw, DrawResult, runDraw, verifyDraw } from "@/lib/draw-engine"
+import { Trophy, Dices, Loader2, ShieldCheck, ShieldAlert } from "lucide-react"
 import { formatTokenDisplay } from "@/lib/utils"
 
 interface DeclareWinnerDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onDeclareWinner: (memberId: number) => Promise<void>
-  members: Member[]
-  isLoading: boolean
+  onDeclareWinner: (draw: Draw) => Promise<void>
+  scheme: Scheme
+  currentMonth: MonthTable
   hasCurrentMonthWinner: boolean // Add this prop to check if winner already exists
 }
 
+/**
+ * Today's date in "YYYY-MM-DD" format for the draw date
+ */
+const getToday = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
 /**
  * Dialog component for declaring a winner for the current month
- * Allows selection from eligible members (paid members with tokens)
- * Provides clear visual feedback and confirmation
+ * Runs a seeded draw over the eligible members (paid, with tokens, not already a winner)
+ * The seed, eligible tokens and result are saved before the result is shown, so the draw can be re-run
+ * and verified, and a month is drawn only once
  */
 export function DeclareWinnerDialog({
   open,
   onOpenChange,
   onDeclareWinner,
-  members,
-  isLoading,
+  scheme,
+  currentMonth,
   hasCurrentMonthWinner
 }: DeclareWinnerDialogProps) {
-  // Selected member state
-  const [selectedMemberId, setSelectedMemberId] = React.useState<string>('')
+  // Eligible members and the recorded draw of the month
+  const [eligibleMembers, setEligibleMembers] = React.useState<Member[]>([])
+  const [recordedDraw, setRecordedDraw] = React.useState<Draw | null>(null)
+  const [isLoading, setIsLoading] = React.useState(false)
+
+  // Draw inputs and result
+  const [publicValue, setPublicValue] = React.useState('')
+  const [result, setResult] = React.useState<Draw | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = React.useState(false)
 
-  // Filter eligible members (paid members or those with no payment required, with tokens who haven't been drawn)
-  const eligibleMembers = React.useMemo(() => {
-    return members.filter(member =>
-      (member.payment_status === 'paid' || member.payment_status === 'no_payment_required') &&
-      member.token_number &&
-      member.draw_status === 'not_drawn'
-    )
-  }, [members])
-
-  // Get selected member details
-  const selectedMember = React.useMemo(() => {
-    if (!selectedMemberId) return null
-    return members.find(member => member.id.toString() === selectedMemberId) || null
-  }, [selectedMemberId, members])
+  /**
+   * Load the eligible members and a draw that was run but not declared yet,
+   * or the recorded draw once a winner is declared
+   */
+  React.useEffect(() => {
+    if (!open) return
+
+    setIsLoading(true)
+    const load = hasCurrentMonthWinner
+      ? DatabaseService.getDraw(scheme, currentMonth).then(setRecordedDraw)
+      : Promise.all([
+          DatabaseService.getDrawEligibleMembers(scheme, currentMonth),
+          DatabaseService.getDraw(scheme, currentMonth)
+        ]).then(([members, draw]) => {
+          setEligibleMembers(members)
+          setResult(draw)
+          setPublicValue(draw?.public_value ?? '')
+        })
+
+    load
+      .catch(err => {
+        console.error('Error loading draw details:', err)
+        setError('Failed to load draw details. Please try again.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [open, scheme, currentMonth, hasCurrentMonthWinner])
+
+  /**
+   * Reset form when dialog closes
+   */
+  React.useEffect(() => {
+    if (!open) {
+      setPublicValue('')
+      setResult(null)
+      setError(null)
+      setEligibleMembers([])
+      setRecordedDraw(null)
+    }
+  }, [open])
+
+  // Member holding the winning token of the draw
+  const winningMember = React.useMemo(() => {
+    if (!result) return null
+    return eligibleMembers.find(member => member.id === result.member_id) || null
+  }, [result, eligibleMembers])
+
+  /**
+   * Run the draw with the announced public value and record it before showing the result
+   */
+  const handleRunDraw = async () => {
+    if (!publicValue.trim()) {
+      setError('Enter the public value announced for this draw')
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      setResult(await DatabaseService.recordDraw(scheme, currentMonth, runDraw(
+        scheme.id,
+        currentMonth,
+        getToday(),
+        publicValue,
+        eligibleMembers.map(member => member.token_number as number)
+      )))
+    } catch (err) {
+      console.error('Error running draw:', err)
+      setError(err instanceof Error ? err.message : 'Failed to run the draw')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
 
   /**
    * Handle winner declaration
    */
   const handleDeclareWinner = async () => {
-    if (!selectedMemberId) return
+    if (!result) return
 
     try {
       setIsSubmitting(true)
-      await onDeclareWinner(parseInt(selectedMemberId))
+      await onDeclareWinner(result)
 
-      // Reset form and close dialog
-      setSelectedMemberId('')
+      // Close the dialog
       onOpenChange(false)
     } catch (error) {
       console.error('Error declaring winner:', error)
-      // Error handling is done in parent component
+      setError(error instanceof Error ? error.message : 'Failed to declare winner')
     } finally {
       setIsSubmitting(false)
     }
   }
 
   /**
-   * Reset form when dialog closes
+   * Seed, hash and token list of a draw, shown so members can check it themselves
    */
-  React.useEffect(() => {
-    if (!open) {
-      setSelectedMemberId('')
-    }
-  }, [open])
+  const renderDrawDetails = (draw: DrawResult) => (
+    <div className="space-y-1 rounded-md border p-3 text-xs">
+      <div><span className="text-muted-foreground">Seed:</span> <span className="font-mono break-all">{draw.seed}</span></div>
+      <div><span className="text-muted-foreground">SHA-256:</span> <span className="font-mono break-all">{draw.seed_hash}</span></div>
+      <div>
+        <span className="text-muted-foreground">Eligible tokens ({draw.eligible_tokens.length}):</span>{' '}
+        {draw.eligible_tokens.map(token => formatTokenDisplay(token)).join(', ')}
+      </div>
+    </div>
+  )
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Trophy className="h-5 w-5 text-yellow-500" />
             Declare Winner
           </DialogTitle>
           <DialogDescription>
-            Select a member to declare as the winner for this month.
-            Only paid members with token numbers are eligible.
+            Draw the winner for {formatMonthName(currentMonth)} from the paid members with tokens.
+            The draw is seeded with today&apos;s date and a public value so anyone can re-run it.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
-          {/* Check if winner already exists */}
-          {hasCurrentMonthWinner ? (
-            <div className="text-center py-8 text-muted-foreground">
-              <Trophy className="h-12 w-12 mx-auto mb-2 text-yellow-500" />
-              <p className="text-lg font-medium text-yellow-700">Winner Already Declared</p>
-              <p className="text-sm">A winner has already been declared for this month.</p>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading draw details...
             </div>
+          ) : hasCurrentMonthWinner ? (
+            <>
+              <div className="text-center py-4 text-muted-foreground">
+                <Trophy className="h-12 w-12 mx-auto mb-2 text-yellow-500" />
+                <p className="text-lg font-medium text-yellow-700">Winner Already Declared</p>
+                <p className="text-sm">A winner has already been declared for this month.</p>
+              </div>
+
+              {/* Recorded draw for verification */}
+              {recordedDraw ? (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span>
+                      Winning token <strong>{formatTokenDisplay(recordedDraw.winning_token)}</strong> • drawn {recordedDraw.draw_date}
+                    </span>
+                    {verifyDraw(recordedDraw.scheme_id, recordedDraw.month, recordedDraw) ? (
+                      <Badge variant="outline" className="text-green-700 border-green-300">
+                        <ShieldCheck className="h-3 w-3 mr-1" />
+                        Verified
+                      </Badge>
+                    ) : (
+                      <Badge variant="destructive">
+                        <ShieldAlert className="h-3 w-3 mr-1" />
+                        Mismatch
+                      </Badge>
+                    )}
+                  </div>
+                  {renderDrawDetails(recordedDraw)}
+                </div>
+              ) : (
+                <p className="text-center text-xs text-muted-foreground">No draw record was saved for this month</p>
+              )}
+            </>
           ) : (
             <>
               {/* Eligible members count */}
@@ -116,59 +228,67 @@ export function DeclareWinnerDialog({
                 {eligibleMembers.length} eligible member(s) available
               </div>
 
-              {/* Member selection */}
               {eligibleMembers.length > 0 ? (
                 <div className="space-y-2">
-                  <Label htmlFor="member-select">Select Winner</Label>
-                  <Select
-                    value={selectedMemberId}
-                    onValueChange={setSelectedMemberId}
-                    disabled={isLoading || isSubmitting}
-                  >
-                    <SelectTrigger id="member-select">
-                      <SelectValue placeholder="Choose a member..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {eligibleMembers.map((member) => (
-                        <SelectItem key={member.id} value={member.id.toString()}>
-                          <div className="flex items-center gap-2">
-                            <User className="h-4 w-4" />
-                            <div className="flex-1">
-                              <div className="font-medium">{member.full_name}</div>
-                              <div className="text-xs text-muted-foreground">
-                                Token {formatTokenDisplay(member.token_number)} • {member.family}
-                              </div>
-                            </div>
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="public-value">Public Value</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="public-value"
+                      value={publicValue}
+                      onChange={(e) => {
+                        setPublicValue(e.target.value)
+                        setError(null)
+                      }}
+                      placeholder="e.g. number announced at the shop"
+                      disabled={isSubmitting || result !== null}
+                    />
+                    <Button type="button" variant="outline" onClick={handleRunDraw} disabled={isSubmitting || result !== null}>
+                      <Dices className="h-4 w-4 mr-2" />
+                      Run Draw
+                    </Button>
+                  </div>
+                  {result && (
+                    <p className="text-xs text-muted-foreground">
+                      The draw for this month was run on {result.draw_date} and can&apos;t be run again
+                    </p>
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
                   <Trophy className="h-12 w-12 mx-auto mb-2 opacity-50" />
                   <p>No eligible members found</p>
-                  <p className="text-sm">Members must be paid and have token numbers to be eligible</p>
+                  <p className="text-sm">Members must be paid, have token numbers and not have won before</p>
                 </div>
               )}
 
-              {/* Selected member confirmation */}
-              {selectedMember && (
-                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
-                  <div className="flex items-center gap-2 text-yellow-800">
-                    <Trophy className="h-4 w-4" />
-                    <span className="font-medium">Selected Winner</span>
-                  </div>
-                  <div className="mt-1 text-sm text-yellow-700">
-                    <div><strong>{selectedMember.full_name}</strong></div>
-                    <div>Token {formatTokenDisplay(selectedMember.token_number)} • {selectedMember.family}</div>
-                    <div>Mobile: {selectedMember.mobile_number}</div>
+              {/* Draw result */}
+              {result && (
+                <div className="space-y-2">
+                  <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                    <div className="flex items-center gap-2 text-yellow-800">
+                      <Trophy className="h-4 w-4" />
+                      <span className="font-medium">Winning Token {formatTokenDisplay(result.winning_token)}</span>
+                    </div>
+                    {winningMember ? (
+                      <div className="mt-1 text-sm text-yellow-700">
+                        <div><strong>{winningMember.full_name}</strong></div>
+                        <div>{winningMember.family} • {winningMember.mobile_number}</div>
+                      </div>
+                    ) : (
+                      <div className="mt-1 text-sm text-destructive">
+                        The drawn member is no longer eligible. Check their payment and token before declaring.
+                      </div>
+                    )}
                   </div>
+                  {renderDrawDetails(result)}
                 </div>
               )}
             </>
           )}
+
+          {error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
         </div>
 
         <DialogFooter>
@@ -179,11 +299,11 @@ export function DeclareWinnerDialog({
           >
             {hasCurrentMonthWinner ? 'Close' : 'Cancel'}
           </Button>
-          {/* Only show declare winner button when no winner exists and there are eligible members */}
-          {!hasCurrentMonthWinner && eligibleMembers.length > 0 && (
+          {/* Only show declare winner button once a draw has been run */}
+          {!hasCurrentMonthWinner && result && (
             <Button
               onClick={handleDeclareWinner}
-              disabled={!selectedMemberId || isSubmitting}
+              disabled={!winningMember || isSubmitting}
               className="bg-yellow-600 hover:bg-yellow-700"
             >
               {isSubmitting ? 'Declaring Winner...' : 'Declare Winner'}
@@ -0,0 +1,39 @@
+'use client'
+
+import * as React from "react"
+import { MessageLogEntry, DELIVERY_STATUS_LABELS } from "@/lib/supabase"
+import { Check, CheckCheck, X } from "lucide-react"
+
+/**
+ * Props for the DeliveryTicks component
+ */
+interface DeliveryTicksProps {
+  entry?: MessageLogEntry // Latest message sent to the member, missing when none was sent
+}
+
+/**
+ * Delivery Ticks Component
+ * WhatsApp-style ticks of a sent message: one grey tick when sent, two when delivered, two blue when read
+ */
+export function DeliveryTicks({ entry }: DeliveryTicksProps) {
+  if (!entry) {
+    return null
+  }
+
+  const status = entry.delivery_status ?? 'sent'
+  const updatedAt = entry.delivery_updated_at ?? entry.created_at
+  const title = `${DELIVERY_STATUS_LABELS[status]} • ${new Date(updatedAt).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' })}`
+
+  return (
+    <span title={title} className="inline-flex items-center">
+      {status === 'failed' ? (
+        <X className="h-4 w-4 text-destructive" />
+      ) : status === 'sent' ? (
+        <Check className="h-4 w-4 text-muted-foreground" />
+      ) : (
+        <CheckCheck className={`h-4 w-4 ${status === 'read' ? 'text-blue-500' : 'text-muted-foreground'}`} />
+      )}
+      <span className="sr-only">{DELIVERY_STATUS_LABELS[status]}</span>
+    </span>
+  )
+}
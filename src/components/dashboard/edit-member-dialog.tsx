@@ -19,8 +19,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
-import { Member, NewMember, PaymentStatus, isWinnerStatus, MonthTable } from "@/lib/supabase"
-import { validatePhoneNumber } from "@/lib/utils"
+import { Member, NewMember, PaymentStatus, PaymentMode, MessageLanguage, MessagingPreference, PAYMENT_MODE_LABELS, MESSAGE_LANGUAGE_LABELS, MESSAGING_PREFERENCE_LABELS, isWinnerStatus, MonthTable, Scheme, Collector, DEFAULT_COLLECTOR } from "@/lib/supabase"
+import { validatePhoneNumber, toDateTimeLocalValue } from "@/lib/utils"
 import { DatabaseService } from "@/lib/database"
 import { ReceiptDialog } from "./receipt-dialog"
 import { IndianRupee } from "lucide-react"
@@ -36,6 +36,8 @@ interface EditMemberDialogProps {
   isLoading?: boolean
   familySuggestions?: string[]
   currentMonth?: string // Add current month for family number lookup
+  scheme?: Scheme // Scheme whose roster is being edited
+  collectors?: Collector[] // Options for the paid-to select
 }
 
 /**
@@ -46,7 +48,7 @@ interface EditMemberDialogProps {
  * Mobile-optimized with responsive design
  * Now includes manual family number sharing option
  */
-export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, isLoading, familySuggestions, currentMonth }: EditMemberDialogProps) {
+export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, isLoading, familySuggestions, currentMonth, scheme, collectors = [DEFAULT_COLLECTOR] }: EditMemberDialogProps) {
   // Form state management - initialized with member data when available
   const [formData, setFormData] = React.useState<NewMember>({
     full_name: '',
@@ -54,13 +56,21 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
     family: 'Individual',
     payment_status: 'pending',
     paid_to: undefined,
+    paid_at: '',
+    payment_mode: undefined,
     draw_status: 'not_drawn',
-    additional_information: ''
+    additional_information: '',
+    preferred_language: 'both',
+    messaging_preference: 'all',
+    messaging_preference_reason: ''
   })
 
   // Custom family input state
   const [customFamilyName, setCustomFamilyName] = React.useState('')
 
+  // Per-member installment amount override (empty uses the scheme amount)
+  const [installmentAmount, setInstallmentAmount] = React.useState('')
+
   // Form validation errors
   const [errors, setErrors] = React.useState<Record<string, string>>({})
 
@@ -84,9 +94,15 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
         family: member.family || 'Individual',
         payment_status: member.payment_status,
         paid_to: member.paid_to,
+        paid_at: toDateTimeLocalValue(member.paid_at),
+        payment_mode: member.payment_mode,
         draw_status: member.draw_status,
-        additional_information: member.additional_information || ''
+        additional_information: member.additional_information || '',
+        preferred_language: member.preferred_language || 'both',
+        messaging_preference: member.messaging_preference || 'all',
+        messaging_preference_reason: member.messaging_preference_reason || ''
       })
+      setInstallmentAmount(member.installment_amount?.toString() ?? '')
       setCustomFamilyName('')
       setErrors({})
     }
@@ -104,9 +120,15 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
         family: member.family || 'Individual',
         payment_status: member.payment_status,
         paid_to: member.paid_to,
+        paid_at: toDateTimeLocalValue(member.paid_at),
+        payment_mode: member.payment_mode,
         draw_status: member.draw_status,
-        additional_information: member.additional_information || ''
+        additional_information: member.additional_information || '',
+        preferred_language: member.preferred_language || 'both',
+        messaging_preference: member.messaging_preference || 'all',
+        messaging_preference_reason: member.messaging_preference_reason || ''
       })
+      setInstallmentAmount(member.installment_amount?.toString() ?? '')
       setCustomFamilyName('')
     }
   }, [member])
@@ -122,10 +144,16 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
         family: 'Individual',
         payment_status: 'pending',
         paid_to: undefined,
+        paid_at: '',
+        payment_mode: undefined,
         draw_status: 'not_drawn',
-        additional_information: ''
+        additional_information: '',
+        preferred_language: 'both',
+        messaging_preference: 'all',
+        messaging_preference_reason: ''
       })
       setCustomFamilyName('')
+      setInstallmentAmount('')
       setErrors({})
     }
   }, [open])
@@ -147,18 +175,30 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
     }
   }
 
+  /**
+   * Handle installment amount changes
+   * Kept as a string while editing, empty means the scheme amount applies
+   */
+  const handleInstallmentAmountChange = (value: string) => {
+    setInstallmentAmount(value)
+
+    if (errors.installment_amount) {
+      setErrors(prev => ({ ...prev, installment_amount: '' }))
+    }
+  }
+
   /**
    * Handle sharing family mobile number
    * Fetches the mobile number from the first family member and applies it
    */
   const handleShareFamilyNumber = async () => {
-    if (!currentMonth || !formData.family || formData.family === 'Individual' || formData.family === '__new__') {
+    if (!scheme || !currentMonth || !formData.family || formData.family === 'Individual' || formData.family === '__new__') {
       return
     }
 
     setIsLoadingFamilyNumber(true)
     try {
-      const familyMobileNumber = await DatabaseService.getFamilyMobileNumber(currentMonth as MonthTable, formData.family)
+      const familyMobileNumber = await DatabaseService.getFamilyMobileNumber(scheme, currentMonth as MonthTable, formData.family)
       if (familyMobileNumber) {
         setFormData(prev => ({ ...prev, mobile_number: familyMobileNumber }))
         // Clear any mobile number validation errors
@@ -181,7 +221,8 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
            formData.family !== 'Individual' &&
            formData.family !== '__new__' &&
            familySuggestions?.includes(formData.family) &&
-           currentMonth
+           currentMonth &&
+           scheme
   }
 
   /**
@@ -215,6 +256,14 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
       // Individual is valid, no error needed
     }
 
+    // Validate installment amount override (optional)
+    if (installmentAmount.trim()) {
+      const amount = Number(installmentAmount)
+      if (!Number.isFinite(amount) || amount <= 0) {
+        newErrors.installment_amount = 'Please enter a valid installment amount'
+      }
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -231,15 +280,36 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
 
     setIsSubmitting(true)
     try {
+      // Payment details are only sent when they were edited: winners and members who don't pay
+      // can't change them, and sending them unchanged would keep their other details from saving
+      const isPaymentEdited =
+        formData.payment_status !== member.payment_status ||
+        (formData.paid_to || null) !== (member.paid_to || null) ||
+        formData.paid_at !== toDateTimeLocalValue(member.paid_at) ||
+        (formData.payment_mode || null) !== (member.payment_mode || null)
+
       // Clean up form data before submission
       const cleanedData: Partial<NewMember> = {
         full_name: formData.full_name.trim(),
         mobile_number: formData.mobile_number.trim(),
         family: formData.family === '__new__' ? customFamilyName.trim() : (formData.family || 'Individual'),
-        payment_status: formData.payment_status,
-        paid_to: "Rafi",
+        ...(isPaymentEdited && {
+          payment_status: formData.payment_status,
+          // Paid installments default to the shop owner when no collector was picked
+          paid_to: formData.paid_to || (formData.payment_status === 'paid' ? DEFAULT_COLLECTOR.name : null),
+          // Empty payment date falls back to the time of marking paid
+          paid_at: formData.paid_at ? new Date(formData.paid_at).toISOString() : undefined,
+          payment_mode: formData.payment_mode || undefined
+        }),
         draw_status: formData.draw_status,
-        additional_information: formData.additional_information?.trim() || null
+        additional_information: formData.additional_information?.trim() || null,
+        installment_amount: installmentAmount.trim() ? Number(installmentAmount) : null,
+        preferred_language: formData.preferred_language,
+        messaging_preference: formData.messaging_preference,
+        // The reason only applies while the member is opted out of some messages
+        messaging_preference_reason: formData.messaging_preference !== 'all'
+          ? formData.messaging_preference_reason?.trim() || null
+          : null
       }
 
       await onUpdateMember(member.id, cleanedData)
@@ -403,17 +473,25 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
                 </Select>
               </div>
 
-              {/* Paid To Field (fixed to Rafi) */}
+              {/* Paid To Field */}
               <div className="space-y-2 flex-1">
                 <Label htmlFor="paid_to" className="text-sm sm:text-base">
                   Paid To
                 </Label>
-
-                <Input
-                   value="Rafi"
-                   disabled
-                   className="text-sm sm:text-base pointer-events-none bg-white dark:bg-gray-900 text-foreground opacity-100"
-                  />
+                <Select
+                  value={formData.paid_to || ''}
+                  onValueChange={(value) => handleInputChange('paid_to', value)}
+                  disabled={isWinnerStatus(member?.draw_status || 'not_drawn')}
+                >
+                  <SelectTrigger className="text-sm sm:text-base">
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {collectors.map(collector => (
+                      <SelectItem key={collector.id} value={collector.name}>{collector.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
 
 
@@ -442,6 +520,118 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
             )}
           </div>
 
+          {/* Payment Date and Mode - only for paid installments */}
+          {formData.payment_status === 'paid' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="paid_at" className="text-sm sm:text-base">
+                  Paid On
+                </Label>
+                <Input
+                  id="paid_at"
+                  type="datetime-local"
+                  value={formData.paid_at || ''}
+                  onChange={(e) => handleInputChange('paid_at', e.target.value)}
+                  className="text-sm sm:text-base"
+                />
+                <p className="text-xs text-muted-foreground">Leave empty to use the current time</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="payment_mode" className="text-sm sm:text-base">
+                  Payment Mode
+                </Label>
+                <Select
+                  value={formData.payment_mode || 'cash'}
+                  onValueChange={(value) => handleInputChange('payment_mode', value as PaymentMode)}
+                >
+                  <SelectTrigger className="text-sm sm:text-base">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{PAYMENT_MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {/* Installment Amount Field - leave empty to use the scheme amount */}
+          <div className="space-y-2">
+            <Label htmlFor="installment_amount" className="text-sm sm:text-base">
+              Installment Amount (₹)
+            </Label>
+            <Input
+              id="installment_amount"
+              type="number"
+              min={1}
+              value={installmentAmount}
+              onChange={(e) => handleInstallmentAmountChange(e.target.value)}
+              placeholder={scheme ? `${scheme.installment_amount} (scheme amount)` : 'Scheme amount'}
+              className={`${errors.installment_amount ? "border-destructive" : ""} text-sm sm:text-base`}
+            />
+            {errors.installment_amount && (
+              <p className="text-xs sm:text-sm text-destructive">{errors.installment_amount}</p>
+            )}
+          </div>
+
+          {/* Message Language Field */}
+          <div className="space-y-2">
+            <Label htmlFor="preferred_language" className="text-sm sm:text-base">
+              Message Language
+            </Label>
+            <Select
+              value={formData.preferred_language}
+              onValueChange={(value) => handleInputChange('preferred_language', value as MessageLanguage)}
+            >
+              <SelectTrigger id="preferred_language" className="text-sm sm:text-base">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MESSAGE_LANGUAGE_LABELS) as MessageLanguage[]).map(language => (
+                  <SelectItem key={language} value={language}>{MESSAGE_LANGUAGE_LABELS[language]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Messaging Preference Field */}
+          <div className="space-y-2">
+            <Label htmlFor="messaging_preference" className="text-sm sm:text-base">
+              WhatsApp Messages
+            </Label>
+            <Select
+              value={formData.messaging_preference}
+              onValueChange={(value) => handleInputChange('messaging_preference', value as MessagingPreference)}
+            >
+              <SelectTrigger id="messaging_preference" className="text-sm sm:text-base">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MESSAGING_PREFERENCE_LABELS) as MessagingPreference[]).map(preference => (
+                  <SelectItem key={preference} value={preference}>{MESSAGING_PREFERENCE_LABELS[preference]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {formData.messaging_preference !== 'all' && (
+              <Input
+                id="messaging_preference_reason"
+                value={formData.messaging_preference_reason || ''}
+                onChange={(e) => handleInputChange('messaging_preference_reason', e.target.value)}
+                placeholder="Reason, e.g. asked not to be messaged"
+                className="text-sm sm:text-base"
+              />
+            )}
+            {member.messaging_preference !== 'all' && member.messaging_preference_at && (
+              <p className="text-xs text-muted-foreground">
+                Opted out on {new Date(member.messaging_preference_at).toLocaleDateString('en-IN')}
+                {member.messaging_preference_reason && `: ${member.messaging_preference_reason}`}
+              </p>
+            )}
+          </div>
+
           {/* Additional Information Field */}
           <div className="space-y-2">
             <Label htmlFor="additional_information" className="text-sm sm:text-base">
@@ -482,12 +672,13 @@ export function EditMemberDialog({ open, onOpenChange, onUpdateMember, member, i
     </Dialog>
 
     {/* Receipt Dialog - Opens when receipt button is clicked */}
-    {currentMonth && (
+    {currentMonth && scheme && (
       <ReceiptDialog
         open={isReceiptDialogOpen}
         onOpenChange={setIsReceiptDialogOpen}
         member={member}
         currentMonth={currentMonth as MonthTable}
+        scheme={scheme}
       />
     )}
     </>
@@ -0,0 +1,183 @@
+'use client'
+
+import * as React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { InboxService, InboundMessage, InboxSender, INBOX_KEYWORDS } from "@/lib/inbox"
+import { Check, Inbox, Loader2, RotateCcw } from "lucide-react"
+
+/**
+ * Props for the InboxDialog component
+ */
+interface InboxDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onInboxChange?: () => void // Lets the dashboard refresh its open count
+}
+
+/**
+ * Inbox Dialog Component
+ * Shows the WhatsApp messages members sent that were not answered automatically
+ * Handled messages and automatic replies can be shown as well
+ */
+export function InboxDialog({ open, onOpenChange, onInboxChange }: InboxDialogProps) {
+  // Messages and the members they came from
+  const [messages, setMessages] = React.useState<InboundMessage[]>([])
+  const [senders, setSenders] = React.useState<Record<number, InboxSender>>({})
+  const [showHandled, setShowHandled] = React.useState(false)
+
+  // Loading and error states
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [updatingId, setUpdatingId] = React.useState<number | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  /**
+   * Load the inbox with the names of the senders
+   */
+  const loadMessages = React.useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const loadedMessages = await InboxService.getMessages(showHandled)
+      setMessages(loadedMessages)
+      setSenders(await InboxService.getSenders(loadedMessages))
+    } catch (err) {
+      console.error('Error loading inbox:', err)
+      setError('Failed to load the inbox. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [showHandled])
+
+  /**
+   * Load messages when dialog opens
+   */
+  React.useEffect(() => {
+    if (open) {
+      loadMessages()
+    }
+  }, [open, loadMessages])
+
+  /**
+   * Handle marking a message as handled or opening it again
+   */
+  const handleToggleDone = async (message: InboundMessage) => {
+    setUpdatingId(message.id)
+    try {
+      setError(null)
+      await InboxService.setDone(message.id, message.status === 'open')
+      await loadMessages()
+      onInboxChange?.()
+    } catch (err) {
+      console.error('Error updating inbox message:', err)
+      setError('Failed to update the message. Please try again.')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Inbox
+          </DialogTitle>
+          <DialogDescription>
+            WhatsApp messages from members. {Object.keys(INBOX_KEYWORDS).map(keyword => keyword.toUpperCase()).join(', ')} are answered automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowHandled(prev => !prev)}
+          className="w-fit"
+        >
+          {showHandled ? 'Show open only' : 'Show handled and automatic replies'}
+        </Button>
+
+        {/* Error Alert */}
+        {error && (
+          <div className="bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading inbox...
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            {showHandled ? 'No messages received yet' : 'No open messages'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {messages.map(message => {
+              const names = message.member_ids.map(id => senders[id]?.full_name).filter(Boolean)
+
+              return (
+                <div key={message.id} className={`rounded-md border p-3 text-sm ${message.status === 'open' ? '' : 'opacity-75'}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{names.length > 0 ? names.join(', ') : 'Unknown number'}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {message.from_number} • {new Date(message.received_at).toLocaleString('en-IN')}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {message.keyword && (
+                        <Badge variant="outline" className="text-xs uppercase">{message.keyword}</Badge>
+                      )}
+                      {message.status === 'auto_replied' ? (
+                        <Badge variant="secondary" className="text-xs">Answered</Badge>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleToggleDone(message)}
+                          disabled={updatingId === message.id}
+                          className="h-7 text-xs"
+                        >
+                          {message.status === 'open' ? (
+                            <>
+                              <Check className="h-3 w-3 mr-1" />
+                              Done
+                            </>
+                          ) : (
+                            <>
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Reopen
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="mt-2 whitespace-pre-wrap break-words">{message.body}</p>
+                  {message.reply && (
+                    <pre className="mt-2 whitespace-pre-wrap break-words rounded bg-muted p-2 font-sans text-xs">
+                      {message.status === 'auto_replied' ? 'Replied: ' : 'Reply could not be sent: '}
+                      {message.reply}
+                    </pre>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
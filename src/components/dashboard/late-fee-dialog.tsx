@@ -0,0 +1,230 @@
+'use client'
+
+import * as React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { LateFeeType, NewScheme, Scheme, LATE_FEE_TYPE_LABELS, formatAmount } from "@/lib/supabase"
+import { PAYMENT_DEADLINE_DAY } from "@/lib/scheme-calendar"
+import { formatOrdinalDay } from "@/lib/utils"
+
+/**
+ * Props for the LateFeeDialog component
+ */
+interface LateFeeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  scheme: Scheme
+  onSave: (updates: Partial<NewScheme>) => Promise<void>
+}
+
+/**
+ * Form values of the scheme's current rule (kept as strings while editing)
+ */
+const getFormData = (scheme: Scheme) => ({
+  late_fee_type: scheme.late_fee_type,
+  late_fee_amount: scheme.late_fee_amount ? String(scheme.late_fee_amount) : '',
+  late_fee_cap: scheme.late_fee_cap !== null ? String(scheme.late_fee_cap) : ''
+})
+
+/**
+ * Late Fee Dialog Component
+ * Sets the penalty that overdue members of a scheme owe on top of their installment
+ */
+export function LateFeeDialog({ open, onOpenChange, scheme, onSave }: LateFeeDialogProps) {
+  // Form state management
+  const [formData, setFormData] = React.useState(() => getFormData(scheme))
+
+  // Form validation errors
+  const [errors, setErrors] = React.useState<Record<string, string>>({})
+
+  // Loading state for form submission
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  /**
+   * Start from the scheme's saved rule whenever the dialog opens
+   */
+  React.useEffect(() => {
+    if (open) {
+      setFormData(getFormData(scheme))
+      setErrors({})
+    }
+  }, [open, scheme])
+
+  /**
+   * Handle input field changes
+   */
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  /**
+   * Validate form data before submission
+   */
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {}
+
+    if (formData.late_fee_type !== 'none') {
+      const amount = Number(formData.late_fee_amount)
+      if (!formData.late_fee_amount.trim() || !Number.isFinite(amount) || amount <= 0) {
+        newErrors.late_fee_amount = 'Please enter a valid fee'
+      }
+
+      const cap = Number(formData.late_fee_cap)
+      if (formData.late_fee_cap.trim() && (!Number.isFinite(cap) || cap <= 0)) {
+        newErrors.late_fee_cap = 'Please enter a valid maximum or leave it empty'
+      }
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    const isCharged = formData.late_fee_type !== 'none'
+
+    setIsSubmitting(true)
+    try {
+      await onSave({
+        late_fee_type: formData.late_fee_type,
+        late_fee_amount: isCharged ? Number(formData.late_fee_amount) : 0,
+        late_fee_cap: isCharged && formData.late_fee_cap.trim() ? Number(formData.late_fee_cap) : null
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error saving late fee:', error)
+      // Error handling is done in the parent component
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Example of the rule for a member who pays five days late
+  const exampleFee = (() => {
+    const amount = Number(formData.late_fee_amount) || 0
+    const fee = formData.late_fee_type === 'per_day' ? amount * 5 : amount
+    const cap = Number(formData.late_fee_cap)
+    return formData.late_fee_cap.trim() && cap > 0 ? Math.min(fee, cap) : fee
+  })()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-[425px] max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="text-lg sm:text-xl">Late Fee</DialogTitle>
+          <DialogDescription className="text-sm sm:text-base">
+            Charged to members of {scheme.name} who pay after the {formatOrdinalDay(PAYMENT_DEADLINE_DAY)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Rule Type Field */}
+          <div className="space-y-2">
+            <Label htmlFor="late_fee_type" className="text-sm sm:text-base">
+              Rule
+            </Label>
+            <Select
+              value={formData.late_fee_type}
+              onValueChange={(value) => handleInputChange('late_fee_type', value as LateFeeType)}
+            >
+              <SelectTrigger id="late_fee_type" className="text-sm sm:text-base">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LATE_FEE_TYPE_LABELS) as LateFeeType[]).map(type => (
+                  <SelectItem key={type} value={type}>{LATE_FEE_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {formData.late_fee_type !== 'none' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {/* Fee Field */}
+              <div className="space-y-2">
+                <Label htmlFor="late_fee_amount" className="text-sm sm:text-base">
+                  {formData.late_fee_type === 'per_day' ? 'Fee per Day (₹) *' : 'Fee (₹) *'}
+                </Label>
+                <Input
+                  id="late_fee_amount"
+                  type="number"
+                  min={1}
+                  value={formData.late_fee_amount}
+                  onChange={(e) => handleInputChange('late_fee_amount', e.target.value)}
+                  placeholder={formData.late_fee_type === 'per_day' ? '10' : '50'}
+                  className={`${errors.late_fee_amount ? "border-destructive" : ""} text-sm sm:text-base`}
+                />
+                {errors.late_fee_amount && (
+                  <p className="text-xs sm:text-sm text-destructive">{errors.late_fee_amount}</p>
+                )}
+              </div>
+
+              {/* Cap Field */}
+              <div className="space-y-2">
+                <Label htmlFor="late_fee_cap" className="text-sm sm:text-base">
+                  Maximum (₹)
+                </Label>
+                <Input
+                  id="late_fee_cap"
+                  type="number"
+                  min={1}
+                  value={formData.late_fee_cap}
+                  onChange={(e) => handleInputChange('late_fee_cap', e.target.value)}
+                  placeholder="No limit"
+                  className={`${errors.late_fee_cap ? "border-destructive" : ""} text-sm sm:text-base`}
+                />
+                {errors.late_fee_cap && (
+                  <p className="text-xs sm:text-sm text-destructive">{errors.late_fee_cap}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {formData.late_fee_type !== 'none' && exampleFee > 0 && (
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              A member who pays 5 days late owes {formatAmount(exampleFee)} extra.
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -10,34 +10,41 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Badge } from "@/components/ui/badge"
-import { Member, MonthTable, formatMonthName, MONTHS, isWinnerStatus, isWinnerOfMonth } from "@/lib/supabase"
+import { Member, MessageLogEntry, MonthTable, Scheme, PAYMENT_MODE_LABELS, formatMonthName, getSchemeMonths, isWinnerStatus, isWinnerOfMonth } from "@/lib/supabase"
 import { formatTokenDisplay } from "@/lib/utils"
 import { DatabaseService } from "@/lib/database"
-import { History, User, Trophy, Clock, CheckCircle, XCircle } from "lucide-react"
+import { getCurrentSchemeMonth } from "@/lib/scheme-calendar"
+import { MessageLogList } from "./message-log-list"
+import { History, User, Trophy, Clock, CheckCircle, XCircle, MessageSquare } from "lucide-react"
 
 interface MemberHistoryDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   member: Member | null
+  scheme: Scheme
 }
 
 /**
  * Dialog component showing member's history across all months
  * Displays a visual trail of member status through each month
  * Shows payment status, draw status, and other relevant information
+ * A second tab lists every WhatsApp message sent to the member
  */
 export function MemberHistoryDialog({
   open,
   onOpenChange,
-  member
+  member,
+  scheme
 }: MemberHistoryDialogProps) {
   // Member history data state
   const [memberHistory, setMemberHistory] = React.useState<Record<MonthTable, Member | null>>({} as Record<MonthTable, Member | null>)
+  const [messages, setMessages] = React.useState<MessageLogEntry[]>([])
+  const [activeTab, setActiveTab] = React.useState<'history' | 'messages'>('history')
   const [isLoading, setIsLoading] = React.useState(false)
   const [error, setError] = React.useState<string | null>(null)
 
   /**
-   * Fetch member history across all months
+   * Fetch member history across all months and the messages sent to the member
    */
   const loadMemberHistory = React.useCallback(async () => {
     if (!member) return
@@ -46,21 +53,26 @@ export function MemberHistoryDialog({
       setIsLoading(true)
       setError(null)
 
-      const history = await DatabaseService.getMemberHistory(member.full_name, member.mobile_number)
+      const [history, memberMessages] = await Promise.all([
+        DatabaseService.getMemberHistory(scheme, member.id),
+        DatabaseService.getMemberMessages(scheme, member.id)
+      ])
       setMemberHistory(history)
+      setMessages(memberMessages)
     } catch (err) {
       console.error('Error loading member history:', err)
       setError('Failed to load member history')
     } finally {
       setIsLoading(false)
     }
-  }, [member])
+  }, [member, scheme])
 
   /**
    * Load member history when dialog opens
    */
   React.useEffect(() => {
     if (open && member) {
+      setActiveTab('history')
       loadMemberHistory()
     }
   }, [open, member, loadMemberHistory])
@@ -146,6 +158,10 @@ export function MemberHistoryDialog({
     return 'bg-blue-100 dark:bg-blue-900 border-blue-300 dark:border-blue-600 text-gray-900 dark:text-blue-100'
   }
 
+  // Months of the scheme calendar and the one matching today's date, highlighted in the trail
+  const schemeMonths = getSchemeMonths(scheme)
+  const currentSchemeMonth = getCurrentSchemeMonth(schemeMonths)
+
   if (!member) return null
 
   return (
@@ -172,6 +188,26 @@ export function MemberHistoryDialog({
           </div>
         </div>
 
+        {/* Tabs */}
+        <div className="flex gap-2">
+          <Button
+            variant={activeTab === 'history' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setActiveTab('history')}
+          >
+            <History className="h-4 w-4 mr-1" />
+            History
+          </Button>
+          <Button
+            variant={activeTab === 'messages' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setActiveTab('messages')}
+          >
+            <MessageSquare className="h-4 w-4 mr-1" />
+            Messages ({messages.length})
+          </Button>
+        </div>
+
         {/* Loading state */}
         {isLoading && (
           <div className="text-center py-8 text-muted-foreground">
@@ -186,15 +222,20 @@ export function MemberHistoryDialog({
           </div>
         )}
 
+        {/* Messages sent to the member */}
+        {!isLoading && !error && activeTab === 'messages' && (
+          <MessageLogList entries={messages} />
+        )}
+
         {/* History timeline */}
-        {!isLoading && !error && (
+        {!isLoading && !error && activeTab === 'history' && (
           <div className="space-y-3">
             <h3 className="font-medium text-sm text-muted-foreground">Month-by-Month Trail</h3>
 
             <div className="space-y-2">
-              {MONTHS.map((month, index) => {
+              {schemeMonths.map((month, index) => {
                 const monthMember = memberHistory[month]
-                const isCurrentMonth = index === 0 // Assuming September is current
+                const isCurrentMonth = month === currentSchemeMonth
 
                 return (
                   <div
@@ -206,7 +247,7 @@ export function MemberHistoryDialog({
                     {/* Month indicator with connecting line */}
                     <div className="flex flex-col items-center">
                       {getStatusIcon(monthMember, month)}
-                      {index < MONTHS.length - 1 && (
+                      {index < schemeMonths.length - 1 && (
                         <div className="w-px h-4 bg-gray-300 dark:bg-gray-500 mt-1" />
                       )}
                     </div>
@@ -232,6 +273,12 @@ export function MemberHistoryDialog({
                               Paid to {monthMember.paid_to}
                             </Badge>
                           )}
+                          {monthMember.paid_at && (
+                            <Badge variant="secondary" className="text-xs">
+                              Paid on {new Date(monthMember.paid_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                              {monthMember.payment_mode && ` • ${PAYMENT_MODE_LABELS[monthMember.payment_mode]}`}
+                            </Badge>
+                          )}
                         </div>
                       )}
                     </div>
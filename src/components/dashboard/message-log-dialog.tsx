@@ -0,0 +1,144 @@
+'use client'
+
+import * as React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MessageLogEntry, MessageTemplate, MonthTable, Scheme, MESSAGE_TEMPLATE_LABELS, formatMonthName } from "@/lib/supabase"
+import { DatabaseService } from "@/lib/database"
+import { MessageLogList } from "./message-log-list"
+import { MessageSquare, Loader2, Search } from "lucide-react"
+
+/**
+ * Props for the MessageLogDialog component
+ */
+interface MessageLogDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  scheme: Scheme
+  currentMonth: MonthTable
+}
+
+/**
+ * Message Log Dialog Component
+ * Every WhatsApp message sent for the month, filterable by template, result and recipient
+ */
+export function MessageLogDialog({ open, onOpenChange, scheme, currentMonth }: MessageLogDialogProps) {
+  // Log entries of the month
+  const [entries, setEntries] = React.useState<MessageLogEntry[]>([])
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Filters
+  const [templateFilter, setTemplateFilter] = React.useState<MessageTemplate | 'all'>('all')
+  const [resultFilter, setResultFilter] = React.useState<'all' | 'sent' | 'failed'>('all')
+  const [searchQuery, setSearchQuery] = React.useState('')
+
+  /**
+   * Load the log when the dialog opens
+   */
+  React.useEffect(() => {
+    if (!open) return
+
+    setIsLoading(true)
+    setError(null)
+    DatabaseService.getMessageLog(scheme, currentMonth)
+      .then(setEntries)
+      .catch(err => {
+        console.error('Error loading message log:', err)
+        setError('Failed to load the message log. Please try again.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [open, scheme, currentMonth])
+
+  // Entries matching the filters
+  const filteredEntries = React.useMemo(() => {
+    const query = searchQuery.toLowerCase().trim()
+
+    return entries.filter(entry =>
+      (templateFilter === 'all' || entry.template === templateFilter) &&
+      (resultFilter === 'all' || entry.success === (resultFilter === 'sent')) &&
+      (!query ||
+        (entry.recipient_name || '').toLowerCase().includes(query) ||
+        entry.recipient_number.includes(query))
+    )
+  }, [entries, templateFilter, resultFilter, searchQuery])
+
+  const failedCount = entries.filter(entry => !entry.success).length
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Messages - {formatMonthName(currentMonth)}
+          </DialogTitle>
+          <DialogDescription>
+            {entries.length} message{entries.length !== 1 ? 's' : ''} sent for this month
+            {failedCount > 0 && `, ${failedCount} failed`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Name or number"
+              className="pl-9 text-sm"
+            />
+          </div>
+          <Select value={templateFilter} onValueChange={(value) => setTemplateFilter(value as MessageTemplate | 'all')}>
+            <SelectTrigger className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All messages</SelectItem>
+              {(Object.keys(MESSAGE_TEMPLATE_LABELS) as MessageTemplate[]).map(template => (
+                <SelectItem key={template} value={template}>{MESSAGE_TEMPLATE_LABELS[template]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={resultFilter} onValueChange={(value) => setResultFilter(value as 'all' | 'sent' | 'failed')}>
+            <SelectTrigger className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Sent and failed</SelectItem>
+              <SelectItem value="sent">Sent</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading messages...
+          </div>
+        ) : (
+          <MessageLogList
+            entries={filteredEntries}
+            showRecipient
+            emptyText={entries.length === 0 ? 'No messages sent for this month' : 'No messages match the filters'}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
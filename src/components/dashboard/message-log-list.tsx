@@ -0,0 +1,59 @@
+'use client'
+
+import * as React from "react"
+import { Badge } from "@/components/ui/badge"
+import { MessageLogEntry, DELIVERY_STATUS_LABELS, MESSAGE_TEMPLATE_LABELS, formatMonthName } from "@/lib/supabase"
+
+/**
+ * Props for the MessageLogList component
+ */
+interface MessageLogListProps {
+  entries: MessageLogEntry[]
+  showRecipient?: boolean // Shown in the month log, hidden in a member's own history
+  emptyText?: string
+}
+
+/**
+ * Message Log List Component
+ * Lists WhatsApp send attempts with their result and delivery status; the sent text expands on click
+ */
+export function MessageLogList({ entries, showRecipient = false, emptyText = 'No messages sent yet' }: MessageLogListProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">{emptyText}</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map(entry => (
+        <details key={entry.id} className="rounded-md border p-3 text-sm">
+          <summary className="flex cursor-pointer list-none items-center justify-between gap-2">
+            <div className="min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className="text-xs">{MESSAGE_TEMPLATE_LABELS[entry.template]}</Badge>
+                {showRecipient && (
+                  <span className="font-medium truncate">{entry.recipient_name || entry.recipient_number}</span>
+                )}
+              </div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {new Date(entry.created_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                {entry.month && ` • ${formatMonthName(entry.month)}`}
+                {entry.message_id && ` • ${entry.message_id}`}
+              </div>
+            </div>
+            {entry.success && entry.delivery_status !== 'failed' ? (
+              <Badge className="bg-green-600 text-xs">{DELIVERY_STATUS_LABELS[entry.delivery_status ?? 'sent']}</Badge>
+            ) : entry.success ? (
+              <Badge variant="destructive" className="text-xs">{DELIVERY_STATUS_LABELS.failed}</Badge>
+            ) : (
+              <Badge variant="destructive" className="text-xs">Failed</Badge>
+            )}
+          </summary>
+          {entry.error && (
+            <p className="mt-2 text-xs text-destructive">{entry.error}</p>
+          )}
+          <pre className="mt-2 whitespace-pre-wrap break-words rounded bg-muted p-2 font-sans text-xs">{entry.body}</pre>
+        </details>
+      ))}
+    </div>
+  )
+}
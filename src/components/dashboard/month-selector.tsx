@@ -8,12 +8,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
-import { MONTHS, MonthTable, formatMonthName } from "@/lib/supabase"
+import { MonthTable, formatMonthName } from "@/lib/supabase"
 
 /**
  * Props for the MonthSelector component
  */
 interface MonthSelectorProps {
+  months: readonly MonthTable[] // Months of the selected scheme's calendar
   selectedMonth: MonthTable
   onMonthChange: (month: MonthTable) => void
   className?: string
@@ -25,7 +26,7 @@ interface MonthSelectorProps {
  * Uses Shadcn Select component for professional styling
  * Mobile-first responsive design with full width on mobile
  */
-export function MonthSelector({ selectedMonth, onMonthChange, className }: MonthSelectorProps) {
+export function MonthSelector({ months, selectedMonth, onMonthChange, className }: MonthSelectorProps) {
   return (
     <div className={className}>
       <Select value={selectedMonth} onValueChange={onMonthChange}>
@@ -33,7 +34,7 @@ export function MonthSelector({ selectedMonth, onMonthChange, className }: Month
           <SelectValue placeholder="Select a month" />
         </SelectTrigger>
         <SelectContent>
-          {MONTHS.map((month) => (
+          {months.map((month) => (
             <SelectItem key={month} value={month}>
               {formatMonthName(month)}
             </SelectItem>
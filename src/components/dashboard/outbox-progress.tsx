@@ -0,0 +1,193 @@
+'use client'
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { OutboxService, OutboxProgress as OutboxProgressData } from "@/lib/outbox"
+import { Loader2, Send, X, RotateCcw, CheckCircle } from "lucide-react"
+
+/**
+ * Props for the OutboxProgress component
+ */
+interface OutboxProgressProps {
+  batchId: number
+  runWorker?: boolean // Sends the queued messages from this tab; otherwise only follows the progress
+  onDismiss?: () => void
+}
+
+/**
+ * How often the batch progress is refreshed
+ */
+const POLL_INTERVAL_MS = 2000
+
+/**
+ * Outbox Progress Component
+ * Live progress of a queued bulk send with cancel and resume
+ * The card that runs the worker keeps sending while it is mounted, and restarts when messages are queued again
+ */
+export function OutboxProgress({ batchId, runWorker = false, onDismiss }: OutboxProgressProps) {
+  // Latest progress of the batch
+  const [progress, setProgress] = React.useState<OutboxProgressData | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Running worker of this card
+  const workerRef = React.useRef<AbortController | null>(null)
+
+  /**
+   * Refresh the progress of the batch
+   */
+  const refresh = React.useCallback(async () => {
+    try {
+      setProgress(await OutboxService.getBatchProgress(batchId))
+    } catch (err) {
+      console.error('Error loading outbox progress:', err)
+      setError('Failed to load message progress')
+    }
+  }, [batchId])
+
+  /**
+   * Poll the progress while mounted
+   */
+  React.useEffect(() => {
+    refresh()
+    const interval = setInterval(refresh, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [refresh])
+
+  /**
+   * Start the worker whenever this card runs it and messages are waiting
+   */
+  const pending = (progress?.counts.queued ?? 0) + (progress?.counts.sending ?? 0)
+
+  React.useEffect(() => {
+    if (!runWorker || pending === 0 || workerRef.current) return
+
+    const controller = new AbortController()
+    workerRef.current = controller
+
+    OutboxService.drain({ batchId, signal: controller.signal, onProgress: refresh })
+      .catch(err => {
+        console.error('Error sending outbox messages:', err)
+        setError(err instanceof Error ? err.message : 'Failed to send messages')
+      })
+      .finally(() => {
+        workerRef.current = null
+        refresh()
+      })
+  }, [runWorker, pending, batchId, refresh])
+
+  /**
+   * Stop the worker when the card goes away
+   */
+  React.useEffect(() => {
+    return () => workerRef.current?.abort()
+  }, [])
+
+  /**
+   * Handle cancelling the messages not sent yet
+   */
+  const handleCancel = async () => {
+    try {
+      setError(null)
+      await OutboxService.cancelBatch(batchId)
+      await refresh()
+    } catch (err) {
+      console.error('Error cancelling messages:', err)
+      setError('Failed to cancel messages')
+    }
+  }
+
+  /**
+   * Handle queueing the failed and cancelled messages again
+   */
+  const handleResume = async () => {
+    try {
+      setError(null)
+      await OutboxService.resumeBatch(batchId)
+      await refresh()
+    } catch (err) {
+      console.error('Error resuming messages:', err)
+      setError('Failed to resume messages')
+    }
+  }
+
+  if (!progress) {
+    return null
+  }
+
+  const { counts, total } = progress
+  const done = counts.sent + counts.failed + counts.cancelled + counts.skipped
+  const isActive = pending > 0
+  const canResume = !isActive && (counts.failed > 0 || counts.cancelled > 0)
+
+  return (
+    <Card>
+      <CardContent className="space-y-2 p-3 sm:p-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            {isActive ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : counts.failed === 0 && counts.cancelled === 0 ? (
+              <CheckCircle className="h-4 w-4 text-green-600" />
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+            {progress.batch.label}
+          </div>
+          <div className="flex items-center gap-1">
+            {isActive && (
+              <Button variant="outline" size="sm" onClick={handleCancel} className="h-7 text-xs">
+                Cancel
+              </Button>
+            )}
+            {canResume && (
+              <Button variant="outline" size="sm" onClick={handleResume} className="h-7 text-xs">
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Resume
+              </Button>
+            )}
+            {!isActive && onDismiss && (
+              <Button variant="ghost" size="icon" onClick={onDismiss} className="h-7 w-7" title="Dismiss">
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Progress Bar */}
+        <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full bg-green-500 transition-all"
+            style={{ width: `${total > 0 ? (done / total) * 100 : 0}%` }}
+          />
+        </div>
+
+        <div className="text-xs text-muted-foreground">
+          {counts.sent}/{total} sent
+          {counts.failed > 0 && <span className="text-destructive"> • {counts.failed} failed</span>}
+          {counts.cancelled > 0 && ` • ${counts.cancelled} cancelled`}
+          {counts.skipped > 0 && ` • ${counts.skipped} skipped (opted out)`}
+          {progress.current && ` • Sending to ${progress.current}`}
+        </div>
+
+        {progress.errors.length > 0 && !isActive && (
+          <div className="text-xs text-destructive">
+            {progress.errors.slice(0, 5).map(e => `${e.recipientName}: ${e.error}`).join(' • ')}
+            {progress.errors.length > 5 && ` • and ${progress.errors.length - 5} more`}
+          </div>
+        )}
+
+        {progress.skipped.length > 0 && !isActive && (
+          <div className="text-xs text-muted-foreground">
+            Opted out: {progress.skipped.slice(0, 5).join(', ')}
+            {progress.skipped.length > 5 && ` and ${progress.skipped.length - 5} more`}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-xs text-destructive">{error}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
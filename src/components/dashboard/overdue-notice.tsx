@@ -0,0 +1,49 @@
+'use client'
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { ScheduleRun } from "@/lib/scheduler"
+import { Clock } from "lucide-react"
+
+/**
+ * Props for the OverdueNotice component
+ */
+interface OverdueNoticeProps {
+  transition: ScheduleRun // Latest run that marked pending payments overdue
+  overdueCount: number // Members of the month that are still overdue
+  onView?: () => void // Opens the unpaid members list
+}
+
+/**
+ * Overdue Notice Component
+ * Tells the admin that pending payments were moved to overdue and how many are still unpaid
+ */
+export function OverdueNotice({ transition, overdueCount, onView }: OverdueNoticeProps) {
+  const markedOn = new Date(transition.created_at).toLocaleDateString('en-IN', {
+    day: 'numeric',
+    month: 'short'
+  })
+
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-md border border-red-200 bg-red-50 dark:bg-red-950 px-3 py-2 text-sm sm:px-4 sm:py-3">
+      <div className="flex items-start gap-2 min-w-0">
+        <Clock className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+        <div>
+          <div className="font-medium text-red-700 dark:text-red-300">
+            {transition.marked_count} pending payment{transition.marked_count !== 1 ? 's were' : ' was'} marked overdue on {markedOn}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {overdueCount > 0
+              ? `${overdueCount} member${overdueCount !== 1 ? 's are' : ' is'} still overdue`
+              : 'All overdue payments have been collected'}
+          </div>
+        </div>
+      </div>
+      {onView && overdueCount > 0 && (
+        <Button variant="outline" size="sm" onClick={onView} className="h-7 text-xs shrink-0">
+          View
+        </Button>
+      )}
+    </div>
+  )
+}
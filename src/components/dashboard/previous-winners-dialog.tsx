@@ -10,7 +10,7 @@ import {
 } from "@/components/ui/dialog"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Member, MonthTable, formatMonthName, MONTHS } from "@/lib/supabase"
+import { Member, MonthTable, Scheme, formatMonthName, getSchemeMonths } from "@/lib/supabase"
 import { formatTokenDisplay } from "@/lib/utils"
 import { DatabaseService } from "@/lib/database"
 import { Trophy, Calendar, User, Hash } from "lucide-react"
@@ -21,6 +21,7 @@ import { Trophy, Calendar, User, Hash } from "lucide-react"
 interface PreviousWinnersDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
+  scheme: Scheme
 }
 
 /**
@@ -28,7 +29,7 @@ interface PreviousWinnersDialogProps {
  * Displays all previous winners from all months with their respective months
  * Replaces the summary section with comprehensive winner history
  */
-export function PreviousWinnersDialog({ open, onOpenChange }: PreviousWinnersDialogProps) {
+export function PreviousWinnersDialog({ open, onOpenChange, scheme }: PreviousWinnersDialogProps) {
   // State for storing all previous winners
   const [previousWinners, setPreviousWinners] = React.useState<Array<{
     member: Member
@@ -44,55 +45,34 @@ export function PreviousWinnersDialog({ open, onOpenChange }: PreviousWinnersDia
 
   /**
    * Load all previous winners from all months
-   * Fetches winners from each month table and compiles the list
+   * Fetches the winners of the whole scheme and orders them by month
    */
   const loadPreviousWinners = React.useCallback(async () => {
     try {
       setIsLoading(true)
       setError(null)
 
-      const winners: Array<{
-        member: Member
-        month: MonthTable
-        monthName: string
-      }> = []
-
-      // Only check months that are likely to exist to avoid 406 errors
-      // For now, only check the first few months that we know exist
-      const monthsToCheck = ['september_2025', 'october_2025', 'november_2025'] as MonthTable[]
-
-      // Iterate through existing months to find winners
-      for (const month of monthsToCheck) {
-        try {
-          const winner = await DatabaseService.getCurrentWinner(month)
-          if (winner) {
-            winners.push({
-              member: winner,
-              month: month,
-              monthName: formatMonthName(month)
-            })
-          }
-        } catch (err) {
-          // Skip months that don't exist or have errors
-          console.warn(`Error loading winner from ${month}:`, err)
-        }
-      }
-
-      // Sort winners by month order (chronological)
-      const sortedWinners = winners.sort((a, b) => {
-        const monthAIndex = MONTHS.indexOf(a.month)
-        const monthBIndex = MONTHS.indexOf(b.month)
-        return monthAIndex - monthBIndex
-      })
-
-      setPreviousWinners(sortedWinners)
+      // Single query for every winner installment of the scheme
+      const schemeMonths = getSchemeMonths(scheme)
+      const winnersByMonth = await DatabaseService.getAllWinners(scheme)
+
+      // Walk the calendar so winners stay in chronological order
+      const winners = schemeMonths
+        .filter(month => winnersByMonth[month])
+        .map(month => ({
+          member: winnersByMonth[month] as Member,
+          month,
+          monthName: formatMonthName(month)
+        }))
+
+      setPreviousWinners(winners)
     } catch (err) {
       console.error('Error loading previous winners:', err)
       setError('Failed to load previous winners. Please try again.')
     } finally {
       setIsLoading(false)
     }
-  }, [])
+  }, [scheme])
 
   /**
    * Load winners when dialog opens
@@ -1,14 +1,17 @@
 'use client'
 
 import * as React from "react"
+import Image from "next/image"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 
 import { Badge } from "@/components/ui/badge"
-import { User, Phone, Hash, Users, Calendar, CreditCard, MessageSquare, Printer, IndianRupee } from "lucide-react"
-import { Member, MonthTable, formatMonthName } from "@/lib/supabase"
+import { User, Phone, Hash, Users, Calendar, CreditCard, MessageSquare, Printer, IndianRupee, Download, Loader2, FileText } from "lucide-react"
+import { Member, MonthTable, Receipt, Scheme, formatMonthName, formatAmount, getInstallmentAmount, getOutstandingBalance, getAdvanceAmount, getLateFee, getDaysLate, formatPaymentDate, PAYMENT_MODE_LABELS } from "@/lib/supabase"
 import { formatPhoneNumber, formatTokenDisplay } from "@/lib/utils"
 import { sendWhatsAppMessage, generateReceiptMessage } from "@/lib/whatsapp"
+import { generateVerifiedReceiptPdf, getReceiptQrCode } from "@/lib/receipt-pdf"
+import { DatabaseService } from "@/lib/database"
 
 /**
  * Props for the ReceiptDialog component
@@ -18,42 +21,86 @@ interface ReceiptDialogProps {
   onOpenChange: (open: boolean) => void
   member: Member | null
   currentMonth: MonthTable
+  scheme: Scheme // Scheme the receipt is issued for (name and installment amount)
 }
 
 /**
  * Receipt Dialog Component
  * Displays a professional receipt showing customer details and payment information
- * Includes options to print the receipt and send via WhatsApp
+ * Includes options to print the receipt, download it as a PDF and send the PDF via WhatsApp
  */
 export function ReceiptDialog({
   open,
   onOpenChange,
   member,
-  currentMonth
+  currentMonth,
+  scheme
 }: ReceiptDialogProps) {
   // State for WhatsApp sending
   const [isSendingWhatsApp, setIsSendingWhatsApp] = React.useState(false)
   const [whatsappStatus, setWhatsappStatus] = React.useState<'idle' | 'success' | 'error'>('idle')
 
+  // State for the PDF download
+  const [isDownloading, setIsDownloading] = React.useState(false)
+
+  // Numbered receipts of the month's payments
+  const [receipts, setReceipts] = React.useState<Receipt[]>([])
+
+  // QR code linking to the verification page of the latest receipt
+  const [qrCode, setQrCode] = React.useState<string | null>(null)
+
+  /**
+   * Load the receipts whenever the dialog opens or the member is refreshed after a payment
+   */
+  React.useEffect(() => {
+    if (!open || !member) return
+
+    DatabaseService.getReceipts(scheme, currentMonth, member.id)
+      .then(setReceipts)
+      .catch(err => console.error('Error loading receipts:', err))
+  }, [open, member, scheme, currentMonth])
+
+  // Receipt the QR code verifies: the latest payment of the month that still counts
+  const latestReceipt = receipts.filter(r => r.status === 'issued').at(-1) ?? null
+
+  /**
+   * Create the QR code of the latest receipt
+   */
+  React.useEffect(() => {
+    setQrCode(null)
+    if (!open || !latestReceipt) return
+
+    let isCurrent = true
+    getReceiptQrCode(latestReceipt)
+      .then(code => {
+        if (isCurrent) setQrCode(code)
+      })
+      .catch(err => console.error('Error loading receipt QR code:', err))
+    return () => {
+      isCurrent = false
+    }
+  }, [open, latestReceipt])
+
   // Don't render if no member is selected
   if (!member) return null
 
+  // Late fee of an installment paid or still unpaid after the deadline
+  const lateFee = getLateFee(scheme, member)
+  const daysLate = getDaysLate(member)
+
+  // Numbers of the receipts still valid, printed on the receipt
+  const receiptNumbers = receipts.filter(r => r.status === 'issued').map(r => r.receipt_number)
+  const cancelledReceipts = receipts.filter(r => r.status === 'cancelled')
+
   /**
    * Format the payment date for display
-   * Uses updated_at field when payment status is 'paid'
+   * Uses the recorded paid_at timestamp when payment status is 'paid'
    * Shows current date if payment is pending/overdue
    */
   const getPaymentDate = () => {
     if (member.payment_status === 'paid') {
-      // Use the updated_at timestamp when payment was marked as paid
-      const date = new Date(member.updated_at)
-      return date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit'
-      })
+      // Later edits to the member don't change the recorded payment date
+      return formatPaymentDate(member) ?? 'Not recorded'
     } else {
       // For pending/overdue payments, show current date
       return new Date().toLocaleDateString('en-US', {
@@ -72,9 +119,32 @@ export function ReceiptDialog({
     window.print()
   }
 
+  /**
+   * Handle downloading the receipt as a PDF
+   */
+  const handleDownload = async () => {
+    if (!member) return
+
+    setIsDownloading(true)
+    try {
+      const pdf = await generateVerifiedReceiptPdf(member, currentMonth, scheme, receipts)
+      const url = URL.createObjectURL(pdf.blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = pdf.filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Error creating PDF receipt:', error)
+      alert(`❌ Failed to create the PDF receipt: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
   /**
    * Handle sending receipt via WhatsApp
-   * Generates receipt message and sends to member's mobile number
+   * Sends the PDF receipt to member's mobile number with the receipt message as caption
    */
   const handleSendWhatsApp = async () => {
     if (!member) return
@@ -83,11 +153,18 @@ export function ReceiptDialog({
     setWhatsappStatus('idle')
 
     try {
-      // Generate receipt message
-      const message = generateReceiptMessage(member, currentMonth)
+      // Generate receipt message and PDF; the PDF waits for its QR code and fails without one
+      const message = generateReceiptMessage(member, currentMonth, scheme, receipts)
+      const pdf = await generateVerifiedReceiptPdf(member, currentMonth, scheme, receipts)
 
       // Send via WhatsApp
-      const result = await sendWhatsAppMessage(member.mobile_number, message)
+      const result = await sendWhatsAppMessage(member.mobile_number, message, {
+        template: 'receipt',
+        memberId: member.id,
+        recipientName: member.full_name,
+        schemeId: scheme.id,
+        month: currentMonth
+      }, pdf.attachment)
 
       if (result.success) {
         setWhatsappStatus('success')
@@ -100,6 +177,7 @@ export function ReceiptDialog({
       }
     } catch (error) {
       console.error('Error sending WhatsApp receipt:', error)
+      alert(`❌ Failed to send the receipt: ${error instanceof Error ? error.message : 'Unknown error'}`)
       setWhatsappStatus('error')
       // Reset status after 3 seconds
       setTimeout(() => setWhatsappStatus('idle'), 3000)
@@ -122,7 +200,7 @@ export function ReceiptDialog({
         <div className="space-y-4 print:space-y-2 receipt-print-content">
           {/* Receipt Header */}
           <div className="text-center border-b-2 border-border pb-4 print:pb-2">
-            <h2 className="text-xl font-bold text-foreground">RAFI GOLD SAVING SCHEME</h2>
+            <h2 className="text-xl font-bold text-foreground">{scheme.name.toUpperCase()}</h2>
             <p className="text-sm text-muted-foreground">Payment Receipt</p>
             {member.payment_status === 'paid' && (
               <p className="text-xs text-green-600 dark:text-green-400 font-medium mt-1">✓ Payment Confirmed</p>
@@ -131,6 +209,17 @@ export function ReceiptDialog({
 
           {/* Member Details */}
           <div className="space-y-3 print:space-y-2">
+            {/* Receipt Numbers (one per payment of the month) */}
+            {receiptNumbers.length > 0 && (
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm font-medium text-foreground">Receipt No:</span>
+                </div>
+                <span className="text-sm text-foreground font-mono text-right">{receiptNumbers.join(', ')}</span>
+              </div>
+            )}
+
             {/* Token Number */}
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
@@ -184,9 +273,36 @@ export function ReceiptDialog({
                 <IndianRupee className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm font-medium text-foreground">Amount:</span>
               </div>
-              <span className="text-sm text-foreground font-medium">₹2000</span>
+              <span className="text-sm text-foreground font-medium">{formatAmount(getInstallmentAmount(scheme, member))}</span>
             </div>
 
+            {/* Late Fee (if the installment was paid or is still unpaid after the deadline), not part of the ledger */}
+            {lateFee > 0 && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-foreground">Late Fee ({daysLate} day{daysLate !== 1 ? 's' : ''} late, payable separately):</span>
+                <span className="text-sm text-red-600 font-medium">{formatAmount(lateFee)}</span>
+              </div>
+            )}
+
+            {/* Amount Paid (from the payments ledger) */}
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-foreground">Amount Paid:</span>
+              <span className="text-sm text-green-600 dark:text-green-400 font-medium">{formatAmount(member.paid_amount)}</span>
+            </div>
+
+            {/* Outstanding Balance or Advance */}
+            {getOutstandingBalance(scheme, member) > 0 ? (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-foreground">Balance:</span>
+                <span className="text-sm text-orange-600 font-medium">{formatAmount(getOutstandingBalance(scheme, member))}</span>
+              </div>
+            ) : getAdvanceAmount(scheme, member) > 0 && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-foreground">Advance:</span>
+                <span className="text-sm text-blue-600 font-medium">{formatAmount(getAdvanceAmount(scheme, member))}</span>
+              </div>
+            )}
+
             {/* Payment Status */}
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
@@ -211,6 +327,14 @@ export function ReceiptDialog({
               </div>
             )}
 
+            {/* Payment Mode (if recorded) */}
+            {member.payment_mode && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-foreground">Payment Mode:</span>
+                <span className="text-sm text-foreground">{PAYMENT_MODE_LABELS[member.payment_mode]}</span>
+              </div>
+            )}
+
             {/* Payment Date */}
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium text-foreground">Payment Date:</span>
@@ -218,6 +342,26 @@ export function ReceiptDialog({
             </div>
           </div>
 
+          {/* Cancelled receipts keep their numbers, so gaps in the series can be explained */}
+          {cancelledReceipts.length > 0 && (
+            <div className="text-xs text-muted-foreground print:hidden">
+              {cancelledReceipts.map(r => (
+                <p key={r.id}>
+                  <span className="font-mono line-through">{r.receipt_number}</span> cancelled
+                  {r.cancel_reason && `: ${r.cancel_reason}`}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* Verification QR Code */}
+          {qrCode && (
+            <div className="flex flex-col items-center gap-1">
+              <Image src={qrCode} alt="Receipt verification QR code" width={112} height={112} unoptimized />
+              <p className="text-xs text-muted-foreground">Scan to verify this receipt</p>
+            </div>
+          )}
+
           {/* Receipt Footer */}
           <div className="text-center border-t border-border pt-4 print:pt-2">
             <p className="text-sm text-muted-foreground font-medium">Thank you for your payment!</p>
@@ -225,7 +369,7 @@ export function ReceiptDialog({
               Generated on: {new Date().toLocaleDateString()}
             </p>
             <div className="mt-2 text-xs text-muted-foreground">
-              <p>RAFI GOLD SAVING SCHEME</p>
+              <p>{scheme.name.toUpperCase()}</p>
               <p>This receipt serves as proof of payment</p>
             </div>
           </div>
@@ -239,7 +383,20 @@ export function ReceiptDialog({
             className="flex-1"
           >
             <Printer className="h-4 w-4 mr-2" />
-            Print Receipt
+            Print
+          </Button>
+          <Button
+            onClick={handleDownload}
+            disabled={isDownloading}
+            variant="outline"
+            className="flex-1"
+          >
+            {isDownloading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            PDF
           </Button>
           <Button
             onClick={handleSendWhatsApp}
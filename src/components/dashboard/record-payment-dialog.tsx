@@ -0,0 +1,425 @@
+'use client'
+
+import * as React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Member,
+  Collector,
+  DEFAULT_COLLECTOR,
+  MonthTable,
+  Scheme,
+  Payment,
+  NewPayment,
+  Receipt,
+  PaymentMode,
+  PAYMENT_MODE_LABELS,
+  formatMonthName,
+  formatAmount,
+  getAmountDue,
+  getOutstandingBalance,
+  getAdvanceAmount
+} from "@/lib/supabase"
+import { DatabaseService } from "@/lib/database"
+import { IndianRupee, Trash2, Loader2 } from "lucide-react"
+
+/**
+ * Props for the RecordPaymentDialog component
+ */
+interface RecordPaymentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  member: Member | null
+  scheme: Scheme
+  currentMonth: MonthTable
+  collectors?: Collector[] // Options for the collected-by select
+  onRecordPayment: (memberId: number, payment: NewPayment) => Promise<void>
+  onDeletePayment: (memberId: number, paymentId: number, reason: string | null) => Promise<void>
+}
+
+/**
+ * Today's date in "YYYY-MM-DD" format for the date input
+ */
+const getToday = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Record Payment Dialog Component
+ * Shows a member's payments ledger for the month and records new (partial or advance) payments
+ * The payment status follows from the ledger total against the installment amount
+ * Removing a payment cancels its receipt, which stays listed with its number
+ */
+export function RecordPaymentDialog({
+  open,
+  onOpenChange,
+  member,
+  scheme,
+  currentMonth,
+  collectors = [DEFAULT_COLLECTOR],
+  onRecordPayment,
+  onDeletePayment
+}: RecordPaymentDialogProps) {
+  // Ledger entries of the member's installment
+  const [payments, setPayments] = React.useState<Payment[]>([])
+  const [receipts, setReceipts] = React.useState<Receipt[]>([])
+  const [isLoadingPayments, setIsLoadingPayments] = React.useState(false)
+
+  // Form state management (kept as strings while editing)
+  const [amount, setAmount] = React.useState('')
+  const [paidOn, setPaidOn] = React.useState(getToday)
+  const [mode, setMode] = React.useState<PaymentMode>('cash')
+  const [collector, setCollector] = React.useState('')
+  const [note, setNote] = React.useState('')
+
+  // Form validation error
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Loading state for form submission
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  /**
+   * Load the ledger whenever the dialog opens or the member is refreshed after a change
+   */
+  React.useEffect(() => {
+    if (!open || !member) return
+
+    setIsLoadingPayments(true)
+    Promise.all([
+      DatabaseService.getPayments(member.installment_id),
+      DatabaseService.getReceipts(scheme, currentMonth, member.id)
+    ])
+      .then(([loadedPayments, loadedReceipts]) => {
+        setPayments(loadedPayments)
+        setReceipts(loadedReceipts)
+      })
+      .catch(err => console.error('Error loading payments:', err))
+      .finally(() => setIsLoadingPayments(false))
+  }, [open, member, scheme, currentMonth])
+
+  /**
+   * Prefill the amount with the outstanding balance
+   */
+  React.useEffect(() => {
+    if (open && member) {
+      const balance = getOutstandingBalance(scheme, member)
+      setAmount(balance > 0 ? balance.toString() : '')
+      setError(null)
+    }
+  }, [open, member, scheme])
+
+  /**
+   * Default the collector to whoever the member usually pays, or the first collector
+   */
+  React.useEffect(() => {
+    if (open && member) {
+      const usualCollector = collectors.find(c => c.name === member.paid_to)
+      setCollector(usualCollector?.name || collectors[0]?.name || DEFAULT_COLLECTOR.name)
+    }
+  }, [open, member, collectors])
+
+  /**
+   * Reset form when dialog is closed
+   */
+  React.useEffect(() => {
+    if (!open) {
+      setPayments([])
+      setReceipts([])
+      setAmount('')
+      setPaidOn(getToday())
+      setMode('cash')
+      setNote('')
+      setError(null)
+    }
+  }, [open])
+
+  // Don't render if no member is selected
+  if (!member) return null
+
+  const amountDue = getAmountDue(scheme, member)
+  const balance = getOutstandingBalance(scheme, member)
+  const advance = getAdvanceAmount(scheme, member)
+
+  // Receipt of each ledger entry, and the receipts of removed payments
+  const receiptByPayment = new Map(receipts.filter(r => r.payment_id !== null).map(r => [r.payment_id, r]))
+  const cancelledReceipts = receipts.filter(r => r.status === 'cancelled')
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const value = Number(amount)
+    if (!Number.isFinite(value) || value <= 0) {
+      setError('Please enter a valid amount')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await onRecordPayment(member.id, {
+        amount: value,
+        // Keep the time of recording when the payment was made today
+        paid_at: paidOn === getToday() ? new Date().toISOString() : new Date(`${paidOn}T12:00:00`).toISOString(),
+        mode,
+        collector: collector || null,
+        note: note.trim() || null
+      })
+      setNote('')
+    } catch (err) {
+      console.error('Error recording payment:', err)
+      setError('Failed to record payment. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  /**
+   * Handle removing a ledger entry
+   * Asks why when the payment has a receipt, which is kept as cancelled
+   */
+  const handleDelete = async (payment: Payment) => {
+    const receipt = receiptByPayment.get(payment.id)
+    let reason: string | null = null
+
+    if (receipt) {
+      const answer = prompt(`Remove the payment of ${formatAmount(payment.amount)}? Receipt ${receipt.receipt_number} will be cancelled.\n\nReason:`)
+      if (answer === null) {
+        return
+      }
+      reason = answer.trim() || null
+    } else if (!confirm(`Remove the payment of ${formatAmount(payment.amount)}?`)) {
+      return
+    }
+
+    try {
+      await onDeletePayment(member.id, payment.id, reason)
+    } catch (err) {
+      console.error('Error deleting payment:', err)
+      setError('Failed to delete payment. Please try again.')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-lg sm:text-xl">
+            <IndianRupee className="h-5 w-5" />
+            Payments - {member.full_name}
+          </DialogTitle>
+          <DialogDescription className="text-sm sm:text-base">
+            {formatMonthName(currentMonth)} installment of {formatAmount(amountDue)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Balance Summary */}
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="rounded-md border p-2">
+            <p className="text-xs text-muted-foreground">Due</p>
+            <p className="font-medium">{formatAmount(amountDue)}</p>
+          </div>
+          <div className="rounded-md border p-2">
+            <p className="text-xs text-muted-foreground">Paid</p>
+            <p className="font-medium text-green-600">{formatAmount(member.paid_amount)}</p>
+          </div>
+          <div className="rounded-md border p-2">
+            <p className="text-xs text-muted-foreground">{advance > 0 ? 'Advance' : 'Balance'}</p>
+            <p className={`font-medium ${advance > 0 ? 'text-blue-600' : balance > 0 ? 'text-orange-600' : ''}`}>
+              {formatAmount(advance > 0 ? advance : balance)}
+            </p>
+          </div>
+        </div>
+
+        {/* Ledger Entries */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Ledger</h3>
+          {isLoadingPayments ? (
+            <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading payments...
+            </div>
+          ) : payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payments recorded for this month</p>
+          ) : (
+            payments.map(payment => (
+              <div key={payment.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                <div>
+                  <div className="font-medium">{formatAmount(payment.amount)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(payment.paid_at).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+                    {payment.collector && ` • ${payment.collector}`}
+                    {payment.note && ` • ${payment.note}`}
+                  </div>
+                  {receiptByPayment.has(payment.id) && (
+                    <div className="text-xs font-mono text-muted-foreground">
+                      Receipt {receiptByPayment.get(payment.id)?.receipt_number}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-xs">
+                    {payment.carried_forward ? 'Advance' : PAYMENT_MODE_LABELS[payment.mode]}
+                  </Badge>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(payment)}
+                    className="h-7 w-7 text-destructive"
+                    title="Remove payment"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+          {cancelledReceipts.length > 0 && (
+            <div className="space-y-1 pt-1 text-xs text-muted-foreground">
+              {cancelledReceipts.map(receipt => (
+                <p key={receipt.id}>
+                  <span className="font-mono line-through">Receipt {receipt.receipt_number}</span>
+                  {` (${formatAmount(receipt.amount)}) cancelled`}
+                  {receipt.cancel_reason && `: ${receipt.cancel_reason}`}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* New Payment Form */}
+        {member.payment_status !== 'no_payment_required' && (
+          <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {/* Amount Field */}
+              <div className="space-y-2">
+                <Label htmlFor="payment_amount" className="text-sm sm:text-base">
+                  Amount (₹) *
+                </Label>
+                <Input
+                  id="payment_amount"
+                  type="number"
+                  min={1}
+                  value={amount}
+                  onChange={(e) => {
+                    setAmount(e.target.value)
+                    setError(null)
+                  }}
+                  className={`${error ? "border-destructive" : ""} text-sm sm:text-base`}
+                />
+              </div>
+
+              {/* Date Field */}
+              <div className="space-y-2">
+                <Label htmlFor="payment_date" className="text-sm sm:text-base">
+                  Paid On *
+                </Label>
+                <Input
+                  id="payment_date"
+                  type="date"
+                  value={paidOn}
+                  max={getToday()}
+                  onChange={(e) => setPaidOn(e.target.value)}
+                  className="text-sm sm:text-base"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {/* Mode Field */}
+              <div className="space-y-2">
+                <Label htmlFor="payment_mode" className="text-sm sm:text-base">
+                  Mode
+                </Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as PaymentMode)}>
+                  <SelectTrigger className="text-sm sm:text-base">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map(value => (
+                      <SelectItem key={value} value={value}>{PAYMENT_MODE_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Collector Field */}
+              <div className="space-y-2">
+                <Label htmlFor="payment_collector" className="text-sm sm:text-base">
+                  Collected By
+                </Label>
+                <Select value={collector} onValueChange={setCollector}>
+                  <SelectTrigger id="payment_collector" className="text-sm sm:text-base">
+                    <SelectValue placeholder="Select collector" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {collectors.map(c => (
+                      <SelectItem key={c.id} value={c.name}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Note Field */}
+            <div className="space-y-2">
+              <Label htmlFor="payment_note" className="text-sm sm:text-base">
+                Note
+              </Label>
+              <Input
+                id="payment_note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Optional note"
+                className="text-sm sm:text-base"
+              />
+            </div>
+
+            {error && (
+              <p className="text-xs sm:text-sm text-destructive">{error}</p>
+            )}
+
+            <DialogFooter className="flex flex-col space-y-2 sm:flex-row sm:space-y-0 sm:space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSubmitting}
+                className="w-full sm:w-auto"
+              >
+                Close
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full sm:w-auto"
+              >
+                {isSubmitting ? "Recording..." : "Record Payment"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import * as React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { MonthTable, Scheme, RolloverPreview, formatMonthName, formatAmount } from "@/lib/supabase"
+import { DatabaseService } from "@/lib/database"
+import { formatTokenDisplay } from "@/lib/utils"
+import { ArrowRight, Loader2 } from "lucide-react"
+
+/**
+ * Props for the RolloverPreviewDialog component
+ */
+interface RolloverPreviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  scheme: Scheme
+  currentMonth: MonthTable
+  nextMonth: MonthTable
+  onConfirm: () => Promise<void>
+}
+
+/**
+ * Rollover Preview Dialog Component
+ * Shows exactly how the next month will be created before proceeding:
+ * previous winners who become 'drawn' / no payment required, and advances carried over
+ */
+export function RolloverPreviewDialog({
+  open,
+  onOpenChange,
+  scheme,
+  currentMonth,
+  nextMonth,
+  onConfirm
+}: RolloverPreviewDialogProps) {
+  // Preview rows and loading states
+  const [preview, setPreview] = React.useState<RolloverPreview[]>([])
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  /**
+   * Load the preview whenever the dialog opens
+   */
+  React.useEffect(() => {
+    if (!open) {
+      setPreview([])
+      setError(null)
+      return
+    }
+
+    setIsLoading(true)
+    DatabaseService.previewNextMonth(scheme, currentMonth)
+      .then(setPreview)
+      .catch(err => {
+        console.error('Error loading rollover preview:', err)
+        setError('Failed to load the preview. Please try again.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [open, scheme, currentMonth])
+
+  const previousWinners = preview.filter(row => row.payment_status === 'no_payment_required')
+  const withAdvance = preview.filter(row => row.carried_forward > 0)
+  const pendingCount = preview.filter(row => row.payment_status === 'pending').length
+
+  /**
+   * Handle confirming the rollover
+   */
+  const handleConfirm = async () => {
+    setIsSubmitting(true)
+    try {
+      await onConfirm()
+      onOpenChange(false)
+    } catch (err) {
+      console.error('Error proceeding to next month:', err)
+      setError(err instanceof Error ? err.message : 'Failed to proceed to next month. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRight className="h-5 w-5" />
+            Proceed to {formatMonthName(nextMonth)}
+          </DialogTitle>
+          <DialogDescription>
+            {preview.length} member{preview.length !== 1 ? 's' : ''} will be copied from {formatMonthName(currentMonth)}.
+            {' '}{pendingCount} will start as pending.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading preview...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Previous Winners */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">No Payment Required ({previousWinners.length})</h3>
+              {previousWinners.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No previous winners</p>
+              ) : (
+                previousWinners.map(row => (
+                  <div key={row.member_id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                    <span>
+                      {formatTokenDisplay(row.token_number)} • {row.full_name}
+                    </span>
+                    <Badge variant="secondary" className="text-xs">Drawn</Badge>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Carried-Forward Advances */}
+            {withAdvance.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Advance Carried Forward ({withAdvance.length})</h3>
+                {withAdvance.map(row => (
+                  <div key={row.member_id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                    <span>
+                      {formatTokenDisplay(row.token_number)} • {row.full_name}
+                    </span>
+                    <span className="text-blue-600">
+                      {formatAmount(row.carried_forward)}
+                      {row.payment_status === 'paid' && ' • Paid'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isLoading || isSubmitting || preview.length === 0}>
+            {isSubmitting ? 'Proceeding...' : `Proceed to ${formatMonthName(nextMonth)}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,341 @@
+'use client'
+
+import * as React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { MonthTable, Scheme, formatMonthName } from "@/lib/supabase"
+import {
+  SchedulerService,
+  ScheduleAction,
+  ScheduleRule,
+  ScheduleRun,
+  ScheduleRunStatus,
+  SCHEDULE_ACTION_LABELS,
+  SUGGESTED_SCHEDULE_RULES
+} from "@/lib/scheduler"
+import { formatOrdinalDay } from "@/lib/utils"
+import { CalendarClock, Loader2, Pause, Play, Plus, Trash2 } from "lucide-react"
+
+/**
+ * Props for the SchedulerDialog component
+ */
+interface SchedulerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  scheme: Scheme
+  currentMonth: MonthTable
+}
+
+/**
+ * Badge colours of the run results
+ */
+const RUN_STATUS_CLASSES: Record<ScheduleRunStatus, string> = {
+  running: 'border-blue-300 text-blue-700 dark:text-blue-300',
+  success: 'border-green-300 text-green-700 dark:text-green-300',
+  skipped: 'border-yellow-300 text-yellow-700 dark:text-yellow-300',
+  failed: 'border-red-300 text-red-700 dark:text-red-300'
+}
+
+/**
+ * Scheduler Dialog Component
+ * Manages the scheme's automatic reminders, pauses them for a month and shows what ran
+ */
+export function SchedulerDialog({ open, onOpenChange, scheme, currentMonth }: SchedulerDialogProps) {
+  // Rules, run log and the month's pause
+  const [rules, setRules] = React.useState<ScheduleRule[]>([])
+  const [runs, setRuns] = React.useState<ScheduleRun[]>([])
+  const [isPaused, setIsPaused] = React.useState(false)
+
+  // Loading and error states
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [isSaving, setIsSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // New rule form state
+  const [newAction, setNewAction] = React.useState<ScheduleAction>('payment_reminder')
+  const [newDay, setNewDay] = React.useState('5')
+  const [newTime, setNewTime] = React.useState('10:00')
+
+  /**
+   * Load the rules, recent runs and pause of the month
+   */
+  const loadData = React.useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const [rulesList, runsList, paused] = await Promise.all([
+        SchedulerService.getRules(scheme),
+        SchedulerService.getRuns(scheme),
+        SchedulerService.isPaused(scheme, currentMonth)
+      ])
+
+      setRules(rulesList)
+      setRuns(runsList)
+      setIsPaused(paused)
+    } catch (err) {
+      console.error('Error loading schedule:', err)
+      setError('Failed to load the schedule. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [scheme, currentMonth])
+
+  /**
+   * Load data when dialog opens
+   */
+  React.useEffect(() => {
+    if (open) {
+      loadData()
+    } else {
+      setError(null)
+    }
+  }, [open, loadData])
+
+  /**
+   * Run a change to the schedule and reload it
+   */
+  const saveChange = async (change: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true)
+    try {
+      setError(null)
+      await change()
+      await loadData()
+    } catch (err) {
+      console.error(failure, err)
+      setError(`${failure}. Please try again.`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Handle adding a new rule
+   */
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const day = Number(newDay)
+    if (!Number.isInteger(day) || day < 1 || day > 31) {
+      setError('Day must be between 1 and 31')
+      return
+    }
+
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(newTime)) {
+      setError('Please enter a valid time')
+      return
+    }
+
+    await saveChange(
+      () => SchedulerService.addRules(scheme, [{ action: newAction, day_of_month: day, time_of_day: newTime }]),
+      'Failed to add rule'
+    )
+  }
+
+  const handleAddSuggested = () => saveChange(
+    () => SchedulerService.addRules(scheme, SUGGESTED_SCHEDULE_RULES),
+    'Failed to add suggested rules'
+  )
+
+  const handleToggleActive = (rule: ScheduleRule) => saveChange(
+    () => SchedulerService.updateRule(rule.id, { is_active: !rule.is_active }),
+    'Failed to update rule'
+  )
+
+  const handleDeleteRule = (rule: ScheduleRule) => saveChange(
+    () => SchedulerService.deleteRule(rule.id),
+    'Failed to delete rule'
+  )
+
+  const handleTogglePause = () => saveChange(
+    () => SchedulerService.setPaused(scheme, currentMonth, !isPaused),
+    isPaused ? 'Failed to resume schedule' : 'Failed to pause schedule'
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Reminder Schedule
+          </DialogTitle>
+          <DialogDescription>
+            Reminders and overdue marking that run by themselves on set days of every month of {scheme.name}.
+            Rules run while the dashboard is open or when the scheduler endpoint is called. Times are India time (IST).
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Error Alert */}
+        {error && (
+          <div className="bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading schedule...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Pause for the Month */}
+            <div className={`flex items-center justify-between rounded-md border p-3 text-sm ${isPaused ? 'border-yellow-300 bg-yellow-50 dark:bg-yellow-950' : ''}`}>
+              <div>
+                <div className="font-medium">{formatMonthName(currentMonth)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {isPaused ? 'Schedule is paused, no rules run this month' : 'Schedule is running'}
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleTogglePause} disabled={isSaving} className="h-7 text-xs">
+                {isPaused ? <Play className="h-3 w-3 mr-1" /> : <Pause className="h-3 w-3 mr-1" />}
+                {isPaused ? 'Resume' : 'Pause Month'}
+              </Button>
+            </div>
+
+            {/* Rules List */}
+            <div className="space-y-2">
+              <h3 className="font-medium text-sm">Rules</h3>
+              {rules.length === 0 && (
+                <div className="flex items-center justify-between rounded-md border border-dashed p-3 text-sm text-muted-foreground">
+                  <span>No rules yet</span>
+                  <Button variant="outline" size="sm" onClick={handleAddSuggested} disabled={isSaving} className="h-7 text-xs">
+                    Add Suggested Rules
+                  </Button>
+                </div>
+              )}
+              {rules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      {SCHEDULE_ACTION_LABELS[rule.action]}
+                      {!rule.is_active && (
+                        <Badge variant="secondary" className="text-xs">Off</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      On the {formatOrdinalDay(rule.day_of_month)} at {rule.time_of_day} IST
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleActive(rule)}
+                      disabled={isSaving}
+                      className="h-7 text-xs"
+                    >
+                      {rule.is_active ? 'Turn Off' : 'Turn On'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteRule(rule)}
+                      disabled={isSaving}
+                      className="h-7 text-xs"
+                      aria-label="Delete rule"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Add Rule Form */}
+            <form onSubmit={handleAddRule} className="space-y-3 border-t pt-4">
+              <h3 className="font-medium text-sm">Add Rule</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="rule_action" className="text-xs text-muted-foreground">
+                    Action
+                  </Label>
+                  <Select value={newAction} onValueChange={(value) => setNewAction(value as ScheduleAction)}>
+                    <SelectTrigger id="rule_action" className="text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SCHEDULE_ACTION_LABELS) as ScheduleAction[]).map(action => (
+                        <SelectItem key={action} value={action}>{SCHEDULE_ACTION_LABELS[action]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule_day" className="text-xs text-muted-foreground">
+                    Day of Month
+                  </Label>
+                  <Input
+                    id="rule_day"
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={newDay}
+                    onChange={(e) => setNewDay(e.target.value)}
+                    className="text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rule_time" className="text-xs text-muted-foreground">
+                    Time (IST)
+                  </Label>
+                  <Input
+                    id="rule_time"
+                    type="time"
+                    value={newTime}
+                    onChange={(e) => setNewTime(e.target.value)}
+                    className="text-sm"
+                  />
+                </div>
+              </div>
+              <Button type="submit" size="sm" disabled={isSaving}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </form>
+
+            {/* Run Log */}
+            <div className="space-y-2 border-t pt-4">
+              <h3 className="font-medium text-sm">Recent Runs</h3>
+              {runs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing has run yet</p>
+              ) : (
+                runs.map(run => (
+                  <div key={run.id} className="flex items-start justify-between gap-2 border-b last:border-b-0 pb-2 last:pb-0 text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium">{SCHEDULE_ACTION_LABELS[run.action]}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(run.created_at).toLocaleString('en-IN')}
+                        {run.detail && ` • ${run.detail}`}
+                      </div>
+                    </div>
+                    <Badge variant="outline" className={`text-xs capitalize ${RUN_STATUS_CLASSES[run.status]}`}>
+                      {run.status}
+                    </Badge>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import * as React from "react"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Scheme } from "@/lib/supabase"
+
+/**
+ * Props for the SchemeSelector component
+ */
+interface SchemeSelectorProps {
+  schemes: Scheme[]
+  selectedScheme: Scheme
+  onSchemeChange: (scheme: Scheme) => void
+  onAddScheme?: () => void // Opens the new scheme dialog
+  className?: string
+}
+
+/**
+ * Scheme Selector Component
+ * Allows admin to switch between the parallel chit groups (e.g. ₹1000, ₹2000, ₹5000 batches)
+ * Sits next to the MonthSelector and uses the same Shadcn Select styling
+ */
+export function SchemeSelector({ schemes, selectedScheme, onSchemeChange, onAddScheme, className }: SchemeSelectorProps) {
+  /**
+   * Handle selection change
+   * The "__new__" option opens the new scheme dialog instead of switching
+   */
+  const handleValueChange = (value: string) => {
+    if (value === '__new__') {
+      onAddScheme?.()
+      return
+    }
+
+    const scheme = schemes.find(s => s.id.toString() === value)
+    if (scheme) {
+      onSchemeChange(scheme)
+    }
+  }
+
+  return (
+    <div className={className}>
+      <Select value={selectedScheme.id.toString()} onValueChange={handleValueChange}>
+        <SelectTrigger className="w-full sm:w-[240px] text-sm sm:text-base">
+          <SelectValue placeholder="Select a scheme" />
+        </SelectTrigger>
+        <SelectContent>
+          {schemes.map((scheme) => (
+            <SelectItem key={scheme.id} value={scheme.id.toString()}>
+              {scheme.name} (₹{scheme.installment_amount})
+            </SelectItem>
+          ))}
+          {onAddScheme && (
+            <SelectItem value="__new__">+ Add New Scheme</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
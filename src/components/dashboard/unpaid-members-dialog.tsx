@@ -14,16 +14,22 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
-import { Member, PaymentStatus } from "@/lib/supabase"
+import { Member, MessageLogEntry, MonthTable, PaymentStatus, Scheme, Collector, DEFAULT_COLLECTOR, formatAmount, getAmountDue, getOutstandingBalance, getLateFee, getDaysLate } from "@/lib/supabase"
 import { formatTokenDisplay } from "@/lib/utils"
 import {
-  sendBulkReminders,
   sendWhatsAppMessage,
   generateReminderMessage,
   calculateDeadlineInfo,
   checkWhatsAppStatus
 } from "@/lib/whatsapp"
-import { User, AlertCircle, MessageSquare, Send, Loader2, Search, X } from "lucide-react"
+import { BulkMessagePlan, planBulkMessages, queueBulkMessages } from "@/lib/outbox"
+import { ScheduleRun } from "@/lib/scheduler"
+import { DeliveryService } from "@/lib/delivery"
+import { OutboxProgress } from "./outbox-progress"
+import { BulkDryRunDialog } from "./bulk-dry-run-dialog"
+import { OverdueNotice } from "./overdue-notice"
+import { DeliveryTicks } from "./delivery-ticks"
+import { User, AlertCircle, MessageSquare, Send, Loader2, Search, X, IndianRupee } from "lucide-react"
 
 /**
  * Props for the Unpaid Members Dialog component
@@ -32,28 +38,50 @@ interface UnpaidMembersDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   members: Member[]
+  scheme: Scheme // Scheme of the members (used for installment amounts)
+  currentMonth: MonthTable
+  collectors?: Collector[] // Options for the paid-to select
   onPaymentStatusChange?: (memberId: number, status: PaymentStatus) => void
   onPaidToChange?: (memberId: number, paidTo: string) => void
+  onRecordPayment?: (member: Member) => void // Opens the payments ledger of a member
+  overdueTransition?: ScheduleRun | null // Latest marking of the month's pending payments as overdue
+  onBatchQueued?: (batchId: number) => void // Hands a queued bulk send to the dashboard's outbox worker
 }
 
+/**
+ * How often the delivery ticks are refreshed while the dialog is open
+ */
+const DELIVERY_REFRESH_MS = 30 * 1000
+
 /**
  * Unpaid Members Dialog Component
  * Displays all members who haven't paid yet with their details
+ * Ticks next to each name show whether the latest reminder was delivered and read
  */
 export function UnpaidMembersDialog({
   open,
   onOpenChange,
   members,
+  scheme,
+  currentMonth,
+  collectors = [DEFAULT_COLLECTOR],
   onPaymentStatusChange,
-  onPaidToChange
+  onPaidToChange,
+  onRecordPayment,
+  overdueTransition,
+  onBatchQueued
 }: UnpaidMembersDialogProps) {
   // State for WhatsApp reminder functionality
   const [isWhatsAppReady, setIsWhatsAppReady] = React.useState(false)
-  const [isSendingBulk, setIsSendingBulk] = React.useState(false)
+  const [isQueueingBulk, setIsQueueingBulk] = React.useState(false)
+  const [bulkBatchId, setBulkBatchId] = React.useState<number | null>(null)
+  const [dryRunPlan, setDryRunPlan] = React.useState<BulkMessagePlan | null>(null)
   const [sendingIndividual, setSendingIndividual] = React.useState<Set<number>>(new Set())
-  const [bulkProgress, setBulkProgress] = React.useState<{ current: number; total: number; memberName: string } | null>(null)
   const [deadlineInfo] = React.useState(calculateDeadlineInfo())
 
+  // Latest reminder of the month per member, with its delivery status
+  const [deliveries, setDeliveries] = React.useState<Record<number, MessageLogEntry>>({})
+
   // State for search functionality
   const [searchQuery, setSearchQuery] = React.useState('')
 
@@ -95,41 +123,66 @@ export function UnpaidMembersDialog({
   }
 
   // WhatsApp reminder handlers
+  // Bulk reminders are reviewed in a dry run before they are queued
   const handleBulkReminder = async () => {
     if (filteredMembers.length === 0) return
 
-    setIsSendingBulk(true)
-    setBulkProgress(null)
+    setIsQueueingBulk(true)
 
     try {
-      const results = await sendBulkReminders(filteredMembers, (current, total, memberName) => {
-        setBulkProgress({ current, total, memberName })
-      })
-
-      if (results.sent > 0) {
-        alert(`✅ Bulk reminder sent successfully!\n\n📊 Results:\n• Sent: ${results.sent}\n• Failed: ${results.failed}`)
-      } else {
-        alert(`❌ All messages failed to send. Please check the console for details.`)
-      }
+      setDryRunPlan(await planBulkMessages('reminder', filteredMembers, currentMonth, scheme))
     } catch (error) {
-      console.error('Error sending bulk reminders:', error)
-      alert('❌ Failed to send bulk reminders. Please try again.')
+      console.error('Error preparing bulk reminders:', error)
+      alert('❌ Failed to prepare bulk reminders. Please try again.')
     } finally {
-      setIsSendingBulk(false)
-      setBulkProgress(null)
+      setIsQueueingBulk(false)
     }
   }
 
+  const handleConfirmBulkReminder = async (plan: BulkMessagePlan) => {
+    const batch = await queueBulkMessages(plan, scheme, currentMonth)
+    setBulkBatchId(batch.id)
+    onBatchQueued?.(batch.id)
+  }
+
+  /**
+   * Load the delivery status of the month's reminders
+   * Ticks are left as they are when the log can't be read
+   */
+  const loadDeliveries = React.useCallback(async () => {
+    try {
+      setDeliveries(await DeliveryService.getLatestDeliveries(scheme, currentMonth, 'reminder'))
+    } catch (error) {
+      console.error('Error loading reminder deliveries:', error)
+    }
+  }, [scheme, currentMonth])
+
+  // Refresh the ticks while the dialog is open
+  React.useEffect(() => {
+    if (!open) return
+
+    loadDeliveries()
+    const interval = setInterval(loadDeliveries, DELIVERY_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [open, loadDeliveries])
+
   const handleIndividualReminder = async (member: Member) => {
     setSendingIndividual(prev => new Set(prev).add(member.id))
 
     try {
       const isOverdue = member.payment_status === 'overdue'
-      const message = generateReminderMessage(member.full_name, isOverdue)
-
-            const result = await sendWhatsAppMessage(member.mobile_number, message)
+      const message = generateReminderMessage(member.full_name, isOverdue, getOutstandingBalance(scheme, member), member.preferred_language, getLateFee(scheme, member))
+
+      const result = await sendWhatsAppMessage(member.mobile_number, message, {
+        template: 'reminder',
+        memberId: member.id,
+        recipientName: member.full_name,
+        schemeId: scheme.id,
+        month: currentMonth
+      })
 
       if (result.success === true) {
+        loadDeliveries()
         alert(`✅ Reminder sent successfully to ${member.full_name}`)
       } else {
         alert(`❌ Failed to send reminder to ${member.full_name}: ${result.error || result.message}`)
@@ -159,6 +212,17 @@ export function UnpaidMembersDialog({
   const pendingMembers = filteredMembers.filter(m => m.payment_status === 'pending')
   const overdueMembers = filteredMembers.filter(m => m.payment_status === 'overdue')
 
+  // Members of the list who were reminded this month, and how many of them read it
+  const remindedMembers = filteredMembers.filter(m => deliveries[m.id])
+  const readCount = remindedMembers.filter(m => deliveries[m.id].delivery_status === 'read').length
+  const notSeenCount = remindedMembers.length - readCount
+
+  // Total balance still to be collected from a group of members
+  const getTotalBalance = (group: Member[]) => group.reduce((sum, m) => sum + getOutstandingBalance(scheme, m), 0)
+
+  // Total late fees owed by a group of members
+  const getTotalLateFees = (group: Member[]) => group.reduce((sum, m) => sum + getLateFee(scheme, m), 0)
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
@@ -173,6 +237,14 @@ export function UnpaidMembersDialog({
           </DialogDescription>
         </DialogHeader>
 
+        {/* Notice of payments marked overdue after the deadline */}
+        {overdueTransition && (
+          <OverdueNotice
+            transition={overdueTransition}
+            overdueCount={unpaidMembers.filter(m => m.payment_status === 'overdue').length}
+          />
+        )}
+
         {/* Summary Statistics */}
         <div className="grid grid-cols-2 gap-4 mb-6">
           <Card>
@@ -181,6 +253,7 @@ export function UnpaidMembersDialog({
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-orange-600">{pendingMembers.length}</div>
+              <p className="text-xs text-muted-foreground">{formatAmount(getTotalBalance(pendingMembers))} due</p>
             </CardContent>
           </Card>
           <Card>
@@ -189,6 +262,10 @@ export function UnpaidMembersDialog({
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-red-600">{overdueMembers.length}</div>
+              <p className="text-xs text-muted-foreground">
+                {formatAmount(getTotalBalance(overdueMembers))} due
+                {getTotalLateFees(overdueMembers) > 0 && ` + ${formatAmount(getTotalLateFees(overdueMembers))} late fees`}
+              </p>
             </CardContent>
           </Card>
         </div>
@@ -240,6 +317,12 @@ export function UnpaidMembersDialog({
                           <span className="text-orange-600 font-medium"> • {deadlineInfo.daysRemaining} days remaining</span>
                         )}
                       </p>
+                      {remindedMembers.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {readCount} of {remindedMembers.length} reminded read it
+                          {notSeenCount > 0 && ` • ${notSeenCount} not seen yet`}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -255,14 +338,14 @@ export function UnpaidMembersDialog({
                     {/* Bulk Reminder Button */}
                     <Button
                       onClick={handleBulkReminder}
-                      disabled={!isWhatsAppReady || isSendingBulk || filteredMembers.length === 0}
+                      disabled={!isWhatsAppReady || isQueueingBulk || filteredMembers.length === 0}
                       size="sm"
                       className="bg-blue-600 hover:bg-blue-700"
                     >
-                      {isSendingBulk ? (
+                      {isQueueingBulk ? (
                         <>
                           <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                          {bulkProgress ? `Sending (${bulkProgress.current}/${bulkProgress.total})` : 'Sending...'}
+                          Preparing...
                         </>
                       ) : (
                         <>
@@ -274,10 +357,10 @@ export function UnpaidMembersDialog({
                   </div>
                 </div>
 
-                {/* Progress indicator for bulk sending */}
-                {bulkProgress && (
-                  <div className="mt-3 text-sm text-muted-foreground">
-                    Sending to: {bulkProgress.memberName}
+                {/* Live outbox progress of the bulk reminder */}
+                {bulkBatchId !== null && (
+                  <div className="mt-3">
+                    <OutboxProgress batchId={bulkBatchId} onDismiss={() => setBulkBatchId(null)} />
                   </div>
                 )}
               </CardContent>
@@ -316,7 +399,10 @@ export function UnpaidMembersDialog({
                           <div className="flex items-center gap-3">
                             <User className="h-5 w-5 text-muted-foreground" />
                             <div>
-                              <div className="font-medium">{member.full_name}</div>
+                              <div className="flex items-center gap-1 font-medium">
+                                {member.full_name}
+                                <DeliveryTicks entry={deliveries[member.id]} />
+                              </div>
                               <div className="text-sm text-muted-foreground">
                                 {member.mobile_number} • {member.family}
                               </div>
@@ -350,6 +436,25 @@ export function UnpaidMembersDialog({
                           </div>
                         </div>
 
+                        {/* Ledger Balance and Record Payment Button */}
+                        <div className="flex items-center justify-between gap-2 text-sm">
+                          <span className="text-muted-foreground">
+                            Paid {formatAmount(member.paid_amount)} of {formatAmount(getAmountDue(scheme, member))} •{' '}
+                            <span className="font-medium text-orange-600">Balance {formatAmount(getOutstandingBalance(scheme, member))}</span>
+                          </span>
+                          {onRecordPayment && (
+                            <Button
+                              onClick={() => onRecordPayment(member)}
+                              size="sm"
+                              variant="outline"
+                              className="h-7 text-xs"
+                            >
+                              <IndianRupee className="h-3 w-3 mr-1" />
+                              Record Payment
+                            </Button>
+                          )}
+                        </div>
+
                         {/* Payment Status and Paid To Dropdowns */}
                         <div className="grid grid-cols-2 gap-3 pt-3 border-t">
                           {/* Payment Status */}
@@ -385,7 +490,9 @@ export function UnpaidMembersDialog({
                                 <SelectValue placeholder="Select recipient" />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="Rafi">Rafi</SelectItem>
+                                {collectors.map(collector => (
+                                  <SelectItem key={collector.id} value={collector.name}>{collector.name}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </div>
@@ -410,7 +517,10 @@ export function UnpaidMembersDialog({
                           <div className="flex items-center gap-3">
                             <User className="h-5 w-5 text-muted-foreground" />
                             <div>
-                              <div className="font-medium">{member.full_name}</div>
+                              <div className="flex items-center gap-1 font-medium">
+                                {member.full_name}
+                                <DeliveryTicks entry={deliveries[member.id]} />
+                              </div>
                               <div className="text-sm text-muted-foreground">
                                 {member.mobile_number} • {member.family}
                               </div>
@@ -444,6 +554,30 @@ export function UnpaidMembersDialog({
                           </div>
                         </div>
 
+                        {/* Ledger Balance and Record Payment Button */}
+                        <div className="flex items-center justify-between gap-2 text-sm">
+                          <span className="text-muted-foreground">
+                            Paid {formatAmount(member.paid_amount)} of {formatAmount(getAmountDue(scheme, member))} •{' '}
+                            <span className="font-medium text-orange-600">Balance {formatAmount(getOutstandingBalance(scheme, member))}</span>
+                            {getLateFee(scheme, member) > 0 && (
+                              <span className="font-medium text-red-600">
+                                {' '}• Late fee {formatAmount(getLateFee(scheme, member))} ({getDaysLate(member)} day{getDaysLate(member) !== 1 ? 's' : ''})
+                              </span>
+                            )}
+                          </span>
+                          {onRecordPayment && (
+                            <Button
+                              onClick={() => onRecordPayment(member)}
+                              size="sm"
+                              variant="outline"
+                              className="h-7 text-xs"
+                            >
+                              <IndianRupee className="h-3 w-3 mr-1" />
+                              Record Payment
+                            </Button>
+                          )}
+                        </div>
+
                         {/* Payment Status and Paid To Dropdowns */}
                         <div className="grid grid-cols-2 gap-3 pt-3 border-t">
                           {/* Payment Status */}
@@ -479,7 +613,9 @@ export function UnpaidMembersDialog({
                                 <SelectValue placeholder="Select recipient" />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="Rafi">Rafi</SelectItem>
+                                {collectors.map(collector => (
+                                  <SelectItem key={collector.id} value={collector.name}>{collector.name}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </div>
@@ -494,6 +630,14 @@ export function UnpaidMembersDialog({
             </>
           )}
         </div>
+
+        {/* Review the bulk reminders before they are queued */}
+        <BulkDryRunDialog
+          open={dryRunPlan !== null}
+          onOpenChange={(open) => !open && setDryRunPlan(null)}
+          plan={dryRunPlan}
+          onConfirm={handleConfirmBulkReminder}
+        />
       </DialogContent>
     </Dialog>
   )
@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { MessageCircle, RefreshCw, CheckCircle, XCircle, AlertCircle } from "lucide-react"
 import { checkBackendHealth, checkWhatsAppStatus } from "@/lib/whatsapp"
+import { getMessagingProvider } from "@/lib/messaging-provider"
 
 /**
  * WhatsApp Connection Status Indicator Component
@@ -29,6 +30,9 @@ export function WhatsAppStatusIndicator() {
   // Loading state for refresh operations
   const [isRefreshing, setIsRefreshing] = React.useState(false)
 
+  // Service the messages are sent through
+  const provider = getMessagingProvider()
+
   /**
    * Check backend and WhatsApp status
    */
@@ -116,6 +120,14 @@ export function WhatsAppStatusIndicator() {
         </Button>
       </CardHeader>
       <CardContent className="space-y-3">
+        {/* Messaging Provider */}
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Provider</span>
+          <Badge variant={provider.id === 'mock' ? 'secondary' : 'outline'}>
+            {provider.label}
+          </Badge>
+        </div>
+
         {/* Backend Status */}
         <div className="flex items-center justify-between">
           <span className="text-sm text-muted-foreground">Backend</span>
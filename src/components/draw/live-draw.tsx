@@ -0,0 +1,301 @@
+'use client'
+
+import * as React from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { DatabaseService } from "@/lib/database"
+import { Draw, runDraw } from "@/lib/draw-engine"
+import { Member, MonthTable, Scheme, DEFAULT_SCHEME, getSchemeMonths, formatMonthName } from "@/lib/supabase"
+import { getCurrentSchemeMonth } from "@/lib/scheme-calendar"
+import { formatTokenDisplay } from "@/lib/utils"
+import { generateWinnerAnnouncementMessage } from "@/lib/whatsapp"
+import { loadMessageTemplates } from "@/lib/message-templates"
+import { ArrowLeft, Dices, Maximize, Minimize, Share2, Trophy, Loader2 } from "lucide-react"
+
+/**
+ * Props for the LiveDraw component
+ */
+interface LiveDrawProps {
+  schemeId?: number
+  month?: string
+}
+
+type DrawPhase = 'loading' | 'ready' | 'drawing' | 'declaring' | 'done'
+
+/**
+ * Today's date in "YYYY-MM-DD" format for the draw seed
+ */
+const getToday = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Live Draw Component
+ * Shows the month's eligible tokens, records the seeded draw, animates it and declares the winner
+ * A draw recorded earlier (e.g. before the page was reloaded) is replayed instead of run again
+ * Ends on a winner card that can be screenshotted or shared to WhatsApp
+ */
+export function LiveDraw({ schemeId, month }: LiveDrawProps) {
+  // Scheme and month the draw is held for
+  const [scheme, setScheme] = React.useState<Scheme>(DEFAULT_SCHEME)
+  const [currentMonth, setCurrentMonth] = React.useState<MonthTable | null>(null)
+
+  // Draw state
+  const [phase, setPhase] = React.useState<DrawPhase>('loading')
+  const [eligibleMembers, setEligibleMembers] = React.useState<Member[]>([])
+  const [highlightIndex, setHighlightIndex] = React.useState<number | null>(null)
+  const [publicValue, setPublicValue] = React.useState('')
+  const [winner, setWinner] = React.useState<Member | null>(null)
+  const [draw, setDraw] = React.useState<Draw | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [isFullscreen, setIsFullscreen] = React.useState(false)
+
+  // Pending animation step, cleared on unmount
+  const timeoutRef = React.useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  /**
+   * Load the scheme and the message templates, then either the declared winner or the eligible tokens
+   */
+  React.useEffect(() => {
+    const load = async () => {
+      try {
+        const [schemes] = await Promise.all([DatabaseService.getSchemes(), loadMessageTemplates()])
+        const selectedScheme = schemes.find(s => s.id === schemeId) || schemes[0]
+        const months = getSchemeMonths(selectedScheme)
+        const selectedMonth = months.includes(month as MonthTable) ? month as MonthTable : getCurrentSchemeMonth(months)
+
+        setScheme(selectedScheme)
+        setCurrentMonth(selectedMonth)
+
+        const [existingWinner, recordedDraw] = await Promise.all([
+          DatabaseService.getCurrentWinner(selectedScheme, selectedMonth),
+          DatabaseService.getDraw(selectedScheme, selectedMonth)
+        ])
+        setDraw(recordedDraw)
+        setPublicValue(recordedDraw?.public_value ?? '')
+
+        if (existingWinner) {
+          setWinner(existingWinner)
+          setPhase('done')
+          return
+        }
+
+        setEligibleMembers(await DatabaseService.getDrawEligibleMembers(selectedScheme, selectedMonth))
+        setPhase('ready')
+      } catch (err) {
+        console.error('Error loading draw:', err)
+        setError('Failed to load the draw. Please refresh the page.')
+      }
+    }
+
+    load()
+
+    return () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current)
+    }
+  }, [schemeId, month])
+
+  /**
+   * Keep the fullscreen button in sync when the user leaves fullscreen with Esc
+   */
+  React.useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement !== null)
+    document.addEventListener('fullscreenchange', handleChange)
+    return () => document.removeEventListener('fullscreenchange', handleChange)
+  }, [])
+
+  /**
+   * Cycle the highlight through the tokens, slowing down until it stops on the winning index
+   */
+  const animateTo = (tokenCount: number, winningIndex: number) => new Promise<void>(resolve => {
+    const rounds = Math.max(1, Math.round(100 / tokenCount))
+    const totalSteps = rounds * tokenCount + winningIndex
+    let step = 0
+
+    const tick = () => {
+      setHighlightIndex(step % tokenCount)
+      if (step >= totalSteps) {
+        resolve()
+        return
+      }
+      step++
+      const remaining = totalSteps - step
+      timeoutRef.current = setTimeout(tick, remaining < 12 ? 80 + (12 - remaining) * 40 : 60)
+    }
+
+    tick()
+  })
+
+  /**
+   * Record the draw (or take the one recorded earlier), play the animation and declare the winner
+   */
+  const handleStartDraw = async () => {
+    if (!currentMonth) return
+
+    if (!publicValue.trim()) {
+      setError('Enter the public value announced for this draw')
+      return
+    }
+
+    try {
+      setError(null)
+      setPhase('drawing')
+      const result = draw ?? await DatabaseService.recordDraw(scheme, currentMonth, runDraw(
+        scheme.id,
+        currentMonth,
+        getToday(),
+        publicValue,
+        eligibleMembers.map(member => member.token_number as number)
+      ))
+      setDraw(result)
+
+      await animateTo(eligibleMembers.length, eligibleMembers.findIndex(member => member.id === result.member_id))
+
+      setPhase('declaring')
+      setWinner(await DatabaseService.declareWinner(scheme, currentMonth, result.id))
+      setPhase('done')
+    } catch (err) {
+      console.error('Error running live draw:', err)
+      setError(err instanceof Error ? err.message : 'Failed to run the draw. Please try again.')
+      setHighlightIndex(null)
+      setPhase('ready')
+    }
+  }
+
+  /**
+   * Toggle fullscreen for the TV at the shop
+   */
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen()
+    } else {
+      document.documentElement.requestFullscreen().catch(err => console.error('Fullscreen not available:', err))
+    }
+  }
+
+  /**
+   * Share the winner announcement to WhatsApp (opens the chat picker)
+   */
+  const handleShare = () => {
+    if (!winner || !currentMonth) return
+    const message = generateWinnerAnnouncementMessage(winner, currentMonth, scheme)
+    window.open(`https://wa.me/?text=${encodeURIComponent(message)}`, '_blank')
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col px-4 py-6 sm:px-8">
+      {/* Top Bar */}
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Dashboard
+          </Link>
+        </Button>
+        <Button variant="ghost" size="sm" onClick={toggleFullscreen}>
+          {isFullscreen ? <Minimize className="h-4 w-4" /> : <Maximize className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      {/* Title */}
+      <div className="mt-4 text-center">
+        <h1 className="text-2xl font-bold tracking-tight sm:text-4xl">{scheme.name}</h1>
+        {currentMonth && (
+          <p className="mt-1 text-lg text-muted-foreground sm:text-2xl">{formatMonthName(currentMonth)} Draw</p>
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-auto mt-6 w-full max-w-xl bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-1 flex-col items-center justify-center py-8">
+        {phase === 'loading' ? (
+          <div className="flex items-center text-muted-foreground">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading draw...
+          </div>
+        ) : phase === 'done' && winner && currentMonth ? (
+          /* Winner Card */
+          <div className="w-full max-w-md space-y-6 text-center">
+            <div className="rounded-2xl border-4 border-yellow-300 bg-yellow-50 px-6 py-10 shadow-lg dark:bg-yellow-950/30">
+              <Trophy className="mx-auto h-16 w-16 text-yellow-500" />
+              <p className="mt-4 text-sm font-medium uppercase tracking-widest text-yellow-700">
+                {formatMonthName(currentMonth)} Winner
+              </p>
+              <p className="mt-2 text-6xl font-bold text-yellow-600 sm:text-7xl">
+                {formatTokenDisplay(winner.token_number)}
+              </p>
+              <p className="mt-4 text-2xl font-semibold sm:text-3xl">{winner.full_name}</p>
+              <p className="text-muted-foreground">{winner.family}</p>
+              <p className="mt-4 text-xs text-muted-foreground">{scheme.name}</p>
+              {draw && (
+                <p className="mt-1 break-all font-mono text-[10px] text-muted-foreground">Seed {draw.seed}</p>
+              )}
+            </div>
+            <Button onClick={handleShare} className="bg-green-600 hover:bg-green-700" size="lg">
+              <Share2 className="h-4 w-4 mr-2" />
+              Share on WhatsApp
+            </Button>
+          </div>
+        ) : eligibleMembers.length === 0 ? (
+          <div className="text-center text-muted-foreground">
+            <Trophy className="mx-auto mb-2 h-12 w-12 opacity-50" />
+            <p className="text-lg">No eligible members for this draw</p>
+            <p className="text-sm">Members must be paid, have token numbers and not have won before</p>
+          </div>
+        ) : (
+          <div className="w-full max-w-5xl space-y-8">
+            {/* Eligible Tokens */}
+            <p className="text-center text-muted-foreground">
+              {eligibleMembers.length} eligible token{eligibleMembers.length !== 1 ? 's' : ''}
+            </p>
+            <div className="grid grid-cols-5 gap-2 sm:grid-cols-8 sm:gap-3 lg:grid-cols-10">
+              {eligibleMembers.map((member, index) => (
+                <div
+                  key={member.id}
+                  className={`rounded-lg border py-3 text-center text-lg font-bold transition-all duration-75 sm:text-2xl ${
+                    highlightIndex === index
+                      ? 'scale-110 border-yellow-400 bg-yellow-400 text-white shadow-lg'
+                      : 'bg-card'
+                  }`}
+                >
+                  {formatTokenDisplay(member.token_number)}
+                </div>
+              ))}
+            </div>
+
+            {/* Draw Controls */}
+            <div className="mx-auto flex w-full max-w-md gap-2">
+              <Input
+                value={publicValue}
+                onChange={(e) => {
+                  setPublicValue(e.target.value)
+                  setError(null)
+                }}
+                placeholder="Public value announced at the shop"
+                disabled={phase !== 'ready' || draw !== null}
+              />
+              <Button
+                onClick={handleStartDraw}
+                disabled={phase !== 'ready'}
+                className="bg-yellow-600 hover:bg-yellow-700"
+              >
+                {phase === 'ready' ? (
+                  <>
+                    <Dices className="h-4 w-4 mr-2" />
+                    Start Draw
+                  </>
+                ) : phase === 'drawing' ? 'Drawing...' : 'Declaring...'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,385 @@
+'use client'
+
+import * as React from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { DatabaseService } from "@/lib/database"
+import { Member, MessageLanguage, MessageTemplateKey, MessageTemplateText, Scheme, DEFAULT_SCHEME, MESSAGE_LANGUAGE_LABELS, formatAmount, getInstallmentAmount, getSchemeMonths } from "@/lib/supabase"
+import { getCurrentSchemeMonth } from "@/lib/scheme-calendar"
+import { calculateDeadlineInfo, getMemberTemplateValues } from "@/lib/whatsapp"
+import {
+  TemplatePlaceholder,
+  TEMPLATE_DEFINITIONS,
+  TEMPLATE_PLACEHOLDERS,
+  DEFAULT_MESSAGE_TEMPLATES,
+  renderMessage,
+  setMessageTemplates
+} from "@/lib/message-templates"
+import { ArrowLeft, FileText, Loader2, RotateCcw, Save } from "lucide-react"
+
+type TemplateField = 'english' | 'telugu'
+
+/**
+ * Member the preview is rendered for
+ */
+const SAMPLE_MEMBER: Member = {
+  id: 0,
+  installment_id: 0,
+  scheme_id: DEFAULT_SCHEME.id,
+  month: getCurrentSchemeMonth(getSchemeMonths(DEFAULT_SCHEME)),
+  token_number: 7,
+  full_name: 'Shaik Ameer',
+  mobile_number: '9876543210',
+  family: 'Ponnur',
+  payment_status: 'paid',
+  paid_to: 'Rafi',
+  paid_at: new Date().toISOString(),
+  payment_mode: 'upi',
+  draw_status: 'not_drawn',
+  additional_information: null,
+  installment_amount: null,
+  preferred_language: 'both',
+  messaging_preference: 'all',
+  messaging_preference_reason: null,
+  messaging_preference_at: null,
+  paid_amount: 1500,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString()
+}
+
+/**
+ * Late fee shown in the preview
+ */
+const SAMPLE_LATE_FEE = 100
+
+/**
+ * Receipt number shown in the preview of the receipt
+ */
+const SAMPLE_RECEIPT_NUMBER = '1-202610-0007'
+
+/**
+ * Verification link shown in the preview of the receipt
+ */
+const SAMPLE_VERIFY_LINK = 'https://example.com/verify/3f9c2a7e41d84b6f9e0a5c17d2b8e643'
+
+/**
+ * Saved text of a template, or its default when it has not been edited
+ */
+const getSavedText = (key: MessageTemplateKey, templates: MessageTemplateText[]) => {
+  const saved = templates.find(template => template.key === key)
+  return saved ? { english: saved.english, telugu: saved.telugu } : DEFAULT_MESSAGE_TEMPLATES[key]
+}
+
+/**
+ * Template Editor Component
+ * Edits the English and Telugu parts of each WhatsApp message with a live preview
+ * Saved texts are used for all messages sent afterwards; reset goes back to the built-in text
+ */
+export function TemplateEditor() {
+  // Edited templates and the scheme the preview is shown for
+  const [templates, setTemplates] = React.useState<MessageTemplateText[]>([])
+  const [scheme, setScheme] = React.useState<Scheme>(DEFAULT_SCHEME)
+  const [isLoading, setIsLoading] = React.useState(true)
+
+  // Template being edited
+  const [selectedKey, setSelectedKey] = React.useState<MessageTemplateKey>('reminder')
+  const [draft, setDraft] = React.useState(DEFAULT_MESSAGE_TEMPLATES.reminder)
+  const [isSaving, setIsSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [notice, setNotice] = React.useState<string | null>(null)
+
+  // Text box a clicked placeholder is inserted into
+  const fieldRefs = {
+    english: React.useRef<HTMLTextAreaElement>(null),
+    telugu: React.useRef<HTMLTextAreaElement>(null)
+  }
+  const [activeField, setActiveField] = React.useState<TemplateField>('english')
+
+  // Language the preview is shown in, as picked on a member
+  const [previewLanguage, setPreviewLanguage] = React.useState<MessageLanguage>(SAMPLE_MEMBER.preferred_language)
+
+  /**
+   * Load the edited templates and the scheme for the preview
+   */
+  React.useEffect(() => {
+    Promise.all([DatabaseService.getMessageTemplates(), DatabaseService.getSchemes()])
+      .then(([loadedTemplates, schemes]) => {
+        setTemplates(loadedTemplates)
+        setMessageTemplates(loadedTemplates)
+        setDraft(getSavedText('reminder', loadedTemplates))
+        setScheme(schemes[0] || DEFAULT_SCHEME)
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  // Whether the selected template has an edited copy, and unsaved changes
+  const isEdited = templates.some(template => template.key === selectedKey)
+  const savedText = getSavedText(selectedKey, templates)
+  const isDirty = draft.english !== savedText.english || draft.telugu !== savedText.telugu
+
+  /**
+   * Handle picking another template, discarding unsaved changes
+   */
+  const handleSelectTemplate = (key: MessageTemplateKey) => {
+    if (isDirty && !confirm('Discard the unsaved changes?')) {
+      return
+    }
+
+    setSelectedKey(key)
+    setDraft(getSavedText(key, templates))
+    setError(null)
+    setNotice(null)
+  }
+
+  // Placeholder values of the sample member, with the deadline used by the reminders
+  // and a sample late fee, receipt number and verification link so their lines show in the preview
+  const previewValues = React.useMemo(() => ({
+    ...getMemberTemplateValues(SAMPLE_MEMBER, SAMPLE_MEMBER.month, scheme),
+    deadline: calculateDeadlineInfo().deadline,
+    late_fee: formatAmount(SAMPLE_LATE_FEE),
+    total: formatAmount(getInstallmentAmount(scheme, SAMPLE_MEMBER) + SAMPLE_LATE_FEE),
+    receipt_no: SAMPLE_RECEIPT_NUMBER,
+    verify_link: SAMPLE_VERIFY_LINK
+  }), [scheme])
+
+  // The token number message shows the plain number, like generateTokenAssignmentMessage
+  const preview = renderMessage(
+    selectedKey,
+    selectedKey === 'token_assignment' ? { ...previewValues, token: String(SAMPLE_MEMBER.token_number) } : previewValues,
+    previewLanguage,
+    draft
+  )
+
+  /**
+   * Insert a placeholder at the cursor of the last focused text box
+   */
+  const insertPlaceholder = (placeholder: TemplatePlaceholder) => {
+    const field = fieldRefs[activeField].current
+    const text = draft[activeField]
+    const start = field?.selectionStart ?? text.length
+    const end = field?.selectionEnd ?? text.length
+    const token = `{${placeholder}}`
+
+    setDraft(prev => ({ ...prev, [activeField]: text.slice(0, start) + token + text.slice(end) }))
+
+    // Put the cursor back after the inserted placeholder
+    requestAnimationFrame(() => {
+      field?.focus()
+      field?.setSelectionRange(start + token.length, start + token.length)
+    })
+  }
+
+  /**
+   * Handle saving the edited text
+   */
+  const handleSave = async () => {
+    if (!draft.english.trim() && !draft.telugu.trim()) {
+      setError('The message cannot be empty')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const savedTemplate = await DatabaseService.saveMessageTemplate(selectedKey, draft.english.trim(), draft.telugu.trim())
+      const updated = [...templates.filter(template => template.key !== selectedKey), savedTemplate]
+      setTemplates(updated)
+      setMessageTemplates(updated)
+      setDraft({ english: savedTemplate.english, telugu: savedTemplate.telugu })
+      setNotice('Template saved')
+    } catch (err) {
+      console.error('Error saving template:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save template')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Handle going back to the built-in text
+   */
+  const handleReset = async () => {
+    if (!confirm(`Reset "${TEMPLATE_DEFINITIONS[selectedKey].label}" to the original text?`)) {
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      await DatabaseService.resetMessageTemplate(selectedKey)
+      const updated = templates.filter(template => template.key !== selectedKey)
+      setTemplates(updated)
+      setMessageTemplates(updated)
+      setDraft(DEFAULT_MESSAGE_TEMPLATES[selectedKey])
+      setNotice('Template reset to the original text')
+    } catch (err) {
+      console.error('Error resetting template:', err)
+      setError(err instanceof Error ? err.message : 'Failed to reset template')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const definition = TEMPLATE_DEFINITIONS[selectedKey]
+  const textareaClassName = "min-h-48 w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30"
+
+  return (
+    <div className="mx-auto max-w-6xl space-y-4 px-4 py-6">
+      {/* Top Bar */}
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Dashboard
+          </Link>
+        </Button>
+        <h1 className="flex items-center gap-2 text-lg font-semibold">
+          <FileText className="h-5 w-5" />
+          Message Templates
+        </h1>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12 text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading templates...
+        </div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-[220px_1fr_1fr]">
+          {/* Template List */}
+          <div className="flex flex-row flex-wrap gap-2 lg:flex-col">
+            {(Object.keys(TEMPLATE_DEFINITIONS) as MessageTemplateKey[]).map(key => (
+              <Button
+                key={key}
+                variant={key === selectedKey ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => handleSelectTemplate(key)}
+                className="justify-between"
+              >
+                {TEMPLATE_DEFINITIONS[key].label}
+                {templates.some(template => template.key === key) && (
+                  <Badge variant="secondary" className="ml-2 text-xs">Edited</Badge>
+                )}
+              </Button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{definition.label}</CardTitle>
+              <p className="text-sm text-muted-foreground">{definition.description}</p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="template_english">English</Label>
+                <textarea
+                  id="template_english"
+                  ref={fieldRefs.english}
+                  value={draft.english}
+                  onFocus={() => setActiveField('english')}
+                  onChange={(e) => setDraft(prev => ({ ...prev, english: e.target.value }))}
+                  className={textareaClassName}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template_telugu">Telugu</Label>
+                <textarea
+                  id="template_telugu"
+                  ref={fieldRefs.telugu}
+                  value={draft.telugu}
+                  onFocus={() => setActiveField('telugu')}
+                  onChange={(e) => setDraft(prev => ({ ...prev, telugu: e.target.value }))}
+                  placeholder="Leave empty to send this message in English only"
+                  className={textareaClassName}
+                />
+              </div>
+
+              {/* Placeholders */}
+              {definition.placeholders.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Placeholders (click to insert)</Label>
+                  <div className="flex flex-wrap gap-1">
+                    {definition.placeholders.map(placeholder => (
+                      <Button
+                        key={placeholder}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => insertPlaceholder(placeholder)}
+                        className="h-7 font-mono text-xs"
+                        title={TEMPLATE_PLACEHOLDERS[placeholder]}
+                      >
+                        {`{${placeholder}}`}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Lines whose placeholder has no value, like an empty balance, are left out of the message.
+                  </p>
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+                  {error}
+                </div>
+              )}
+              {notice && !isDirty && (
+                <p className="text-sm text-green-600">{notice}</p>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleReset}
+                  disabled={isSaving || !isEdited}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reset to Original
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+                  {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  Save
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Live Preview */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Preview</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                As sent to {SAMPLE_MEMBER.full_name}, a sample member of {scheme.name}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-1">
+                {(Object.keys(MESSAGE_LANGUAGE_LABELS) as MessageLanguage[]).map(language => (
+                  <Button
+                    key={language}
+                    variant={language === previewLanguage ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setPreviewLanguage(language)}
+                    className="h-7 text-xs"
+                  >
+                    {MESSAGE_LANGUAGE_LABELS[language]}
+                  </Button>
+                ))}
+              </div>
+              <pre className="whitespace-pre-wrap break-words rounded-md bg-green-50 p-3 font-sans text-sm text-gray-900 dark:bg-green-950 dark:text-gray-100">
+                {preview}
+              </pre>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
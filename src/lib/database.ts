@@ -1,23 +1,241 @@
-import { supabase, Member, NewMember, MonthTable, MONTHS, createWinnerDrawStatus, PaymentStatus, PaidToRecipient, DrawStatus, formatMonthName } from './supabase'
-import { sendTokenAssignmentMessages } from './whatsapp'
+import { supabase, Member, NewMember, MonthTable, Scheme, NewScheme, Payment, NewPayment, Collector, NewCollector, CollectorSummary, RolloverPreview, MessageLogEntry, MessageTemplateKey, MessageTemplateText, MessagingPreference, PaymentMode, Receipt, DEFAULT_SCHEME, DEFAULT_COLLECTOR, getSchemeMonths, createWinnerDrawStatus, getOutstandingBalance, derivePaymentStatus, formatMonthName } from './supabase'
+import { Draw, DrawResult, getEligibleMembers, verifyDraw } from './draw-engine'
 
 
+/**
+ * Member fields stored on the persistent members table
+ * Everything else on a Member row belongs to the installment of that month
+ */
+const MEMBER_FIELDS = ['full_name', 'mobile_number', 'family', 'token_number', 'additional_information', 'installment_amount', 'preferred_language', 'messaging_preference', 'messaging_preference_reason', 'messaging_preference_at'] as const
+
+/**
+ * Installment fields stored per member per month
+ */
+const INSTALLMENT_FIELDS = ['payment_status', 'paid_to', 'paid_at', 'payment_mode', 'draw_status'] as const
+
+/**
+ * Pick the given keys out of a partial update, skipping undefined values
+ */
+const pickFields = <T extends object>(updates: T, fields: readonly string[]): Record<string, unknown> => {
+  return Object.fromEntries(
+    Object.entries(updates).filter(([key, value]) => fields.includes(key) && value !== undefined)
+  )
+}
+
 /**
  * Database service class for handling all member-related operations
- * Provides clean interface for interacting with monthly register tables
+ * Members are stored once in the members table, with one installments row per month
+ * Reads go through the member_installments view which flattens both into a Member
+ * Every member operation is scoped to a scheme through the scheme_id column
  */
 export class DatabaseService {
 
   /**
-   * Fetch all members from a specific month table
+   * Fetch all schemes (parallel chit groups) run from the dashboard
+   * Falls back to the original RAFI scheme if the schemes table is not available
+   */
+  static async getSchemes(): Promise<Scheme[]> {
+    try {
+      const { data, error } = await supabase
+        .from('schemes')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching schemes:', error)
+        return [DEFAULT_SCHEME]
+      }
+
+      return data && data.length > 0 ? data : [DEFAULT_SCHEME]
+    } catch (error) {
+      console.error('Database error in getSchemes:', error)
+      return [DEFAULT_SCHEME]
+    }
+  }
+
+  /**
+   * Create a new scheme with its own name, installment amount and calendar
+   */
+  static async createScheme(schemeData: NewScheme): Promise<Scheme> {
+    try {
+      const { data, error } = await supabase
+        .from('schemes')
+        .insert(schemeData)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating scheme:', error)
+        throw new Error(`Failed to create scheme: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Database error in createScheme:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update the settings of a scheme, e.g. its late fee rule
+   */
+  static async updateScheme(schemeId: number, updates: Partial<NewScheme>): Promise<Scheme> {
+    try {
+      const { data, error } = await supabase
+        .from('schemes')
+        .update(updates)
+        .eq('id', schemeId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error(`Error updating scheme ${schemeId}:`, error)
+        throw new Error(`Failed to update scheme: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Database error in updateScheme:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch the collectors list
+   * Inactive collectors are only included when asked for (e.g. on the management screen)
+   * Falls back to the shop owner if the collectors table is not available
+   */
+  static async getCollectors(includeInactive: boolean = false): Promise<Collector[]> {
+    try {
+      let query = supabase
+        .from('collectors')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching collectors:', error)
+        return [DEFAULT_COLLECTOR]
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Database error in getCollectors:', error)
+      return [DEFAULT_COLLECTOR]
+    }
+  }
+
+  /**
+   * Add a new collector
+   */
+  static async addCollector(collectorData: NewCollector): Promise<Collector> {
+    try {
+      const { data, error } = await supabase
+        .from('collectors')
+        .insert({
+          name: collectorData.name.trim(),
+          phone: collectorData.phone?.trim() || null,
+          is_active: collectorData.is_active ?? true
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error adding collector:', error)
+        throw new Error(`Failed to add collector: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Database error in addCollector:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update a collector's phone number or active flag
+   * The name is kept as is since past payments refer to it
+   */
+  static async updateCollector(collectorId: number, updates: Partial<Omit<NewCollector, 'name'>>): Promise<Collector> {
+    try {
+      const { data, error } = await supabase
+        .from('collectors')
+        .update(updates)
+        .eq('id', collectorId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating collector:', error)
+        throw new Error(`Failed to update collector: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Database error in updateCollector:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get how much cash each collector received for a month of a scheme
+   * Advances carried over from the previous month are left out, that money was counted then
+   */
+  static async getCollectorSummary(scheme: Scheme, monthTable: MonthTable): Promise<CollectorSummary[]> {
+    try {
+      const { data, error } = await supabase
+        .from('collector_payments')
+        .select('collector, amount, mode')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
+        .eq('carried_forward', false)
+
+      if (error) {
+        console.error(`Error fetching collector payments for ${monthTable}:`, error)
+        throw new Error(`Failed to fetch collector summary: ${error.message}`)
+      }
+
+      const summaries = new Map<string, CollectorSummary>()
+
+      for (const row of (data || []) as Array<{ collector: string | null; amount: number; mode: PaymentMode }>) {
+        const collector = row.collector || 'Unassigned'
+        const summary = summaries.get(collector) || {
+          collector,
+          total: 0,
+          byMode: { cash: 0, upi: 0, bank: 0 },
+          payments: 0
+        }
+
+        summary.total += Number(row.amount)
+        summary.byMode[row.mode] += Number(row.amount)
+        summary.payments++
+        summaries.set(collector, summary)
+      }
+
+      return [...summaries.values()].sort((a, b) => b.total - a.total)
+    } catch (error) {
+      console.error('Database error in getCollectorSummary:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch all members with an installment in a specific month
    * Returns members sorted alphabetically by full name
    * This alphabetical sorting is used for consistent token assignment
    */
-  static async getMembers(monthTable: MonthTable): Promise<Member[]> {
+  static async getMembers(scheme: Scheme, monthTable: MonthTable): Promise<Member[]> {
     try {
       const { data, error } = await supabase
-        .from(monthTable)
+        .from('member_installments')
         .select('*')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
         .order('full_name', { ascending: true })
 
       if (error) {
@@ -32,15 +250,47 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Fetch a single member together with their installment for a month
+   * Returns null if the member has no installment in that month
+   */
+  static async getMember(scheme: Scheme, monthTable: MonthTable, memberId: number): Promise<Member | null> {
+    try {
+      const { data, error } = await supabase
+        .from('member_installments')
+        .select('*')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
+        .eq('id', memberId)
+        .single()
+
+      if (error) {
+        // Member not found in this month is not an error
+        if (error.code === 'PGRST116') {
+          return null
+        }
+        console.error(`Error fetching member from ${monthTable}:`, error)
+        throw new Error(`Failed to fetch member: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Database error in getMember:', error)
+      throw error
+    }
+  }
+
   /**
    * Get all members of a specific family in a month
    * Used for mobile number sharing and family management
    */
-  static async getFamilyMembers(monthTable: MonthTable, familyName: string): Promise<Member[]> {
+  static async getFamilyMembers(scheme: Scheme, monthTable: MonthTable, familyName: string): Promise<Member[]> {
     try {
       const { data, error } = await supabase
-        .from(monthTable)
+        .from('member_installments')
         .select('*')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
         .eq('family', familyName)
         .order('full_name', { ascending: true })
 
@@ -60,11 +310,13 @@ export class DatabaseService {
    * Get the mobile number of the first member in a family
    * Used for manual mobile number sharing functionality
    */
-  static async getFamilyMobileNumber(monthTable: MonthTable, familyName: string): Promise<string | null> {
+  static async getFamilyMobileNumber(scheme: Scheme, monthTable: MonthTable, familyName: string): Promise<string | null> {
     try {
       const { data, error } = await supabase
-        .from(monthTable)
+        .from('member_installments')
         .select('mobile_number')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
         .eq('family', familyName)
         .limit(1)
         .single()
@@ -82,29 +334,52 @@ export class DatabaseService {
   }
 
   /**
-   * Add a new member to the specified month table
+   * Add a new member to the scheme with an installment for the specified month
    * Automatically sorts the member list alphabetically
    * No longer automatically shares mobile number - users must explicitly choose to share
    */
-  static async addMember(monthTable: MonthTable, memberData: NewMember): Promise<Member> {
+  static async addMember(scheme: Scheme, monthTable: MonthTable, memberData: NewMember): Promise<Member> {
     try {
-      const { data, error } = await supabase
-        .from(monthTable)
+      // Create the persistent member record
+      const { data: member, error } = await supabase
+        .from('members')
         .insert({
-          ...memberData,
-          family: memberData.family || 'Individual',
-          payment_status: memberData.payment_status || 'pending',
-          draw_status: memberData.draw_status || 'not_drawn'
+          ...pickFields(memberData, MEMBER_FIELDS),
+          scheme_id: scheme.id,
+          family: memberData.family || 'Individual'
         })
         .select()
         .single()
 
       if (error) {
-        console.error(`Error adding member to ${monthTable}:`, error)
+        console.error('Error adding member:', error)
         throw new Error(`Failed to add member: ${error.message}`)
       }
 
-      return data
+      // Create the member's installment for this month
+      const { error: installmentError } = await supabase
+        .from('installments')
+        .insert({
+          member_id: member.id,
+          month: monthTable,
+          paid_to: memberData.paid_to || null,
+          payment_status: memberData.payment_status || 'pending',
+          draw_status: memberData.draw_status || 'not_drawn'
+        })
+
+      if (installmentError) {
+        console.error(`Error adding installment for ${monthTable}:`, installmentError)
+        // Don't leave a member without any installment behind
+        await supabase.from('members').delete().eq('id', member.id)
+        throw new Error(`Failed to add member: ${installmentError.message}`)
+      }
+
+      const newMember = await this.getMember(scheme, monthTable, member.id)
+      if (!newMember) {
+        throw new Error('Failed to add member: member not found after insert')
+      }
+
+      return newMember
     } catch (error) {
       console.error('Database error in addMember:', error)
       throw error
@@ -116,16 +391,18 @@ export class DatabaseService {
    * Maintains alphabetical sorting after update
    * Allows family members to have individual mobile numbers
    * Prevents changing payment status for previously won customers
+   * Marking a member as paid records the payment date and mode (now and cash unless given)
+   * A member whose payments cover the installment can't be marked unpaid, the payments have to be removed instead
    */
   static async updateMember(
+    scheme: Scheme,
     monthTable: MonthTable,
     memberId: number,
     updates: Partial<Omit<Member, 'id' | 'created_at' | 'updated_at'>>
   ): Promise<Member> {
     try {
       // Get current member data to check if they're previously won
-      const currentMember = await this.getMembers(monthTable)
-        .then(members => members.find(m => m.id === memberId))
+      const currentMember = await this.getMember(scheme, monthTable, memberId)
 
       if (!currentMember) {
         throw new Error('Member not found')
@@ -142,22 +419,89 @@ export class DatabaseService {
         throw new Error('Cannot change payment status for members who don\'t need to pay. Their status is automatically managed.')
       }
 
-      const { data, error } = await supabase
-        .from(monthTable)
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', memberId)
-        .select()
-        .single()
+      // The status follows the payments ledger, so a paid installment stays paid while its payments exist
+      if (updates.payment_status && updates.payment_status !== 'paid' &&
+          derivePaymentStatus(scheme, currentMember, currentMember.paid_amount) === 'paid') {
+        throw new Error('Cannot mark this member as unpaid while their payments are recorded. Remove the payments under Record Payment first.')
+      }
 
-      if (error) {
-        console.error(`Error updating member in ${monthTable}:`, error)
-        throw new Error(`Failed to update member: ${error.message}`)
+      const updatedAt = new Date().toISOString()
+
+      const changes = { ...updates }
+      const isMarkedPaid = changes.payment_status === 'paid' && currentMember.payment_status !== 'paid'
+
+      if (isMarkedPaid) {
+        // Record when and how the member paid, unless given explicitly
+        changes.paid_at = changes.paid_at || updatedAt
+        changes.payment_mode = changes.payment_mode || 'cash'
+      } else if (changes.payment_status && changes.payment_status !== 'paid') {
+        // An unpaid installment has no payment date
+        changes.paid_at = null
+        changes.payment_mode = null
       }
 
-      return data
+      // Changing the messaging preference records when it was changed
+      if (changes.messaging_preference && changes.messaging_preference !== currentMember.messaging_preference) {
+        changes.messaging_preference_at = updatedAt
+      }
+
+      // Marking a member as paid records the outstanding balance in the payments ledger
+      if (isMarkedPaid) {
+        const balance = getOutstandingBalance(scheme, currentMember)
+        if (balance > 0) {
+          const { error } = await supabase
+            .from('payments')
+            .insert({
+              installment_id: currentMember.installment_id,
+              amount: balance,
+              paid_at: changes.paid_at,
+              mode: changes.payment_mode,
+              collector: changes.paid_to ?? currentMember.paid_to,
+              note: 'Marked as paid'
+            })
+
+          if (error) {
+            console.error(`Error recording payment for ${monthTable}:`, error)
+            throw new Error(`Failed to update member: ${error.message}`)
+          }
+        }
+      }
+
+      // Details like name, family and token live on the member record
+      const memberUpdates = pickFields(changes, MEMBER_FIELDS)
+      if (Object.keys(memberUpdates).length > 0) {
+        const { error } = await supabase
+          .from('members')
+          .update({ ...memberUpdates, updated_at: updatedAt })
+          .eq('id', memberId)
+          .eq('scheme_id', scheme.id)
+
+        if (error) {
+          console.error('Error updating member:', error)
+          throw new Error(`Failed to update member: ${error.message}`)
+        }
+      }
+
+      // Payment and draw details live on the installment of this month
+      const installmentUpdates = pickFields(changes, INSTALLMENT_FIELDS)
+      if (Object.keys(installmentUpdates).length > 0) {
+        const { error } = await supabase
+          .from('installments')
+          .update({ ...installmentUpdates, updated_at: updatedAt })
+          .eq('id', currentMember.installment_id)
+
+        if (error) {
+          console.error(`Error updating installment for ${monthTable}:`, error)
+          throw new Error(`Failed to update member: ${error.message}`)
+        }
+      }
+
+      const updatedMember = await this.getMember(scheme, monthTable, memberId)
+      if (!updatedMember) {
+        throw new Error('Member not found')
+      }
+
+      return updatedMember
     } catch (error) {
       console.error('Database error in updateMember:', error)
       throw error
@@ -165,19 +509,35 @@ export class DatabaseService {
   }
 
   /**
-   * Delete a member from the specified month table
+   * Delete a member's installment for the specified month
+   * The member record itself is removed once no installments are left
    */
-  static async deleteMember(monthTable: MonthTable, memberId: number): Promise<void> {
+  static async deleteMember(scheme: Scheme, monthTable: MonthTable, memberId: number): Promise<void> {
     try {
+      const member = await this.getMember(scheme, monthTable, memberId)
+      if (!member) {
+        throw new Error('Member not found')
+      }
+
       const { error } = await supabase
-        .from(monthTable)
+        .from('installments')
         .delete()
-        .eq('id', memberId)
+        .eq('id', member.installment_id)
 
       if (error) {
         console.error(`Error deleting member from ${monthTable}:`, error)
         throw new Error(`Failed to delete member: ${error.message}`)
       }
+
+      // Remove the member record if this was their only installment
+      const { count, error: countError } = await supabase
+        .from('installments')
+        .select('id', { count: 'exact', head: true })
+        .eq('member_id', memberId)
+
+      if (!countError && count === 0) {
+        await supabase.from('members').delete().eq('id', memberId)
+      }
     } catch (error) {
       console.error('Database error in deleteMember:', error)
       throw error
@@ -188,12 +548,12 @@ export class DatabaseService {
    * Assign sequential token numbers to all members in alphabetical order
    * Generates clean sequential numbering starting from 1 based on name sorting
    * Clears existing tokens first to ensure proper sequence
-   * Sends WhatsApp messages to all members with their assigned token numbers
+   * Token messages are queued separately through the outbox (planBulkMessages, reviewed in a dry run)
    */
-  static async assignTokenNumbers(monthTable: MonthTable): Promise<Member[]> {
+  static async assignTokenNumbers(scheme: Scheme, monthTable: MonthTable): Promise<Member[]> {
     try {
       // First, get all current members sorted alphabetically
-      const members = await this.getMembers(monthTable)
+      const members = await this.getMembers(scheme, monthTable)
 
       if (members.length === 0) {
         throw new Error('No members found to assign tokens')
@@ -202,7 +562,7 @@ export class DatabaseService {
       // Clear all existing token numbers first to ensure clean sequence
       for (const member of members) {
         if (member.token_number) {
-          await this.updateMember(monthTable, member.id, {
+          await this.updateMember(scheme, monthTable, member.id, {
             token_number: null
           })
         }
@@ -215,89 +575,169 @@ export class DatabaseService {
         const member = members[i]
         const tokenNumber = i + 1 // Sequential numbering starting from 1
 
-        const updatedMember = await this.updateMember(monthTable, member.id, {
+        const updatedMember = await this.updateMember(scheme, monthTable, member.id, {
           token_number: tokenNumber
         })
         updatedMembers.push(updatedMember)
       }
 
-                  // Send WhatsApp messages to all members with their assigned token numbers
-      try {
-        console.log(`📤 Sending token assignment messages to ${updatedMembers.length} members`)
+      return updatedMembers
+    } catch (error) {
+      console.error('Database error in assignTokenNumbers:', error)
+      throw error
+    }
+  }
 
-        // Filter members to only include those with valid token numbers
-        const membersWithTokens = updatedMembers
-          .filter(member => member.token_number !== null)
-          .map(member => ({
-            id: member.id,
-            full_name: member.full_name,
-            mobile_number: member.mobile_number,
-            token_number: member.token_number!
-          }))
+  /**
+   * Fetch the members eligible for a month's draw
+   * Excludes anyone who already won an earlier month of the scheme
+   */
+  static async getDrawEligibleMembers(scheme: Scheme, monthTable: MonthTable): Promise<Member[]> {
+    try {
+      const [members, winners] = await Promise.all([
+        this.getMembers(scheme, monthTable),
+        this.getAllWinners(scheme)
+      ])
 
-        if (membersWithTokens.length > 0) {
-          const messagingResults = await sendTokenAssignmentMessages(membersWithTokens, (current, total, memberName) => {
-            console.log(`📤 Progress: ${current}/${total} - Sending to ${memberName}`)
-          })
+      const previousWinnerIds = Object.values(winners)
+        .filter((winner): winner is Member => winner !== null)
+        .map(winner => winner.id)
 
-          console.log(`📊 Token assignment messaging completed: ${messagingResults.sent} sent, ${messagingResults.failed} failed`)
+      return getEligibleMembers(members, previousWinnerIds)
+    } catch (error) {
+      console.error('Database error in getDrawEligibleMembers:', error)
+      throw error
+    }
+  }
 
-          if (messagingResults.failed > 0) {
-            console.warn(`⚠️ ${messagingResults.failed} token assignment messages failed. Failed members:`, messagingResults.errors.map(e => e.memberName).join(', '))
+  /**
+   * Record the draw of a month before its result is shown
+   * The draw is re-run and checked against the current eligible tokens, then saved with the member holding
+   * the winning token. The unique (scheme_id, month) key allows one draw per month, so a draw can't be
+   * run again with another public value until the result suits
+   */
+  static async recordDraw(scheme: Scheme, monthTable: MonthTable, draw: DrawResult): Promise<Draw> {
+    try {
+      if (!verifyDraw(scheme.id, monthTable, draw)) {
+        throw new Error('The draw result does not match its scheme, month, date and public value')
+      }
 
-            // Store failed messages for potential retry later
-            const failedMembers = messagingResults.errors.map(e => e.memberName).join(', ')
-            console.warn(`📝 Failed members: ${failedMembers}`)
-          }
-        } else {
-          console.warn(`⚠️ No members with valid token numbers to send messages to`)
+      // The draw must cover exactly the members who are eligible right now
+      const eligibleMembers = await this.getDrawEligibleMembers(scheme, monthTable)
+      if (eligibleMembers.map(m => m.token_number).join(',') !== draw.eligible_tokens.join(',')) {
+        throw new Error('The eligible members changed since the draw was run. Please run the draw again.')
+      }
+
+      const winningMember = eligibleMembers.find(m => m.token_number === draw.winning_token)
+      if (!winningMember) {
+        throw new Error(`No member holds the winning token ${draw.winning_token}`)
+      }
+
+      const { data, error } = await supabase
+        .from('draws')
+        .insert({
+          scheme_id: scheme.id,
+          month: monthTable,
+          member_id: winningMember.id,
+          ...draw
+        })
+        .select()
+        .single()
+
+      if (error) {
+        // The month already has a draw
+        if (error.code === '23505') {
+          throw new Error(`The draw for ${formatMonthName(monthTable)} has already been run`)
         }
-      } catch (messagingError) {
-        console.error('❌ Error sending token assignment messages:', messagingError)
-        // Don't throw error here - token assignment was successful, messaging is secondary
-        // Log the error for debugging but continue with the process
+        console.error(`Error recording draw for ${monthTable}:`, error)
+        throw new Error(`Failed to record draw: ${error.message}`)
       }
 
-      return updatedMembers
+      return data
     } catch (error) {
-      console.error('Database error in assignTokenNumbers:', error)
+      console.error('Database error in recordDraw:', error)
       throw error
     }
   }
 
   /**
-   * Declare a winner for the current month
-   * Updates the member's draw_status to month-specific winner status
+   * Declare the winner of a month's recorded draw
+   * Only the draw that was recorded first is accepted, and its member must still be eligible
    * Prevents multiple winner declarations per month
    */
-  static async declareWinner(monthTable: MonthTable, memberId: number): Promise<Member> {
+  static async declareWinner(scheme: Scheme, monthTable: MonthTable, drawId: number): Promise<Member> {
     try {
       // Check if a winner already exists for this month
-      const existingWinner = await this.getCurrentWinner(monthTable)
+      const existingWinner = await this.getCurrentWinner(scheme, monthTable)
       if (existingWinner) {
         throw new Error(`A winner has already been declared for ${formatMonthName(monthTable)}`)
       }
 
+      const draw = await this.getDraw(scheme, monthTable)
+      if (!draw || draw.id !== drawId) {
+        throw new Error(`Only the draw recorded for ${formatMonthName(monthTable)} can be declared`)
+      }
+
+      if (!verifyDraw(scheme.id, monthTable, draw)) {
+        throw new Error('The draw result does not match its scheme, month, date and public value')
+      }
+
+      const eligibleMembers = await this.getDrawEligibleMembers(scheme, monthTable)
+      const member = eligibleMembers.find(m => m.id === draw.member_id)
+      if (!member || member.token_number !== draw.winning_token) {
+        throw new Error(`The member drawn with token ${draw.winning_token} is no longer eligible. Check their payment and token before declaring.`)
+      }
+
       // Update the member to be the winner with month-specific status
-      const updatedMember = await this.updateMember(monthTable, memberId, {
+      return await this.updateMember(scheme, monthTable, member.id, {
         draw_status: createWinnerDrawStatus(monthTable)
       })
-      return updatedMember
     } catch (error) {
       console.error('Database error in declareWinner:', error)
       throw error
     }
   }
 
+  /**
+   * Get the recorded draw of a month
+   * Returns null if no draw has been run
+   */
+  static async getDraw(scheme: Scheme, monthTable: MonthTable): Promise<Draw | null> {
+    try {
+      const { data, error } = await supabase
+        .from('draws')
+        .select('*')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
+        .single()
+
+      if (error) {
+        // No draw found is not an error
+        if (error.code === 'PGRST116') {
+          return null
+        }
+        console.error(`Error fetching draw for ${monthTable}:`, error)
+        throw new Error(`Failed to fetch draw: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Database error in getDraw:', error)
+      throw error
+    }
+  }
+
   /**
    * Get the current month's winner
    * Returns null if no winner has been declared
    */
-  static async getCurrentWinner(monthTable: MonthTable): Promise<Member | null> {
+  static async getCurrentWinner(scheme: Scheme, monthTable: MonthTable): Promise<Member | null> {
     try {
       const { data, error } = await supabase
-        .from(monthTable)
+        .from('member_installments')
         .select('*')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
         .eq('draw_status', createWinnerDrawStatus(monthTable))
         .single()
 
@@ -318,104 +758,265 @@ export class DatabaseService {
   }
 
   /**
-   * Proceed to the next month by copying all members from current month
-   * Maintains token numbers and other member information
-   * Updates previous winner's draw_status to 'drawn'
-   * Resets payment status to 'pending' for regular members
-   * Sets payment_status to 'no_payment_required' for previous winners only
-   * Clears paid_to information for all members in the new month
+   * Get the payments ledger of an installment
+   * Returns entries in the order they were paid
    */
-  static async proceedToNextMonth(currentMonth: MonthTable): Promise<MonthTable> {
+  static async getPayments(installmentId: number): Promise<Payment[]> {
     try {
-      // Get the next month in sequence
-      const currentIndex = MONTHS.indexOf(currentMonth)
-      if (currentIndex === -1) {
-        throw new Error('Invalid current month')
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('installment_id', installmentId)
+        .order('paid_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching payments:', error)
+        throw new Error(`Failed to fetch payments: ${error.message}`)
       }
 
-      const nextIndex = (currentIndex + 1) % MONTHS.length
-      const nextMonth = MONTHS[nextIndex]
+      return data || []
+    } catch (error) {
+      console.error('Database error in getPayments:', error)
+      throw error
+    }
+  }
 
-      // Get all members from current month
-      const currentMembers = await this.getMembers(currentMonth)
+  /**
+   * Record a payment against a member's installment for the month
+   * Partial amounts are allowed, the payment status is derived from the ledger total
+   */
+  static async recordPayment(
+    scheme: Scheme,
+    monthTable: MonthTable,
+    memberId: number,
+    payment: NewPayment
+  ): Promise<Member> {
+    try {
+      const member = await this.getMember(scheme, monthTable, memberId)
+      if (!member) {
+        throw new Error('Member not found')
+      }
 
-      if (currentMembers.length === 0) {
-        throw new Error('No members found in current month to copy')
+      if (member.payment_status === 'no_payment_required') {
+        throw new Error('Cannot record payments for members who don\'t need to pay.')
       }
 
-      // Check if next month already has data
-      const existingNextMonthMembers = await this.getMembers(nextMonth)
-      if (existingNextMonthMembers.length > 0) {
-        throw new Error('Next month already has data. Cannot proceed.')
+      if (!(payment.amount > 0)) {
+        throw new Error('Payment amount must be greater than zero')
       }
 
-      // Find current month's winner
-      const currentWinner = await this.getCurrentWinner(currentMonth)
+      const { error } = await supabase
+        .from('payments')
+        .insert({
+          installment_id: member.installment_id,
+          amount: payment.amount,
+          paid_at: payment.paid_at || new Date().toISOString(),
+          mode: payment.mode,
+          collector: payment.collector ?? null,
+          note: payment.note ?? null
+        })
 
-            // Prepare members for next month
-      const membersForNextMonth = currentMembers.map(member => {
-        // Check if this member has won in any previous month
-        // We need to check ALL previous months, not just the current one
-        const hasWonPreviously = member.draw_status === 'winner' || member.draw_status === 'drawn' ||
-                                (currentWinner && member.id === currentWinner.id)
+      if (error) {
+        console.error(`Error recording payment for ${monthTable}:`, error)
+        throw new Error(`Failed to record payment: ${error.message}`)
+      }
 
-        // Set payment status based on previous wins
-        let paymentStatus: PaymentStatus
-        let paidToValue: PaidToRecipient | null = null
+      return await this.syncPaymentStatus(scheme, monthTable, memberId)
+    } catch (error) {
+      console.error('Database error in recordPayment:', error)
+      throw error
+    }
+  }
 
-        if (hasWonPreviously) {
-          // Previous winners don't need to pay
-          paymentStatus = 'no_payment_required' as const
-          paidToValue = null // Clear paid_to for winners
-        } else {
-          // Regular members start fresh with pending payment status
-          paymentStatus = 'pending' as const
-          paidToValue = null // Clear paid_to for new month
-        }
+  /**
+   * Remove an entry from a member's payments ledger (e.g. entered by mistake)
+   * Its receipt is kept with the same number and marked cancelled with the reason
+   * The payment status is derived again from the remaining entries
+   */
+  static async deletePayment(
+    scheme: Scheme,
+    monthTable: MonthTable,
+    memberId: number,
+    paymentId: number,
+    reason: string | null = null
+  ): Promise<Member> {
+    try {
+      const member = await this.getMember(scheme, monthTable, memberId)
+      if (!member) {
+        throw new Error('Member not found')
+      }
 
-        // Determine draw status: if they won in current month, mark as 'drawn'
-        // If they won in any previous month, keep them as 'drawn'
-        let drawStatus: DrawStatus
-        if (currentWinner && member.id === currentWinner.id) {
-          drawStatus = 'drawn' as const
-        } else if (member.draw_status === 'winner' || member.draw_status === 'drawn') {
-          drawStatus = 'drawn' as const // Keep previous winner status
-        } else {
-          drawStatus = 'not_drawn' as const
-        }
+      // Without a reason the database cancels the receipt as "Payment removed"
+      if (reason) {
+        const { error: receiptError } = await supabase.rpc('cancel_receipt', {
+          target_payment_id: paymentId,
+          reason
+        })
 
-        return {
-          full_name: member.full_name,
-          mobile_number: member.mobile_number,
-          family: member.family,
-          token_number: member.token_number,
-          payment_status: paymentStatus,
-          paid_to: paidToValue, // Reset paid_to for new month
-          draw_status: drawStatus,
-          additional_information: member.additional_information
+        if (receiptError) {
+          console.error(`Error cancelling receipt of payment ${paymentId}:`, receiptError)
+          throw new Error(`Failed to cancel receipt: ${receiptError.message}`)
         }
-      })
+      }
 
-      // Insert all members to next month table
       const { error } = await supabase
-        .from(nextMonth)
-        .insert(membersForNextMonth)
-        .select()
+        .from('payments')
+        .delete()
+        .eq('id', paymentId)
+        .eq('installment_id', member.installment_id)
 
       if (error) {
-        console.error(`Error copying members to ${nextMonth}:`, error)
-        throw new Error(`Failed to copy members to next month: ${error.message}`)
+        console.error(`Error deleting payment from ${monthTable}:`, error)
+        throw new Error(`Failed to delete payment: ${error.message}`)
       }
 
-      // Update payment statuses for all previous winners in the new month
-      // This ensures that previous winners from all months get 'no_payment_required' status
-      try {
-        const { error: updateError } = await supabase.rpc('update_previous_winners_payment_status', { target_month: nextMonth })
-        if (updateError) {
-          console.warn(`Warning: Could not update previous winners payment status: ${updateError.message}`)
-        }
-      } catch (updateError) {
-        console.warn('Warning: Could not update previous winners payment status:', updateError)
+      return await this.syncPaymentStatus(scheme, monthTable, memberId)
+    } catch (error) {
+      console.error('Database error in deletePayment:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the receipts of a member's installment, issued and cancelled, in the order they were issued
+   * The receipts table is closed to the API, so receipts are read through get_receipts
+   */
+  static async getReceipts(scheme: Scheme, monthTable: MonthTable, memberId: number): Promise<Receipt[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_receipts', {
+        target_scheme_id: scheme.id,
+        target_month: monthTable,
+        target_member_id: memberId
+      })
+
+      if (error) {
+        console.error(`Error fetching receipts for ${monthTable}:`, error)
+        throw new Error(`Failed to fetch receipts: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Database error in getReceipts:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the receipts issued to each member in a month, keyed by member id
+   * Cancelled receipts are left out
+   */
+  static async getIssuedReceipts(scheme: Scheme, monthTable: MonthTable): Promise<Record<number, Receipt[]>> {
+    try {
+      const { data, error } = await supabase.rpc('get_receipts', {
+        target_scheme_id: scheme.id,
+        target_month: monthTable,
+        issued_only: true
+      })
+
+      if (error) {
+        console.error(`Error fetching receipts for ${monthTable}:`, error)
+        throw new Error(`Failed to fetch receipts: ${error.message}`)
+      }
+
+      const receipts: Record<number, Receipt[]> = {}
+      for (const receipt of (data || []) as Receipt[]) {
+        if (receipt.member_id === null) continue
+        receipts[receipt.member_id] = [...(receipts[receipt.member_id] || []), receipt]
+      }
+      return receipts
+    } catch (error) {
+      console.error('Database error in getIssuedReceipts:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update an installment's payment status to match its ledger total
+   * Returns the member with the refreshed paid amount and status
+   */
+  private static async syncPaymentStatus(scheme: Scheme, monthTable: MonthTable, memberId: number): Promise<Member> {
+    const member = await this.getMember(scheme, monthTable, memberId)
+    if (!member) {
+      throw new Error('Member not found')
+    }
+
+    const paymentStatus = derivePaymentStatus(scheme, member, member.paid_amount)
+    if (paymentStatus === member.payment_status) {
+      return member
+    }
+
+    // A fully paid installment takes the date, mode and collector of the payment that completed it
+    const payments = paymentStatus === 'paid' ? await this.getPayments(member.installment_id) : []
+    const lastPayment = payments[payments.length - 1]
+    const paymentDetails = lastPayment
+      ? { paid_at: lastPayment.paid_at, payment_mode: lastPayment.mode, paid_to: lastPayment.collector ?? member.paid_to }
+      : { paid_at: null, payment_mode: null }
+
+    const { error } = await supabase
+      .from('installments')
+      .update({ payment_status: paymentStatus, ...paymentDetails, updated_at: new Date().toISOString() })
+      .eq('id', member.installment_id)
+
+    if (error) {
+      console.error(`Error updating payment status for ${monthTable}:`, error)
+      throw new Error(`Failed to update payment status: ${error.message}`)
+    }
+
+    return { ...member, payment_status: paymentStatus, ...paymentDetails }
+  }
+
+  /**
+   * Preview how the next month will be created from the current month
+   * Uses the same server-side rules as proceedToNextMonth, so the preview matches exactly
+   */
+  static async previewNextMonth(scheme: Scheme, currentMonth: MonthTable): Promise<RolloverPreview[]> {
+    try {
+      const { data, error } = await supabase.rpc('preview_month_rollover', {
+        target_scheme_id: scheme.id,
+        current_month: currentMonth
+      })
+
+      if (error) {
+        console.error(`Error previewing rollover of ${currentMonth}:`, error)
+        throw new Error(`Failed to preview next month: ${error.message}`)
+      }
+
+      return ((data || []) as RolloverPreview[]).map(row => ({ ...row, carried_forward: Number(row.carried_forward) }))
+    } catch (error) {
+      console.error('Database error in previewNextMonth:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Proceed to the next month by creating an installment for every member of the current month
+   * Runs as a single server-side function, so either the whole month is created or nothing is:
+   * - Token numbers and other member information carry over through the members table
+   * - Previous winners are 'drawn' with payment_status 'no_payment_required'
+   * - Everyone else starts 'pending' with paid_to cleared
+   * - Any advance paid beyond this month's installment is carried into the next month's ledger
+   */
+  static async proceedToNextMonth(scheme: Scheme, currentMonth: MonthTable): Promise<MonthTable> {
+    try {
+      // Get the next month in sequence from the scheme calendar
+      if (!getSchemeMonths(scheme).includes(currentMonth)) {
+        throw new Error('Invalid current month')
+      }
+
+      const nextMonth = this.getNextMonth(scheme, currentMonth)
+      if (!nextMonth) {
+        throw new Error(`${formatMonthName(currentMonth)} is the last month of the scheme`)
+      }
+
+      const { error } = await supabase.rpc('proceed_to_next_month', {
+        target_scheme_id: scheme.id,
+        current_month: currentMonth,
+        next_month: nextMonth
+      })
+
+      if (error) {
+        console.error(`Error creating installments for ${nextMonth}:`, error)
+        throw new Error(`Failed to copy members to next month: ${error.message}`)
       }
 
       return nextMonth
@@ -426,50 +1027,111 @@ export class DatabaseService {
   }
 
   /**
-   * Get member's history across all months
-   * Returns a map of month to member data (if exists)
+   * Undo a rollover by deleting a generated month
+   * Only allowed for the latest month while no payments or winner have been recorded in it
+   * Returns the previous month to switch back to
    */
-  static async getMemberHistory(memberName: string, mobileNumber: string): Promise<Record<MonthTable, Member | null>> {
+  static async undoRollover(scheme: Scheme, monthTable: MonthTable): Promise<MonthTable> {
     try {
-      const history: Record<MonthTable, Member | null> = {} as Record<MonthTable, Member | null>
+      const months = getSchemeMonths(scheme)
+      const index = months.indexOf(monthTable)
+      if (index <= 0) {
+        throw new Error(`${formatMonthName(monthTable)} is the first month of the scheme and cannot be undone`)
+      }
 
-      // Only check months that are likely to exist to avoid 406 errors
-      // For now, only check the first few months that we know exist
-      const monthsToCheck = ['september_2025', 'october_2025', 'november_2025'] as MonthTable[]
+      const { error } = await supabase.rpc('undo_month_rollover', {
+        target_scheme_id: scheme.id,
+        target_month: monthTable,
+        following_month: this.getNextMonth(scheme, monthTable)
+      })
 
-      // Check each month for this member
-      for (const month of monthsToCheck) {
-        try {
-          const { data, error } = await supabase
-            .from(month)
-            .select('*')
-            .eq('full_name', memberName)
-            .eq('mobile_number', mobileNumber)
-            .single()
+      if (error) {
+        console.error(`Error undoing rollover of ${monthTable}:`, error)
+        throw new Error(`Failed to undo ${formatMonthName(monthTable)}: ${error.message}`)
+      }
 
-          if (error) {
-            // Member not found in this month
-            if (error.code === 'PGRST116') {
-              history[month] = null
-            } else {
-              console.error(`Error fetching member from ${month}:`, error)
-              history[month] = null
-            }
-          } else {
-            history[month] = data
-          }
-        } catch (err) {
-          // Handle any other errors by setting to null
-          console.warn(`Skipping month ${month} due to error:`, err)
-          history[month] = null
-        }
+      return months[index - 1]
+    } catch (error) {
+      console.error('Database error in undoRollover:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark every pending installment of a month as overdue
+   * Returns the number of installments that were changed
+   */
+  static async markPendingAsOverdue(scheme: Scheme, monthTable: MonthTable): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('mark_pending_overdue', {
+        target_scheme_id: scheme.id,
+        target_month: monthTable
+      })
+
+      if (error) {
+        console.error(`Error marking pending installments of ${monthTable} overdue:`, error)
+        throw new Error(`Failed to mark pending payments overdue: ${error.message}`)
       }
 
-      // Set all other months to null since they don't exist yet
-      for (const month of MONTHS) {
-        if (!monthsToCheck.includes(month)) {
-          history[month] = null
-        }
+      return data ?? 0
+    } catch (error) {
+      console.error('Database error in markPendingAsOverdue:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Change the messaging preference of members directly, e.g. when they reply STOP on WhatsApp
+   * Applies to the members in every month, since the preference is kept on the member record
+   */
+  static async setMessagingPreference(memberIds: number[], preference: MessagingPreference, reason: string | null): Promise<void> {
+    try {
+      const now = new Date().toISOString()
+      const { error } = await supabase
+        .from('members')
+        .update({
+          messaging_preference: preference,
+          messaging_preference_reason: reason,
+          messaging_preference_at: now,
+          updated_at: now
+        })
+        .in('id', memberIds)
+
+      if (error) {
+        console.error('Error updating messaging preference:', error)
+        throw new Error(`Failed to update messaging preference: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Database error in setMessagingPreference:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get member's history across all months
+   * Returns a map of month to member data (if exists)
+   * Installments are linked to the member record, so this is a single query
+   */
+  static async getMemberHistory(scheme: Scheme, memberId: number): Promise<Record<MonthTable, Member | null>> {
+    try {
+      const { data, error } = await supabase
+        .from('member_installments')
+        .select('*')
+        .eq('scheme_id', scheme.id)
+        .eq('id', memberId)
+
+      if (error) {
+        console.error('Error fetching member history:', error)
+        throw new Error(`Failed to fetch member history: ${error.message}`)
+      }
+
+      // Start with every month of the calendar empty and fill in the installments found
+      const history = Object.fromEntries(
+        getSchemeMonths(scheme).map(month => [month, null])
+      ) as Record<MonthTable, Member | null>
+
+      for (const row of (data || []) as Member[]) {
+        history[row.month] = row
       }
 
       return history
@@ -480,32 +1142,151 @@ export class DatabaseService {
   }
 
   /**
-   * Check if a month is the starting month (September)
+   * Check if a month is the starting month of the scheme calendar
    * Used to determine if Add Member and Assign Tokens should be available
    */
-  static isStartingMonth(monthTable: MonthTable): boolean {
-    return monthTable === 'september_2025'
+  static isStartingMonth(scheme: Scheme, monthTable: MonthTable): boolean {
+    return monthTable === getSchemeMonths(scheme)[0]
   }
 
   /**
-   * Get the next month in sequence
+   * Get the next month in sequence from the scheme calendar
    * Returns null if current month is the last month
    */
-  static getNextMonth(currentMonth: MonthTable): MonthTable | null {
-    const currentIndex = MONTHS.indexOf(currentMonth)
-    if (currentIndex === -1 || currentIndex === MONTHS.length - 1) {
+  static getNextMonth(scheme: Scheme, currentMonth: MonthTable): MonthTable | null {
+    const months = getSchemeMonths(scheme)
+    const currentIndex = months.indexOf(currentMonth)
+    if (currentIndex === -1 || currentIndex === months.length - 1) {
       return null
     }
-    return MONTHS[currentIndex + 1]
+    return months[currentIndex + 1]
+  }
+
+  /**
+   * Fetch the WhatsApp messages sent to a member, newest first
+   */
+  static async getMemberMessages(scheme: Scheme, memberId: number): Promise<MessageLogEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('message_log')
+        .select('*')
+        .eq('scheme_id', scheme.id)
+        .eq('member_id', memberId)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error(`Error fetching messages of member ${memberId}:`, error)
+        throw new Error(`Failed to fetch messages: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Database error in getMemberMessages:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch the message log of a month, newest first
+   */
+  static async getMessageLog(scheme: Scheme, monthTable: MonthTable): Promise<MessageLogEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('message_log')
+        .select('*')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error(`Error fetching message log for ${monthTable}:`, error)
+        throw new Error(`Failed to fetch message log: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Database error in getMessageLog:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch the edited message templates
+   * Returns an empty list (all defaults) if the templates table has not been created yet
+   */
+  static async getMessageTemplates(): Promise<MessageTemplateText[]> {
+    try {
+      const { data, error } = await supabase
+        .from('message_templates')
+        .select('*')
+
+      if (error) {
+        console.error('Error fetching message templates:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Database error in getMessageTemplates:', error)
+      return []
+    }
+  }
+
+  /**
+   * Save the edited text of a message template
+   */
+  static async saveMessageTemplate(key: MessageTemplateKey, english: string, telugu: string): Promise<MessageTemplateText> {
+    try {
+      const { data, error } = await supabase
+        .from('message_templates')
+        .upsert({
+          key,
+          english,
+          telugu,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'key' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error(`Error saving message template ${key}:`, error)
+        throw new Error(`Failed to save template: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Database error in saveMessageTemplate:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Remove the edited text of a message template so the default is used again
+   */
+  static async resetMessageTemplate(key: MessageTemplateKey): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('message_templates')
+        .delete()
+        .eq('key', key)
+
+      if (error) {
+        console.error(`Error resetting message template ${key}:`, error)
+        throw new Error(`Failed to reset template: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Database error in resetMessageTemplate:', error)
+      throw error
+    }
   }
 
   /**
    * Get statistics for a specific month
    * Returns counts for different statuses
    */
-  static async getMonthStats(monthTable: MonthTable) {
+  static async getMonthStats(scheme: Scheme, monthTable: MonthTable) {
     try {
-      const members = await this.getMembers(monthTable)
+      const members = await this.getMembers(scheme, monthTable)
 
       const stats = {
         totalMembers: members.length,
@@ -528,11 +1309,13 @@ export class DatabaseService {
    * Get all existing family names in a month (excluding 'Individual')
    * Used for providing suggestions in the UI
    */
-  static async getExistingFamilyNames(monthTable: MonthTable): Promise<string[]> {
+  static async getExistingFamilyNames(scheme: Scheme, monthTable: MonthTable): Promise<string[]> {
     try {
       const { data, error } = await supabase
-        .from(monthTable)
+        .from('member_installments')
         .select('family')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
         .not('family', 'eq', 'Individual')
         .not('family', 'is', null)
 
@@ -553,45 +1336,30 @@ export class DatabaseService {
   /**
    * Get all winners across all months
    * Returns a map of month to winner information
+   * Fetches every winner installment of the scheme in a single query
    */
-  static async getAllWinners(): Promise<Record<MonthTable, Member | null>> {
+  static async getAllWinners(scheme: Scheme): Promise<Record<MonthTable, Member | null>> {
     try {
-      const winners: Record<MonthTable, Member | null> = {} as Record<MonthTable, Member | null>
-
-      // Only check months that are likely to exist to avoid 406 errors
-      // For now, only check the first few months that we know exist
-      const monthsToCheck = ['september_2025', 'october_2025', 'november_2025'] as MonthTable[]
-
-      // Check each month for a winner
-      for (const month of monthsToCheck) {
-        try {
-          const { data, error } = await supabase
-            .from(month)
-            .select('*')
-            .eq('draw_status', createWinnerDrawStatus(month))
-            .single()
+      const { data, error } = await supabase
+        .from('member_installments')
+        .select('*')
+        .eq('scheme_id', scheme.id)
+        .like('draw_status', 'winner_%')
 
-          if (error) {
-            // No winner found in this month
-            if (error.code === 'PGRST116') {
-              winners[month] = null
-            } else {
-              console.error(`Error fetching winner from ${month}:`, error)
-              winners[month] = null
-            }
-          } else {
-            winners[month] = data
-          }
-        } catch {
-          // Handle any other errors by setting to null
-          winners[month] = null
-        }
+      if (error) {
+        console.error('Error fetching winners:', error)
+        throw new Error(`Failed to fetch winners: ${error.message}`)
       }
 
-      // Set all other months to null since they don't exist yet
-      for (const month of MONTHS) {
-        if (!monthsToCheck.includes(month)) {
-          winners[month] = null
+      // Start with every month of the calendar empty and fill in the winners found
+      const winners = Object.fromEntries(
+        getSchemeMonths(scheme).map(month => [month, null])
+      ) as Record<MonthTable, Member | null>
+
+      for (const row of (data || []) as Member[]) {
+        // Only the installment of the month they won counts as that month's winner
+        if (row.draw_status === createWinnerDrawStatus(row.month)) {
+          winners[row.month] = row
         }
       }
 
@@ -606,9 +1374,9 @@ export class DatabaseService {
    * Check if a month already has a winner declared
    * Used to determine if declare winner button should be shown
    */
-  static async hasWinner(monthTable: MonthTable): Promise<boolean> {
+  static async hasWinner(scheme: Scheme, monthTable: MonthTable): Promise<boolean> {
     try {
-      const winner = await this.getCurrentWinner(monthTable)
+      const winner = await this.getCurrentWinner(scheme, monthTable)
       return winner !== null
     } catch (error) {
       console.error('Database error in hasWinner:', error)
@@ -0,0 +1,91 @@
+/**
+ * Delivery Receipts
+ * The WhatsApp backend calls the status webhook when a sent message reaches the phone, is read or fails
+ * The status is stored on the message log entry with the backend's messageId
+ * Statuses that arrive before the entry is logged are kept by the database and applied when it is
+ */
+
+import { supabase, DeliveryStatus, DELIVERY_STATUS_LABELS, MessageLogEntry, MessageTemplate, MonthTable, Scheme } from './supabase'
+
+// Status update as posted to the webhook by the WhatsApp backend
+export interface DeliveryUpdate {
+  messageId: string
+  status: DeliveryStatus
+  timestamp?: string | null
+}
+
+/**
+ * Check whether a value is a delivery status the backend can report
+ */
+export function isDeliveryStatus(value: unknown): value is DeliveryStatus {
+  return typeof value === 'string' && value in DELIVERY_STATUS_LABELS
+}
+
+/**
+ * Delivery Service
+ * Records delivery receipts and looks up how far members' messages got
+ */
+export class DeliveryService {
+  /**
+   * Store a status reported by the backend
+   * Callbacks may arrive out of order, so a message that was read never goes back to delivered
+   * Returns the number of log entries that changed, 0 for outdated callbacks and messages that aren't logged yet
+   */
+  static async updateStatus(update: DeliveryUpdate): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('record_delivery_status', {
+        target_message_id: update.messageId,
+        new_status: update.status,
+        status_at: update.timestamp ?? new Date().toISOString()
+      })
+
+      if (error) {
+        console.error(`Error updating delivery status of ${update.messageId}:`, error)
+        throw new Error(`Failed to update delivery status: ${error.message}`)
+      }
+
+      return (data as number | null) ?? 0
+    } catch (error) {
+      console.error('Delivery error in updateStatus:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the latest message of a template that was sent to each member in a month
+   * Keyed by member id, members who were never sent one are missing
+   */
+  static async getLatestDeliveries(
+    scheme: Scheme,
+    monthTable: MonthTable,
+    template: MessageTemplate
+  ): Promise<Record<number, MessageLogEntry>> {
+    try {
+      const { data, error } = await supabase
+        .from('message_log')
+        .select('*')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
+        .eq('template', template)
+        .eq('success', true)
+        .not('member_id', 'is', null)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error(`Error fetching deliveries for ${monthTable}:`, error)
+        throw new Error(`Failed to fetch deliveries: ${error.message}`)
+      }
+
+      const latest: Record<number, MessageLogEntry> = {}
+      for (const entry of (data || []) as MessageLogEntry[]) {
+        if (entry.member_id !== null && !latest[entry.member_id]) {
+          latest[entry.member_id] = entry
+        }
+      }
+      return latest
+    } catch (error) {
+      console.error('Delivery error in getLatestDeliveries:', error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { createDrawSeed, runDraw, sha256Hex, verifyDraw } from './draw-engine'
+
+describe('sha256Hex', () => {
+  it('matches sha256sum', () => {
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855')
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+
+  it('hashes messages longer than one block and non-ASCII text', () => {
+    expect(sha256Hex('a'.repeat(100))).toBe('2816597888e4a0d3a36b82b83316ab32680eb8f00f8cd3b904d681246d285a0e')
+    expect(sha256Hex('₹')).toBe('d8c3e87cd7f5b7d388f9dc1e35ccee09640ef3dca63d449d9ef59fc323a87a20')
+  })
+})
+
+describe('runDraw', () => {
+  it('draws the same token from the same inputs', () => {
+    const first = runDraw(2, 'october_2026', '2026-10-11', '48213', [5, 1, 9, 3])
+    const second = runDraw(2, 'october_2026', '2026-10-11', '48213', [9, 3, 5, 1])
+
+    expect(second).toEqual(first)
+    expect(first.seed).toBe('2:october_2026:2026-10-11:48213')
+    expect(first.seed_hash).toBe(sha256Hex(first.seed))
+    expect(first.eligible_tokens).toEqual([1, 3, 5, 9])
+  })
+
+  it('takes the winner from the seed hash modulo the number of tokens', () => {
+    const draw = runDraw(1, 'november_2026', '2026-11-11', ' 777 ', [10, 20, 30])
+    const index = parseInt(draw.seed_hash.slice(0, 13), 16) % 3
+
+    expect(draw.public_value).toBe('777')
+    expect(draw.winning_token).toBe([10, 20, 30][index])
+  })
+
+  it('refuses to draw without eligible tokens', () => {
+    expect(() => runDraw(1, 'october_2026', '2026-10-11', '1', [])).toThrow('no eligible tokens')
+  })
+})
+
+describe('verifyDraw', () => {
+  const draw = runDraw(2, 'october_2026', '2026-10-11', '48213', [1, 3, 5, 9, 12])
+
+  it('accepts a recorded draw', () => {
+    expect(verifyDraw(2, 'october_2026', draw)).toBe(true)
+  })
+
+  it('rejects a draw of another scheme or month', () => {
+    expect(verifyDraw(3, 'october_2026', draw)).toBe(false)
+    expect(verifyDraw(2, 'november_2026', draw)).toBe(false)
+  })
+
+  it('rejects a seed that was not built from the draw inputs, even with a matching hash', () => {
+    const seed = createDrawSeed(2, 'october_2026', '2026-10-11', '99999')
+    expect(verifyDraw(2, 'october_2026', { ...draw, seed, seed_hash: sha256Hex(seed) })).toBe(false)
+  })
+
+  it('rejects a changed hash, winner or token list', () => {
+    expect(verifyDraw(2, 'october_2026', { ...draw, seed_hash: sha256Hex('other') })).toBe(false)
+    expect(verifyDraw(2, 'october_2026', { ...draw, winning_token: draw.winning_token === 1 ? 3 : 1 })).toBe(false)
+    expect(verifyDraw(2, 'october_2026', { ...draw, eligible_tokens: [] })).toBe(false)
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Draw Engine
+ * Picks the monthly winner from the eligible tokens using a recorded seed
+ * The seed is built from the scheme, month, draw date and a public value announced at the shop,
+ * so anyone can re-run the draw with the same inputs and get the same winning token
+ */
+
+import { Member, MonthTable, isWinnerStatus } from './supabase'
+
+/**
+ * Inputs and outcome of a draw, as stored in the draws table
+ */
+export interface DrawResult {
+  seed: string
+  public_value: string
+  draw_date: string // "YYYY-MM-DD"
+  seed_hash: string // SHA-256 of the seed in hex
+  eligible_tokens: number[] // Sorted ascending, the order the index is taken from
+  winning_token: number
+}
+
+/**
+ * Recorded draw of a month, including the member it selected
+ */
+export interface Draw extends DrawResult {
+  id: number
+  scheme_id: number
+  month: MonthTable
+  member_id: number
+  created_at: string
+}
+
+/**
+ * SHA-256 round constants
+ */
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]
+
+/**
+ * SHA-256 of a UTF-8 string as lowercase hex
+ * Implemented here because Web Crypto is unavailable when the app is opened over plain http on the shop network
+ * The output matches `echo -n "<seed>" | sha256sum`
+ */
+export const sha256Hex = (message: string): string => {
+  const bytes = Array.from(new TextEncoder().encode(message))
+  const bitLength = bytes.length * 8
+
+  // Padding: a single 1 bit, zeros, then the 64-bit message length
+  bytes.push(0x80)
+  while (bytes.length % 64 !== 56) bytes.push(0)
+  for (let shift = 56; shift >= 0; shift -= 8) {
+    bytes.push(shift >= 32 ? Math.floor(bitLength / 2 ** shift) & 0xff : (bitLength >>> shift) & 0xff)
+  }
+
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n))
+  const w = new Array<number>(64)
+
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4
+      w[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3]
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3)
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10)
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0
+      h = g
+      g = f
+      f = e
+      e = (d + t1) | 0
+      d = c
+      c = b
+      b = a
+      a = (t1 + t2) | 0
+    }
+
+    hash[0] = (hash[0] + a) | 0
+    hash[1] = (hash[1] + b) | 0
+    hash[2] = (hash[2] + c) | 0
+    hash[3] = (hash[3] + d) | 0
+    hash[4] = (hash[4] + e) | 0
+    hash[5] = (hash[5] + f) | 0
+    hash[6] = (hash[6] + g) | 0
+    hash[7] = (hash[7] + h) | 0
+  }
+
+  return hash.map(word => (word >>> 0).toString(16).padStart(8, '0')).join('')
+}
+
+/**
+ * Members who can win this month's draw
+ * Paid this month, holding a token and not already a winner (this month or any earlier one)
+ */
+export const getEligibleMembers = (members: Member[], previousWinnerIds: number[] = []): Member[] => {
+  return members
+    .filter(member =>
+      member.payment_status === 'paid' &&
+      member.token_number !== null &&
+      !isWinnerStatus(member.draw_status) &&
+      !previousWinnerIds.includes(member.id)
+    )
+    .sort((a, b) => (a.token_number ?? 0) - (b.token_number ?? 0))
+}
+
+/**
+ * Build the seed string of a draw
+ * e.g. "2:october_2026:2026-10-19:48213"
+ */
+export const createDrawSeed = (schemeId: number, month: MonthTable, drawDate: string, publicValue: string): string => {
+  return `${schemeId}:${month}:${drawDate}:${publicValue.trim()}`
+}
+
+/**
+ * Run the draw over the eligible tokens
+ * The winning index is the first 13 hex digits of the seed hash (52 bits, exact in a JS number)
+ * modulo the number of eligible tokens, taken from the tokens sorted ascending
+ */
+export const runDraw = (
+  schemeId: number,
+  month: MonthTable,
+  drawDate: string,
+  publicValue: string,
+  eligibleTokens: number[]
+): DrawResult => {
+  if (eligibleTokens.length === 0) {
+    throw new Error('There are no eligible tokens to draw from')
+  }
+
+  const tokens = [...eligibleTokens].sort((a, b) => a - b)
+  const seed = createDrawSeed(schemeId, month, drawDate, publicValue)
+  const seedHash = sha256Hex(seed)
+  const index = parseInt(seedHash.slice(0, 13), 16) % tokens.length
+
+  return {
+    seed,
+    public_value: publicValue.trim(),
+    draw_date: drawDate,
+    seed_hash: seedHash,
+    eligible_tokens: tokens,
+    winning_token: tokens[index]
+  }
+}
+
+/**
+ * Re-run a recorded draw and check it selects the same token
+ * The seed is rebuilt from the scheme, month, draw date and public value, so a draw with any other seed fails
+ */
+export const verifyDraw = (schemeId: number, month: MonthTable, draw: DrawResult): boolean => {
+  if (draw.seed !== createDrawSeed(schemeId, month, draw.draw_date, draw.public_value)) return false
+
+  const seedHash = sha256Hex(draw.seed)
+  if (seedHash !== draw.seed_hash || draw.eligible_tokens.length === 0) return false
+
+  const tokens = [...draw.eligible_tokens].sort((a, b) => a - b)
+  return tokens[parseInt(seedHash.slice(0, 13), 16) % tokens.length] === draw.winning_token
+}
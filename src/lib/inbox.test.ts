@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { parseInboxKeyword } from './inbox'
+
+describe('parseInboxKeyword', () => {
+  it('reads the keyword from the first word in any case', () => {
+    expect(parseInboxKeyword('token')).toBe('token')
+    expect(parseInboxKeyword('  Token?')).toBe('token')
+    expect(parseInboxKeyword('BALANCE please')).toBe('balance')
+    expect(parseInboxKeyword('Status.')).toBe('status')
+    expect(parseInboxKeyword('STOP')).toBe('stop')
+  })
+
+  it('leaves ordinary messages for the inbox', () => {
+    expect(parseInboxKeyword('What is my token number?')).toBeNull()
+    expect(parseInboxKeyword('Please stop sending reminders')).toBeNull()
+    expect(parseInboxKeyword('')).toBeNull()
+    expect(parseInboxKeyword('🙏')).toBeNull()
+  })
+})
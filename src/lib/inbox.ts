@@ -0,0 +1,332 @@
+/**
+ * WhatsApp Inbox
+ * Messages members send to the shop number arrive through the WhatsApp backend's webhook
+ * TOKEN, STATUS and BALANCE are answered automatically, STOP opts the sender out of all messages
+ * Everything else waits in the inbox on the dashboard
+ */
+
+import { supabase, Member, Scheme, formatAmount, formatMonthName, getSchemeMonths, getOutstandingBalance, getLateFee } from './supabase'
+import { getCurrentSchemeMonth } from './scheme-calendar'
+import { DatabaseService } from './database'
+import { formatPhoneNumber, sendWhatsAppMessage } from './whatsapp'
+import { formatTokenDisplay } from './utils'
+
+export type InboxKeyword = 'token' | 'status' | 'balance' | 'stop'
+export type InboxStatus = 'open' | 'done' | 'auto_replied'
+
+// One message received from a member (or an unknown number)
+export interface InboundMessage {
+  id: number
+  message_id: string | null
+  from_number: string // Formatted with formatPhoneNumber
+  body: string
+  member_ids: number[] // Members with the sender's number, empty for unknown senders
+  keyword: InboxKeyword | null
+  reply: string | null
+  status: InboxStatus
+  received_at: string
+  handled_at: string | null
+}
+
+// Message as posted to the webhook by the WhatsApp backend
+export interface IncomingWebhookMessage {
+  from: string
+  body: string
+  messageId?: string | null
+  timestamp?: string | null
+}
+
+// Member a message was matched to, for display in the inbox
+export interface InboxSender {
+  id: number
+  full_name: string
+  scheme_id: number
+}
+
+/**
+ * Words a member can send to get an automatic answer
+ */
+export const INBOX_KEYWORDS: Record<InboxKeyword, string> = {
+  token: 'Token number',
+  status: "This month's payment status",
+  balance: 'Amount still due this month',
+  stop: 'Stop all messages'
+}
+
+/**
+ * Confirmation sent to a member who replied STOP
+ */
+const STOP_REPLY = 'You will not receive any more messages from us. Please contact the shop to start them again.'
+
+/**
+ * Postgres error code of a unique key violation
+ */
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Find the keyword query in a message, e.g. "token", "Token?" or "BALANCE please"
+ * Only the first word counts, so ordinary sentences that mention a keyword still reach the inbox
+ */
+export function parseInboxKeyword(body: string): InboxKeyword | null {
+  const firstWord = body.trim().split(/\s+/)[0]?.toLowerCase().replace(/[^a-z]/g, '')
+  return firstWord && firstWord in INBOX_KEYWORDS ? firstWord as InboxKeyword : null
+}
+
+/**
+ * Answer of a keyword query for one member's current month
+ */
+function describeMember(keyword: Exclude<InboxKeyword, 'stop'>, member: Member, scheme: Scheme): string {
+  const month = formatMonthName(member.month)
+
+  if (keyword === 'token') {
+    return member.token_number
+      ? `${member.full_name}: token ${formatTokenDisplay(member.token_number)} (${scheme.name})`
+      : `${member.full_name}: no token assigned yet (${scheme.name})`
+  }
+
+  if (keyword === 'status') {
+    return `${member.full_name}: ${month} payment is ${member.payment_status.replace(/_/g, ' ').toUpperCase()}`
+  }
+
+  const balance = getOutstandingBalance(scheme, member)
+  const lateFee = getLateFee(scheme, member)
+  if (balance === 0) {
+    return `${member.full_name}: nothing due for ${month}`
+  }
+  return `${member.full_name}: ${formatAmount(balance)} due for ${month}` +
+    (lateFee > 0 ? ` + ${formatAmount(lateFee)} late fee` : '')
+}
+
+/**
+ * Inbox Service
+ * Stores inbound messages, answers keyword queries and lets the admin work through the rest
+ */
+export class InboxService {
+  /**
+   * Handle a message from the webhook
+   * Returns null when the backend delivers a message that was already received
+   */
+  static async receive(incoming: IncomingWebhookMessage): Promise<InboundMessage | null> {
+    try {
+      const fromNumber = formatPhoneNumber(incoming.from)
+      const members = await this.findMembers(fromNumber)
+      const keyword = parseInboxKeyword(incoming.body)
+
+      const { data: message, error } = await supabase
+        .from('inbound_messages')
+        .insert({
+          message_id: incoming.messageId ?? null,
+          from_number: fromNumber,
+          body: incoming.body,
+          member_ids: members.map(({ member }) => member.id),
+          keyword,
+          received_at: incoming.timestamp ?? new Date().toISOString()
+        })
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === UNIQUE_VIOLATION) {
+          return null
+        }
+        console.error('Error storing inbound message:', error)
+        throw new Error(`Failed to store inbound message: ${error.message}`)
+      }
+
+      console.log(`📥 Message from ${fromNumber}${members.length > 0 ? ` (${members.map(({ member }) => member.full_name).join(', ')})` : ''}`)
+
+      // Only known senders get an automatic answer, others are looked at by hand
+      if (!keyword || members.length === 0) {
+        return message
+      }
+
+      if (keyword === 'stop') {
+        await DatabaseService.setMessagingPreference(
+          members.map(({ member }) => member.id),
+          'none',
+          'Replied STOP on WhatsApp'
+        )
+      }
+
+      return this.autoReply(message, keyword, members)
+    } catch (error) {
+      console.error('Inbox error in receive:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the inbox, newest first
+   * Only the messages still waiting for the admin unless includeHandled is set
+   */
+  static async getMessages(includeHandled: boolean = false, limit: number = 100): Promise<InboundMessage[]> {
+    try {
+      let query = supabase
+        .from('inbound_messages')
+        .select('*')
+        .order('received_at', { ascending: false })
+        .limit(limit)
+
+      if (!includeHandled) {
+        query = query.eq('status', 'open')
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching inbox:', error)
+        throw new Error(`Failed to fetch inbox: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Inbox error in getMessages:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Count the messages waiting for the admin
+   * Returns 0 when the inbox is not available
+   */
+  static async getOpenCount(): Promise<number> {
+    try {
+      const { count, error } = await supabase
+        .from('inbound_messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'open')
+
+      if (error) {
+        console.error('Error counting inbox messages:', error)
+        return 0
+      }
+
+      return count ?? 0
+    } catch (error) {
+      console.error('Inbox error in getOpenCount:', error)
+      return 0
+    }
+  }
+
+  /**
+   * Mark a message as handled, or open it again
+   */
+  static async setDone(messageId: number, done: boolean): Promise<InboundMessage> {
+    try {
+      const { data, error } = await supabase
+        .from('inbound_messages')
+        .update({
+          status: done ? 'done' : 'open',
+          handled_at: done ? new Date().toISOString() : null
+        })
+        .eq('id', messageId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error(`Error updating inbox message ${messageId}:`, error)
+        throw new Error(`Failed to update inbox message: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Inbox error in setDone:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the names of the members the messages were matched to
+   */
+  static async getSenders(messages: InboundMessage[]): Promise<Record<number, InboxSender>> {
+    const memberIds = Array.from(new Set(messages.flatMap(message => message.member_ids)))
+    if (memberIds.length === 0) {
+      return {}
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('members')
+        .select('id, full_name, scheme_id')
+        .in('id', memberIds)
+
+      if (error) {
+        console.error('Error fetching inbox senders:', error)
+        throw new Error(`Failed to fetch senders: ${error.message}`)
+      }
+
+      return Object.fromEntries((data || []).map(sender => [sender.id, sender]))
+    } catch (error) {
+      console.error('Inbox error in getSenders:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find the members with a number in the current month of their scheme
+   * Numbers are compared after formatPhoneNumber, since members are saved with and without the 91 prefix
+   */
+  private static async findMembers(fromNumber: string): Promise<{ member: Member; scheme: Scheme }[]> {
+    const { data, error } = await supabase
+      .from('members')
+      .select('id, scheme_id, mobile_number')
+      .like('mobile_number', `%${fromNumber.slice(-10)}`)
+
+    if (error) {
+      console.error(`Error matching sender ${fromNumber}:`, error)
+      throw new Error(`Failed to match sender: ${error.message}`)
+    }
+
+    const schemes = await DatabaseService.getSchemes()
+    const matches: { member: Member; scheme: Scheme }[] = []
+
+    for (const row of (data || []).filter(row => formatPhoneNumber(row.mobile_number) === fromNumber)) {
+      const scheme = schemes.find(s => s.id === row.scheme_id)
+      if (!scheme) continue
+
+      const member = await DatabaseService.getMember(scheme, getCurrentSchemeMonth(getSchemeMonths(scheme)), row.id)
+      if (member) matches.push({ member, scheme })
+    }
+
+    return matches
+  }
+
+  /**
+   * Answer a keyword query with the details of every member on the number, or confirm a STOP
+   * A failed send leaves the message open in the inbox
+   */
+  private static async autoReply(
+    message: InboundMessage,
+    keyword: InboxKeyword,
+    members: { member: Member; scheme: Scheme }[]
+  ): Promise<InboundMessage> {
+    const reply = keyword === 'stop'
+      ? STOP_REPLY
+      : members.map(({ member, scheme }) => describeMember(keyword, member, scheme)).join('\n')
+    const [first] = members
+
+    const result = await sendWhatsAppMessage(message.from_number, reply, {
+      template: 'auto_reply',
+      memberId: first.member.id,
+      recipientName: members.map(({ member }) => member.full_name).join(', '),
+      schemeId: first.scheme.id,
+      month: first.member.month
+    })
+
+    const { data, error } = await supabase
+      .from('inbound_messages')
+      .update(result.success
+        ? { reply, status: 'auto_replied', handled_at: new Date().toISOString() }
+        : { reply })
+      .eq('id', message.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error(`Error saving reply of inbox message ${message.id}:`, error)
+      throw new Error(`Failed to save automatic reply: ${error.message}`)
+    }
+
+    return data
+  }
+}
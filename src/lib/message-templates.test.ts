@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { BILINGUAL_SEPARATOR, DEFAULT_MESSAGE_TEMPLATES, renderMessage, renderTemplate } from './message-templates'
+import { generateTokenAssignmentMessage } from './whatsapp'
+
+describe('renderTemplate', () => {
+  it('replaces placeholders with their values', () => {
+    expect(renderTemplate('Dear {name}, please pay {amount}', { name: 'Ravi', amount: '₹2,000' }))
+      .toBe('Dear Ravi, please pay ₹2,000')
+  })
+
+  it('leaves out lines whose placeholders are empty', () => {
+    expect(renderTemplate('*Paid:* {paid}\n*Balance:* {balance}\nThanks', { paid: '₹2,000', balance: '' }))
+      .toBe('*Paid:* ₹2,000\nThanks')
+  })
+
+  it('keeps unknown and missing placeholders as typed', () => {
+    expect(renderTemplate('Hi {name} {nickname}', {})).toBe('Hi {name} {nickname}')
+  })
+})
+
+describe('renderMessage', () => {
+  const template = { english: 'Hello {name}', telugu: 'నమస్తే {name}' }
+
+  it('sends both languages with a separator by default', () => {
+    expect(renderMessage('reminder', { name: 'Ravi' }, 'both', template))
+      .toBe(`Hello Ravi\n\n${BILINGUAL_SEPARATOR}\n\nనమస్తే Ravi`)
+  })
+
+  it('sends only the preferred language', () => {
+    expect(renderMessage('reminder', { name: 'Ravi' }, 'en', template)).toBe('Hello Ravi')
+    expect(renderMessage('reminder', { name: 'Ravi' }, 'te', template)).toBe('నమస్తే Ravi')
+  })
+
+  it('falls back to English for templates without Telugu text', () => {
+    const englishOnly = { english: 'Hello {name}', telugu: '' }
+    expect(renderMessage('receipt', { name: 'Ravi' }, 'te', englishOnly)).toBe('Hello Ravi')
+    expect(renderMessage('receipt', { name: 'Ravi' }, 'both', englishOnly)).toBe('Hello Ravi')
+  })
+
+  it('has a Telugu text for every default template', () => {
+    for (const [key, template] of Object.entries(DEFAULT_MESSAGE_TEMPLATES)) {
+      expect(template.telugu, key).not.toBe('')
+    }
+  })
+
+  it('gives the Telugu overdue reminder and receipt the same details as the English', () => {
+    const placeholders = (text: string) => [...new Set(text.match(/\{\w+\}/g))].sort()
+    for (const key of ['overdue_reminder', 'receipt'] as const) {
+      const template = DEFAULT_MESSAGE_TEMPLATES[key]
+      expect(placeholders(template.telugu), key).toEqual(placeholders(template.english))
+    }
+  })
+
+  it('fills the deadline into the reminder instead of a fixed day', () => {
+    const message = renderMessage('reminder', { name: 'Ravi', amount: '₹2,000', deadline: '12th October' }, 'en')
+    expect(message).toContain('on or before *12th October*')
+    expect(message).not.toContain('10th')
+  })
+})
+
+describe('generateTokenAssignmentMessage', () => {
+  it('shows the plain token number, as before templates were editable', () => {
+    const message = generateTokenAssignmentMessage('Ravi', 7, 20, 'en')
+    expect(message).toContain('Your scheme token number is *7*.')
+    expect(message).toContain('*20 months*')
+  })
+})
@@ -0,0 +1,328 @@
+/**
+ * WhatsApp Message Templates
+ * Default texts of the WhatsApp messages, the edited copies stored in the database
+ * and the {placeholder} rendering shared by all message generators
+ */
+
+import { MessageLanguage, MessageTemplateKey, MessageTemplateText } from './supabase'
+import { DatabaseService } from './database'
+
+/**
+ * Placeholders that can be used in a template, e.g. "Dear {name}"
+ */
+export type TemplatePlaceholder =
+  | 'name'
+  | 'token'
+  | 'amount'
+  | 'month'
+  | 'deadline'
+  | 'scheme'
+  | 'duration'
+  | 'family'
+  | 'mobile'
+  | 'paid'
+  | 'balance'
+  | 'late_fee'
+  | 'total'
+  | 'status'
+  | 'paid_to'
+  | 'mode'
+  | 'paid_on'
+  | 'receipt_no'
+  | 'verify_link'
+  | 'today'
+
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string>>
+
+/**
+ * What each placeholder is replaced with, shown in the template editor
+ */
+export const TEMPLATE_PLACEHOLDERS: Record<TemplatePlaceholder, string> = {
+  name: 'Member name',
+  token: 'Token number, e.g. #07 (just 7 in the token number message)',
+  amount: 'Installment amount (amount still due in reminders)',
+  month: 'Month name',
+  deadline: 'Payment deadline',
+  scheme: 'Scheme name',
+  duration: 'Scheme duration in months',
+  family: 'Family',
+  mobile: 'Mobile number',
+  paid: 'Amount paid this month',
+  balance: 'Balance still due',
+  late_fee: 'Late fee of an overdue installment (empty when there is none)',
+  total: 'Amount plus late fee (empty when there is no late fee)',
+  status: 'Payment status',
+  paid_to: 'Collector who received the payment',
+  mode: 'Payment mode',
+  paid_on: 'Payment date',
+  receipt_no: 'Receipt numbers of the payments (empty when none were issued)',
+  verify_link: 'Link to the verification page of the latest receipt (empty when none was issued)',
+  today: "Today's date"
+}
+
+/**
+ * Line between the English and Telugu parts of a bilingual message
+ */
+export const BILINGUAL_SEPARATOR = '-----------------------------------'
+
+/**
+ * Templates in the order shown in the editor, with the placeholders each message fills in
+ */
+export const TEMPLATE_DEFINITIONS: Record<MessageTemplateKey, { label: string; description: string; placeholders: TemplatePlaceholder[] }> = {
+  reminder: {
+    label: 'Payment Reminder',
+    description: 'Sent to unpaid members before the deadline',
+    placeholders: ['name', 'amount', 'month', 'deadline']
+  },
+  overdue_reminder: {
+    label: 'Overdue Reminder',
+    description: 'Sent to unpaid members after the deadline',
+    placeholders: ['name', 'amount', 'month', 'deadline', 'late_fee', 'total']
+  },
+  token_assignment: {
+    label: 'Token Number',
+    description: 'Sent when token numbers are assigned',
+    placeholders: ['name', 'token', 'duration']
+  },
+  draw_reminder: {
+    label: 'Draw Reminder',
+    description: 'Sent to paid members on the day of the draw',
+    placeholders: []
+  },
+  receipt: {
+    label: 'Receipt',
+    description: 'Payment receipt of a month',
+    placeholders: ['scheme', 'token', 'name', 'mobile', 'family', 'month', 'amount', 'late_fee', 'paid', 'balance', 'status', 'paid_to', 'mode', 'paid_on', 'receipt_no', 'verify_link', 'today']
+  },
+  winner_announcement: {
+    label: 'Winner Announcement',
+    description: 'Shared after the live draw',
+    placeholders: ['scheme', 'month', 'token', 'name', 'family']
+  }
+}
+
+/**
+ * Built-in texts, used until a template is edited
+ * These are the texts the messages had before templates were editable, with Telugu added where they were English only
+ */
+export const DEFAULT_MESSAGE_TEMPLATES: Record<MessageTemplateKey, { english: string; telugu: string }> = {
+  reminder: {
+    english: `⚠️ *PAYMENT REMINDER*
+
+Respected {name},
+
+You are kindly requested to pay the scheme amount of *{amount}* on or before *{deadline}*.
+On *{deadline} at 7:00 PM*, the Scheme Draw will be conducted.
+Those who have the opportunity may come directly to the shop, pay *{amount}*, and collect the receipt.
+
+Yours,
+*Syed Rafi, Ponnur.*`,
+    telugu: `⚠️ *చెల్లింపు గుర్తు*
+
+గౌరవనీయులైన {name} గారికి,
+
+స్కీం తాలూకు కట్టవలసిన *{amount}* *{deadline}* లోపు చెల్లించవలసినదిగా కోరుచున్నాను.
+*{deadline} సాయంత్రము 7 గంటలకు* షాపులు డ్రా తీయబడును.
+అవకాశం ఉన్నవాళ్లు షాపు దగ్గరికి వచ్చి *{amount}* కట్టి రసీదు తీసుకోవాల్సిందిగా కోరుచున్నాను.
+
+భక్తితో,
+*సయ్యద్ రఫీ, పొన్నూరు.*`
+  },
+  overdue_reminder: {
+    english: `🔴 *Payment Overdue Alert*
+
+Dear {name},
+
+Your payment of *{amount}* for {month} is *OVERDUE*. The deadline was {deadline}.
+A late fee of *{late_fee}* applies, please pay *{total}* in total.
+
+Please complete your payment immediately to avoid any inconvenience.
+
+Thank you for your prompt attention.
+
+*Rafi Scheme Team*`,
+    telugu: `🔴 *చెల్లింపు గడువు దాటింది*
+
+గౌరవనీయులైన {name} గారికి,
+
+{month} నెలకు మీరు కట్టవలసిన *{amount}* చెల్లింపు గడువు దాటిపోయింది. గడువు తేదీ {deadline}.
+*{late_fee}* ఆలస్య రుసుము వర్తిస్తుంది, దయచేసి మొత్తం *{total}* చెల్లించవలసినదిగా కోరుచున్నాను.
+
+*రఫీ స్కీం టీం*`
+  },
+  token_assignment: {
+    english: `⚠️ *TOKEN NUMBER INFORMATION*
+
+Respected {name},
+
+Your scheme token number is *{token}*.
+This token number will remain permanent for *{duration} months*.
+The numbers will not change in between, and in the draw as well, this same token number *{token}* will be considered.`,
+    telugu: `గౌరవనీయులైన {name},
+
+మీ యొక్క స్కీం టోకెన్ నెంబరు *{token}*.
+మీకు పంపించబడుతున్న ఈ టోకెన్ నంబరు ఇక పర్మనెంట్ గా *{duration} నెలలు* ఇదే నంబరు ఉంటుంది.
+మధ్యలో నంబర్లు మారవు, డ్రాలో కూడా ఈ టోకెన్ నంబరు *{token}* తీయబడును.
+
+*Rafi Scheme Team*`
+  },
+  draw_reminder: {
+    english: `⚠️SHEME DRAW
+
+Today at 7:00 PM there will be a draw with all the paid customers, please stay tuned and look forward for the results
+
+Hoping the best of luck for you`,
+    telugu: `⚠️ స్కీమ్ డ్రా
+
+ఈరోజు సాయంత్రం 7:00 గంటలకు అన్ని పేమెంట్ చేసిన కస్టమర్స్ కోసం డ్రా ఉంటుంది.
+దయచేసి స్టే ట్యూన్ గా ఉండండి మరియు రిజల్ట్స్ కోసం వెయిట్ చేయండి.
+
+మీకు బెస్ట్ ఆఫ్ లక్!
+
+*Rafi Scheme Team*`
+  },
+  receipt: {
+    english: `📄 *PAYMENT RECEIPT*
+
+*{scheme}*
+*Receipt No:* {receipt_no}
+
+*Token Number:* {token}
+*Member Name:* {name}
+*Mobile:* {mobile}
+*Family:* {family}
+*Month:* {month}
+*Amount:* {amount}
+*Late Fee (payable separately):* {late_fee}
+*Amount Paid:* {paid}
+*Balance:* {balance}
+*Payment Status:* {status}
+*Paid To:* {paid_to}
+*Payment Mode:* {mode}
+*Payment Date:* {paid_on}
+
+Thank you for your payment!
+
+Verify this receipt: {verify_link}
+
+Generated on: {today}
+
+*{scheme}*
+This receipt serves as proof of payment.`,
+    telugu: `📄 *చెల్లింపు రసీదు*
+
+*{scheme}*
+*రసీదు నంబరు:* {receipt_no}
+
+*టోకెన్ నంబరు:* {token}
+*సభ్యుని పేరు:* {name}
+*మొబైల్:* {mobile}
+*కుటుంబం:* {family}
+*నెల:* {month}
+*మొత్తం:* {amount}
+*ఆలస్య రుసుము (విడిగా చెల్లించాలి):* {late_fee}
+*చెల్లించిన మొత్తం:* {paid}
+*బాకీ:* {balance}
+*చెల్లింపు స్థితి:* {status}
+*స్వీకరించినవారు:* {paid_to}
+*చెల్లింపు విధానం:* {mode}
+*చెల్లించిన తేదీ:* {paid_on}
+
+మీ చెల్లింపుకు ధన్యవాదాలు!
+
+ఈ రసీదును ఇక్కడ సరిచూసుకోండి: {verify_link}
+
+తయారు చేసిన తేదీ: {today}
+
+*{scheme}*
+ఈ రసీదు చెల్లింపుకు రుజువు.`
+  },
+  winner_announcement: {
+    english: `🏆 *{scheme}*
+
+*{month} Draw Winner*
+
+*Token Number:* {token}
+*Winner:* {name}
+*Family:* {family}
+
+Congratulations! 🎉`,
+    telugu: `🏆 *{month} డ్రా విజేత*
+
+టోకెన్ నంబరు *{token}* - *{name}*
+అభినందనలు! 🎉
+
+*Rafi Scheme Team*`
+  }
+}
+
+/**
+ * Edited templates loaded from the database, by key
+ * Message generators are synchronous, so the texts are loaded ahead of sending
+ */
+let storedTemplates: Partial<Record<MessageTemplateKey, MessageTemplateText>> = {}
+
+/**
+ * Load the edited templates into memory so the message generators use them
+ * Messages fall back to the defaults if the templates table can't be read
+ */
+export async function loadMessageTemplates(): Promise<void> {
+  const templates = await DatabaseService.getMessageTemplates()
+  setMessageTemplates(templates)
+}
+
+/**
+ * Replace the templates in memory, e.g. after one is saved in the editor
+ */
+export function setMessageTemplates(templates: MessageTemplateText[]): void {
+  storedTemplates = Object.fromEntries(templates.map(template => [template.key, template]))
+}
+
+/**
+ * Get the text of a template: the edited copy if there is one, otherwise the default
+ */
+export function getMessageTemplate(key: MessageTemplateKey): { english: string; telugu: string; isEdited: boolean } {
+  const stored = storedTemplates[key]
+  if (stored) {
+    return { english: stored.english, telugu: stored.telugu, isEdited: true }
+  }
+  return { ...DEFAULT_MESSAGE_TEMPLATES[key], isEdited: false }
+}
+
+/**
+ * Replace the {placeholders} of a text with their values
+ * A line is left out when one of its placeholders has an empty value, e.g. "*Balance:* {balance}" once fully paid
+ * Unknown placeholders are kept as typed so mistakes show up in the preview
+ */
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text
+    .split('\n')
+    .filter(line => !Array.from(line.matchAll(/\{(\w+)\}/g)).some(([, key]) => values[key as TemplatePlaceholder] === ''))
+    .map(line => line.replace(/\{(\w+)\}/g, (match, key: string) => values[key as TemplatePlaceholder] ?? match))
+    .join('\n')
+    .trim()
+}
+
+/**
+ * Render a message from its template in the member's language
+ * Both languages are sent as the English part, a separator line and the Telugu part
+ * A template without text in the chosen language is sent in the language it has,
+ * e.g. members who prefer Telugu get the English text of a template with no Telugu text
+ * @param key - Template to render
+ * @param values - Values of the placeholders
+ * @param language - Preferred language of the recipient
+ * @param template - Text to render instead of the stored one, used for the editor preview
+ */
+export function renderMessage(
+  key: MessageTemplateKey,
+  values: TemplateValues,
+  language: MessageLanguage = 'both',
+  template: { english: string; telugu: string } = getMessageTemplate(key)
+): string {
+  const english = renderTemplate(template.english, values)
+  const telugu = renderTemplate(template.telugu, values)
+
+  if (!telugu || language === 'en') return english || telugu
+  if (!english || language === 'te') return telugu
+  return `${english}\n\n${BILINGUAL_SEPARATOR}\n\n${telugu}`
+}
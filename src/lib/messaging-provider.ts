@@ -0,0 +1,118 @@
+/**
+ * Messaging Providers
+ * Common interface of the services that deliver WhatsApp messages, and the choice of the active one
+ * The provider is picked with NEXT_PUBLIC_MESSAGING_PROVIDER in the .env file:
+ * "whatsapp-backend" (default) sends through our WhatsApp backend, "mock" only records messages locally
+ */
+
+import { WhatsAppBackendProvider } from './whatsapp-backend-provider';
+import { MockMessagingProvider } from './mock-messaging-provider';
+
+/**
+ * Result of sending one message
+ */
+export interface SendResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  data?: {
+    messageId?: string; // Id of the message at the provider
+    timestamp?: string;
+    to?: string;
+  };
+}
+
+/**
+ * File sent along with a message, e.g. a PDF receipt
+ */
+export interface MessageAttachment {
+  filename: string;
+  mimetype: string;
+  data: string; // Base64 encoded content
+}
+
+/**
+ * Whether the provider's service can be reached
+ */
+export interface ProviderHealth {
+  isAccessible: boolean;
+  status: string;
+  error?: string;
+}
+
+/**
+ * Whether the provider is ready to send messages
+ */
+export interface ProviderStatus {
+  isReady: boolean;
+  status: string;
+  error?: string;
+}
+
+/**
+ * A service that delivers messages to members' phones
+ */
+export interface MessagingProvider {
+  id: MessagingProviderId;
+  label: string;
+
+  /**
+   * Send one message
+   * @param phoneNumber - Recipient's number in international format without "+", e.g. 919876543210
+   * @param message - Message content, the caption of the attachment when one is given
+   * @param attachment - Document sent with the message
+   */
+  send(phoneNumber: string, message: string, attachment?: MessageAttachment): Promise<SendResult>;
+
+  /**
+   * Check whether the provider is connected and ready to send
+   */
+  status(): Promise<ProviderStatus>;
+
+  /**
+   * Check whether the provider's service can be reached
+   */
+  health(): Promise<ProviderHealth>;
+}
+
+export type MessagingProviderId = 'whatsapp-backend' | 'mock';
+
+/**
+ * Provider used for all messages, created on first use
+ */
+let activeProvider: MessagingProvider | null = null;
+
+/**
+ * Create the provider configured in the .env file
+ */
+function createConfiguredProvider(): MessagingProvider {
+  const configured = process.env.NEXT_PUBLIC_MESSAGING_PROVIDER;
+
+  if (configured === 'mock') {
+    return new MockMessagingProvider();
+  }
+
+  if (configured && configured !== 'whatsapp-backend') {
+    console.warn(`⚠️ Unknown messaging provider "${configured}", using the WhatsApp backend`);
+  }
+
+  return new WhatsAppBackendProvider();
+}
+
+/**
+ * Get the provider messages are sent with
+ */
+export function getMessagingProvider(): MessagingProvider {
+  if (!activeProvider) {
+    activeProvider = createConfiguredProvider();
+    console.log(`📡 Messaging provider: ${activeProvider.label}`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the provider messages are sent with, e.g. with a mock while trying out bulk sends
+ */
+export function setMessagingProvider(provider: MessagingProvider): void {
+  activeProvider = provider;
+}
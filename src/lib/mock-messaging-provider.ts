@@ -0,0 +1,148 @@
+/**
+ * Mock Messaging Provider
+ * Records messages instead of sending them, to try out bulk sends without texting real members
+ * Messages are kept in memory and in the browser's localStorage so they survive a reload
+ * Set NEXT_PUBLIC_MOCK_FAILURE_RATE (0 to 1) to make that share of sends fail, e.g. to test retries
+ */
+
+import { MessageAttachment, MessagingProvider, MessagingProviderId, ProviderHealth, ProviderStatus, SendResult } from './messaging-provider';
+
+/**
+ * A message recorded by the mock provider
+ */
+export interface MockMessage {
+  messageId: string;
+  to: string;
+  message: string;
+  attachment?: string; // File name of the attached document
+  success: boolean;
+  timestamp: string;
+}
+
+/**
+ * Options of the mock provider
+ */
+export interface MockProviderOptions {
+  failureRate?: number; // Share of sends that fail, 0 to 1
+  latencyMs?: number; // Delay of each send, like a real network call
+  persist?: boolean; // Keep the recorded messages in localStorage
+}
+
+/**
+ * localStorage key of the recorded messages
+ */
+const STORAGE_KEY = 'mock-messaging-provider:messages';
+
+/**
+ * Most messages kept, the oldest are dropped first
+ */
+const MAX_RECORDED_MESSAGES = 500;
+
+/**
+ * Provider that records messages without delivering them
+ */
+export class MockMessagingProvider implements MessagingProvider {
+  id: MessagingProviderId = 'mock';
+  label = 'Mock (messages are not delivered)';
+
+  private messages: MockMessage[] = [];
+  private failureRate: number;
+  private latencyMs: number;
+  private persist: boolean;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.failureRate = options.failureRate ?? (Number(process.env.NEXT_PUBLIC_MOCK_FAILURE_RATE) || 0);
+    this.latencyMs = options.latencyMs ?? 300;
+    this.persist = (options.persist ?? true) && typeof window !== 'undefined';
+
+    if (this.persist) {
+      try {
+        this.messages = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      } catch {
+        this.messages = [];
+      }
+    }
+  }
+
+  /**
+   * Record a message, failing it at the configured failure rate
+   */
+  async send(phoneNumber: string, message: string, attachment?: MessageAttachment): Promise<SendResult> {
+    await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+
+    const success = Math.random() >= this.failureRate;
+    const recorded: MockMessage = {
+      messageId: `mock-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      to: phoneNumber,
+      message,
+      attachment: attachment?.filename,
+      success,
+      timestamp: new Date().toISOString()
+    };
+
+    this.messages = [...this.messages, recorded].slice(-MAX_RECORDED_MESSAGES);
+    this.save();
+
+    console.log(`🧪 Mock message ${success ? 'recorded' : 'failed'} for ${phoneNumber}`);
+
+    if (!success) {
+      return {
+        success: false,
+        error: 'Mock failure',
+        message: 'Simulated failure of the mock provider'
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        messageId: recorded.messageId,
+        timestamp: recorded.timestamp,
+        to: phoneNumber
+      },
+      message: 'Message recorded by the mock provider'
+    };
+  }
+
+  /**
+   * The mock is always ready
+   */
+  async status(): Promise<ProviderStatus> {
+    return { isReady: true, status: 'mock' };
+  }
+
+  /**
+   * The mock is always reachable
+   */
+  async health(): Promise<ProviderHealth> {
+    return { isAccessible: true, status: 'Mock provider is running' };
+  }
+
+  /**
+   * Messages recorded so far, oldest first
+   */
+  getMessages(): MockMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Forget the recorded messages
+   */
+  clear(): void {
+    this.messages = [];
+    this.save();
+  }
+
+  /**
+   * Write the recorded messages to localStorage
+   */
+  private save(): void {
+    if (!this.persist) return;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.messages));
+    } catch (error) {
+      console.warn('⚠️ Could not store mock messages:', error);
+    }
+  }
+}
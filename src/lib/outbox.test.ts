@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { BulkMessagePlan, dryRunBulkMessages, getSendableEntries } from './outbox'
+
+const plan: BulkMessagePlan = {
+  template: 'reminder',
+  label: 'Payment reminders - October 2026',
+  messages: [
+    { member_id: 1, recipient_name: 'Ravi', recipient_number: '9876543210', body: 'Hello Ravi' },
+    { member_id: 2, recipient_name: 'Sita', recipient_number: '+91 98765 43210', body: 'Hello Sita' },
+    { member_id: 3, recipient_name: 'Arjun', recipient_number: '12345', body: 'Hello Arjun' },
+    { member_id: 4, recipient_name: 'Meena', recipient_number: '9123456789', body: 'Hello Meena' },
+    { member_id: 5, recipient_name: 'Kiran', recipient_number: '9000000001', body: 'Hello Kiran' }
+  ],
+  optedOutMemberIds: [4]
+}
+
+describe('dryRunBulkMessages', () => {
+  const entries = dryRunBulkMessages(plan)
+
+  it('formats every number the way it will be sent', () => {
+    expect(entries.map(entry => entry.formattedNumber))
+      .toEqual(['919876543210', '919876543210', '12345', '919123456789', '919000000001'])
+  })
+
+  it('flags numbers shared by several recipients', () => {
+    expect(entries[0].issues).toEqual(['duplicate_number'])
+    expect(entries[0].sharedWith).toEqual(['Sita'])
+    expect(entries[1].sharedWith).toEqual(['Ravi'])
+  })
+
+  it('flags invalid numbers and members who opted out', () => {
+    expect(entries[2].issues).toEqual(['invalid_number'])
+    expect(entries[3].issues).toEqual(['opted_out'])
+    expect(entries[4].issues).toEqual([])
+  })
+})
+
+describe('getSendableEntries', () => {
+  it('leaves out invalid numbers and opted out members but keeps shared numbers', () => {
+    const sendable = getSendableEntries(dryRunBulkMessages(plan))
+    expect(sendable.map(entry => entry.message.recipient_name)).toEqual(['Ravi', 'Sita', 'Kiran'])
+  })
+})
@@ -0,0 +1,628 @@
+/**
+ * WhatsApp Outbox
+ * Bulk messages are queued in the database (one row per message) and sent by a worker,
+ * so sends survive a closed tab and can be resumed or cancelled later
+ */
+
+import { supabase, Member, MessageTemplate, MonthTable, Receipt, Scheme, formatMonthName, getOutstandingBalance, getLateFee, isMessageAllowed } from './supabase'
+import {
+  sendWhatsAppMessage,
+  generateReminderMessage,
+  generateDrawReminderMessage,
+  generateReceiptMessage,
+  generateTokenAssignmentMessage,
+  formatPhoneNumber,
+  isValidWhatsAppNumber,
+  OPTED_OUT_ERROR
+} from './whatsapp'
+import { loadMessageTemplates } from './message-templates'
+import { DatabaseService } from './database'
+import { MessageAttachment, SendResult } from './messaging-provider'
+import { generateVerifiedReceiptPdf } from './receipt-pdf'
+
+export type OutboxTemplate = Exclude<MessageTemplate, 'auto_reply' | 'custom'>
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled' | 'skipped'
+
+// One bulk action, e.g. "Payment reminders - October 2026"
+export interface OutboxBatch {
+  id: number
+  scheme_id: number | null
+  month: MonthTable | null
+  template: OutboxTemplate
+  label: string
+  created_at: string
+}
+
+// One queued WhatsApp message
+export interface OutboxMessage {
+  id: number
+  batch_id: number
+  member_id: number | null
+  recipient_name: string
+  recipient_number: string
+  template: OutboxTemplate
+  body: string
+  status: OutboxStatus
+  attempts: number
+  next_attempt_at: string
+  last_error: string | null
+  message_id: string | null
+  sent_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Type for queueing a message (the rest is filled in by the outbox)
+export interface NewOutboxMessage {
+  member_id?: number | null
+  recipient_name: string
+  recipient_number: string
+  body: string
+}
+
+// Live progress of a batch for the progress card
+export interface OutboxProgress {
+  batch: OutboxBatch
+  total: number
+  counts: Record<OutboxStatus, number>
+  current: string | null // Recipient currently being sent to
+  errors: Array<{ recipientName: string; error: string }>
+  skipped: string[] // Recipients who opted out after the batch was queued
+}
+
+/**
+ * Minimum gap between two messages, keeps the WhatsApp backend from rate limiting us
+ */
+const SEND_INTERVAL_MS = 1500
+
+/**
+ * Attempts before a message is marked failed, with a growing wait between retries
+ */
+const MAX_ATTEMPTS = 3
+const RETRY_DELAY_MS = 5000
+
+/**
+ * Time after which a message left in 'sending' (e.g. the tab was closed mid-send) can be claimed again
+ * Matches the interval in claim_outbox_message
+ */
+const SENDING_RECLAIM_MS = 2 * 60 * 1000
+
+/**
+ * Wait for the given time, returning early when the signal is aborted
+ */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  if (signal?.aborted) return resolve()
+  const timeout = setTimeout(resolve, ms)
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeout)
+    resolve()
+  }, { once: true })
+})
+
+/**
+ * Outbox service for queueing and sending WhatsApp messages
+ */
+export class OutboxService {
+
+  /**
+   * Queue a batch of messages
+   * Returns the created batch, whose id is used to follow and control its progress
+   */
+  static async enqueue(
+    template: OutboxTemplate,
+    label: string,
+    messages: NewOutboxMessage[],
+    scheme?: Scheme,
+    month?: MonthTable
+  ): Promise<OutboxBatch> {
+    try {
+      if (messages.length === 0) {
+        throw new Error('No messages to queue')
+      }
+
+      const { data: batch, error: batchError } = await supabase
+        .from('outbox_batches')
+        .insert({ template, label, scheme_id: scheme?.id ?? null, month: month ?? null })
+        .select()
+        .single()
+
+      if (batchError) {
+        console.error('Error creating outbox batch:', batchError)
+        throw new Error(`Failed to queue messages: ${batchError.message}`)
+      }
+
+      const { error } = await supabase
+        .from('outbox_messages')
+        .insert(messages.map(message => ({ ...message, batch_id: batch.id, template })))
+
+      if (error) {
+        console.error('Error queueing outbox messages:', error)
+        await supabase.from('outbox_batches').delete().eq('id', batch.id)
+        throw new Error(`Failed to queue messages: ${error.message}`)
+      }
+
+      console.log(`📥 Queued ${messages.length} ${template} messages (batch ${batch.id})`)
+      return batch
+    } catch (error) {
+      console.error('Outbox error in enqueue:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the progress of a batch
+   */
+  static async getBatchProgress(batchId: number): Promise<OutboxProgress> {
+    try {
+      const [{ data: batch, error: batchError }, { data: messages, error }] = await Promise.all([
+        supabase.from('outbox_batches').select('*').eq('id', batchId).single(),
+        supabase.from('outbox_messages').select('recipient_name, status, last_error').eq('batch_id', batchId).order('id')
+      ])
+
+      if (batchError || error) {
+        const fetchError = batchError || error
+        console.error(`Error fetching outbox batch ${batchId}:`, fetchError)
+        throw new Error(`Failed to fetch outbox progress: ${fetchError?.message}`)
+      }
+
+      const counts: Record<OutboxStatus, number> = { queued: 0, sending: 0, sent: 0, failed: 0, cancelled: 0, skipped: 0 }
+      const rows = (messages || []) as Array<Pick<OutboxMessage, 'recipient_name' | 'status' | 'last_error'>>
+
+      for (const row of rows) {
+        counts[row.status]++
+      }
+
+      return {
+        batch,
+        total: rows.length,
+        counts,
+        current: rows.find(row => row.status === 'sending')?.recipient_name ?? null,
+        errors: rows
+          .filter(row => row.status === 'failed')
+          .map(row => ({ recipientName: row.recipient_name, error: row.last_error || 'Unknown error' })),
+        skipped: rows.filter(row => row.status === 'skipped').map(row => row.recipient_name)
+      }
+    } catch (error) {
+      console.error('Outbox error in getBatchProgress:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the batches that still have messages waiting to be sent
+   * Used to offer resuming sends that were interrupted by a closed tab
+   */
+  static async getUnfinishedBatches(): Promise<OutboxBatch[]> {
+    try {
+      const { data: pending, error: pendingError } = await supabase
+        .from('outbox_messages')
+        .select('batch_id')
+        .in('status', ['queued', 'sending'])
+
+      if (pendingError) {
+        console.error('Error fetching pending outbox messages:', pendingError)
+        throw new Error(`Failed to fetch outbox: ${pendingError.message}`)
+      }
+
+      const batchIds = [...new Set((pending || []).map(row => row.batch_id as number))]
+      if (batchIds.length === 0) {
+        return []
+      }
+
+      const { data, error } = await supabase
+        .from('outbox_batches')
+        .select('*')
+        .in('id', batchIds)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching outbox batches:', error)
+        throw new Error(`Failed to fetch outbox: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Outbox error in getUnfinishedBatches:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Cancel the messages of a batch that haven't been sent yet
+   */
+  static async cancelBatch(batchId: number): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('outbox_messages')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('batch_id', batchId)
+        .eq('status', 'queued')
+
+      if (error) {
+        console.error(`Error cancelling outbox batch ${batchId}:`, error)
+        throw new Error(`Failed to cancel messages: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Outbox error in cancelBatch:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Queue the failed and cancelled messages of a batch again,
+   * along with messages left in 'sending' for longer than the reclaim window
+   */
+  static async resumeBatch(batchId: number): Promise<void> {
+    try {
+      const reclaimBefore = new Date(Date.now() - SENDING_RECLAIM_MS).toISOString()
+      const { error } = await supabase
+        .from('outbox_messages')
+        .update({ status: 'queued', attempts: 0, next_attempt_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('batch_id', batchId)
+        .or(`status.in.(failed,cancelled),and(status.eq.sending,updated_at.lt.${reclaimBefore})`)
+
+      if (error) {
+        console.error(`Error resuming outbox batch ${batchId}:`, error)
+        throw new Error(`Failed to resume messages: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Outbox error in resumeBatch:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Worker: send queued messages one at a time until nothing is left or the signal is aborted
+   * Limited to the given batch when batchId is set
+   */
+  static async drain({ batchId, signal, onProgress }: {
+    batchId?: number
+    signal?: AbortSignal
+    onProgress?: () => void
+  } = {}): Promise<void> {
+    // Batches of the claimed messages, for the scheme and month in the message log
+    const batches = new Map<number, OutboxBatch>()
+    // Schemes, loaded once for the PDF of the first receipt message
+    let schemes: Scheme[] | null = null
+
+    while (!signal?.aborted) {
+      const message = await this.claimNext(batchId)
+
+      if (!message) {
+        // Messages waiting for a retry keep the worker alive until they are due
+        const nextAttemptAt = await this.getNextAttemptAt(batchId)
+        if (nextAttemptAt === null) return
+        await sleep(Math.max(nextAttemptAt - Date.now(), SEND_INTERVAL_MS), signal)
+        continue
+      }
+
+      onProgress?.()
+      if (!batches.has(message.batch_id)) {
+        batches.set(message.batch_id, await this.getBatch(message.batch_id))
+      }
+      const batch = batches.get(message.batch_id)!
+      if (message.template === 'receipt' && !schemes) {
+        schemes = await DatabaseService.getSchemes()
+      }
+      await this.deliver(message, batch, schemes?.find(s => s.id === batch.scheme_id))
+      onProgress?.()
+
+      await sleep(SEND_INTERVAL_MS, signal)
+    }
+  }
+
+  /**
+   * Fetch a batch by id
+   */
+  private static async getBatch(batchId: number): Promise<OutboxBatch> {
+    const { data, error } = await supabase
+      .from('outbox_batches')
+      .select('*')
+      .eq('id', batchId)
+      .single()
+
+    if (error) {
+      console.error(`Error fetching outbox batch ${batchId}:`, error)
+      throw new Error(`Failed to read outbox: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Claim the next due message (marks it as sending)
+   */
+  private static async claimNext(batchId?: number): Promise<OutboxMessage | null> {
+    const { data, error } = await supabase.rpc('claim_outbox_message', { target_batch_id: batchId ?? null })
+
+    if (error) {
+      console.error('Error claiming outbox message:', error)
+      throw new Error(`Failed to read outbox: ${error.message}`)
+    }
+
+    return (data as OutboxMessage[] | null)?.[0] ?? null
+  }
+
+  /**
+   * Time (ms) at which the next message can be claimed, or null if none is left
+   * Covers queued messages waiting for a retry and messages in 'sending' that become reclaimable
+   */
+  private static async getNextAttemptAt(batchId?: number): Promise<number | null> {
+    const earliest = (status: OutboxStatus, column: 'next_attempt_at' | 'updated_at') => {
+      const query = supabase
+        .from('outbox_messages')
+        .select('next_attempt_at, updated_at')
+        .eq('status', status)
+        .order(column, { ascending: true })
+        .limit(1)
+      return batchId !== undefined ? query.eq('batch_id', batchId) : query
+    }
+
+    const [queued, sending] = await Promise.all([earliest('queued', 'next_attempt_at'), earliest('sending', 'updated_at')])
+    const error = queued.error ?? sending.error
+
+    if (error) {
+      console.error('Error checking outbox retries:', error)
+      throw new Error(`Failed to read outbox: ${error.message}`)
+    }
+
+    const times = [
+      ...(queued.data || []).map(row => new Date(row.next_attempt_at).getTime()),
+      ...(sending.data || []).map(row => new Date(row.updated_at).getTime() + SENDING_RECLAIM_MS)
+    ]
+    return times.length > 0 ? Math.min(...times) : null
+  }
+
+  /**
+   * PDF receipt sent with a receipt message, built from the member's month as it is when the message goes out
+   * Other messages are sent without an attachment
+   */
+  private static async getAttachment(message: OutboxMessage, batch: OutboxBatch, scheme?: Scheme): Promise<MessageAttachment | undefined> {
+    if (message.template !== 'receipt') {
+      return undefined
+    }
+
+    if (!scheme || !batch.month || message.member_id === null) {
+      throw new Error('Receipt message is missing its scheme, month or member')
+    }
+
+    const member = await DatabaseService.getMember(scheme, batch.month, message.member_id)
+    if (!member) {
+      throw new Error('Member not found')
+    }
+
+    const receipts = await DatabaseService.getReceipts(scheme, batch.month, member.id)
+    const pdf = await generateVerifiedReceiptPdf(member, batch.month, scheme, receipts)
+    return pdf.attachment
+  }
+
+  /**
+   * Send a claimed message and record the result
+   * Failed sends are queued again with a delay until MAX_ATTEMPTS is reached
+   * Recipients who opted out are skipped without retrying
+   */
+  private static async deliver(message: OutboxMessage, batch: OutboxBatch, scheme?: Scheme): Promise<void> {
+    const context = {
+      template: message.template,
+      memberId: message.member_id,
+      recipientName: message.recipient_name,
+      schemeId: batch.scheme_id,
+      month: batch.month,
+      outboxMessageId: message.id
+    }
+
+    // A receipt whose PDF can't be built counts as a failed attempt, it's never sent without it
+    const attachment = await this.getAttachment(message, batch, scheme)
+      .catch((error: unknown) => error instanceof Error ? error : new Error('Unknown error'))
+    const result: SendResult = attachment instanceof Error
+      ? { success: false, error: 'PDF receipt failed', message: attachment.message }
+      : await sendWhatsAppMessage(message.recipient_number, message.body, context, attachment)
+    const now = new Date()
+
+    const update = result.success
+      ? { status: 'sent', message_id: result.data?.messageId ?? null, sent_at: now.toISOString(), last_error: null }
+      : result.error === OPTED_OUT_ERROR
+        ? { status: 'skipped', last_error: result.message || OPTED_OUT_ERROR }
+      : message.attempts >= MAX_ATTEMPTS
+        ? { status: 'failed', last_error: result.message || result.error || 'Unknown error' }
+        : {
+            status: 'queued',
+            next_attempt_at: new Date(now.getTime() + RETRY_DELAY_MS * message.attempts).toISOString(),
+            last_error: result.message || result.error || 'Unknown error'
+          }
+
+    const { error } = await supabase
+      .from('outbox_messages')
+      .update({ ...update, updated_at: now.toISOString() })
+      .eq('id', message.id)
+
+    if (error) {
+      console.error(`Error updating outbox message ${message.id}:`, error)
+      throw new Error(`Failed to update outbox: ${error.message}`)
+    }
+
+    if (result.success) {
+      console.log(`✅ ${message.template} message sent to ${message.recipient_name}`)
+    } else if (update.status === 'skipped') {
+      console.log(`🚫 ${message.template} message to ${message.recipient_name} skipped: opted out`)
+    } else {
+      console.warn(`⚠️ Attempt ${message.attempts}/${MAX_ATTEMPTS} for ${message.recipient_name} failed: ${update.last_error}`)
+    }
+  }
+}
+
+/**
+ * Messages of one bulk action, rendered but not queued yet
+ * Reviewed in a dry run before they are queued
+ */
+export interface BulkMessagePlan {
+  template: OutboxTemplate
+  label: string
+  messages: NewOutboxMessage[]
+  optedOutMemberIds: number[] // Members whose messaging preference doesn't allow this message
+}
+
+/**
+ * Problems found in a dry run: a number WhatsApp can't be sent to,
+ * a number several members share (usually one family), or a member who opted out
+ */
+export type DryRunIssue = 'invalid_number' | 'duplicate_number' | 'opted_out'
+
+/**
+ * Issues that keep a message from being queued
+ */
+export const SKIPPED_DRY_RUN_ISSUES: DryRunIssue[] = ['invalid_number', 'opted_out']
+
+// One message of a dry run with what would be sent where
+export interface DryRunEntry {
+  message: NewOutboxMessage
+  formattedNumber: string
+  issues: DryRunIssue[]
+  sharedWith: string[] // Other recipients with the same number
+}
+
+/**
+ * Payment reminders for unpaid members, asking only for the balance left
+ */
+function planBulkReminders(members: Member[], currentMonth: MonthTable, scheme: Scheme): Omit<BulkMessagePlan, 'optedOutMemberIds'> {
+  return {
+    template: 'reminder',
+    label: `Payment reminders - ${formatMonthName(currentMonth)}`,
+    messages: members.map(member => ({
+      member_id: member.id,
+      recipient_name: member.full_name,
+      recipient_number: member.mobile_number,
+      body: generateReminderMessage(member.full_name, member.payment_status === 'overdue', getOutstandingBalance(scheme, member), member.preferred_language, getLateFee(scheme, member))
+    }))
+  }
+}
+
+/**
+ * The draw reminder for all members
+ */
+function planDrawReminders(members: Member[], currentMonth: MonthTable): Omit<BulkMessagePlan, 'optedOutMemberIds'> {
+  return {
+    template: 'draw_reminder',
+    label: `Draw reminders - ${formatMonthName(currentMonth)}`,
+    messages: members.map(member => ({
+      member_id: member.id,
+      recipient_name: member.full_name,
+      recipient_number: member.mobile_number,
+      body: generateDrawReminderMessage(member.preferred_language)
+    }))
+  }
+}
+
+/**
+ * Payment receipts for the paid members, with the numbers of their receipts and the link to verify them
+ * The PDF receipt is attached when each message is sent, so members without an issued receipt
+ * (a month covered by an advance carried forward) are left out
+ */
+function planBulkReceipts(
+  members: Member[],
+  currentMonth: MonthTable,
+  scheme: Scheme,
+  receipts: Record<number, Receipt[]>
+): Omit<BulkMessagePlan, 'optedOutMemberIds'> {
+  return {
+    template: 'receipt',
+    label: `Receipts - ${formatMonthName(currentMonth)}`,
+    messages: members
+      .filter(member => member.payment_status === 'paid' && receipts[member.id]?.length)
+      .map(member => ({
+        member_id: member.id,
+        recipient_name: member.full_name,
+        recipient_number: member.mobile_number,
+        body: generateReceiptMessage(member, currentMonth, scheme, receipts[member.id])
+      }))
+  }
+}
+
+/**
+ * Token assignment messages for the members that have a token
+ */
+function planTokenAssignmentMessages(members: Member[], scheme: Scheme): Omit<BulkMessagePlan, 'optedOutMemberIds'> {
+  return {
+    template: 'token_assignment',
+    label: `Token numbers - ${scheme.name}`,
+    messages: members
+      .filter(member => member.token_number !== null)
+      .map(member => ({
+        member_id: member.id,
+        recipient_name: member.full_name,
+        recipient_number: member.mobile_number,
+        body: generateTokenAssignmentMessage(member.full_name, member.token_number as number, scheme.duration_months, member.preferred_language)
+      }))
+  }
+}
+
+/**
+ * Render the messages of a bulk action from the latest saved templates, without queueing them
+ * @param template - Kind of bulk message
+ * @param members - Members the action targets; receipts and token messages skip members they don't apply to
+ */
+export async function planBulkMessages(
+  template: OutboxTemplate,
+  members: Member[],
+  currentMonth: MonthTable,
+  scheme: Scheme
+): Promise<BulkMessagePlan> {
+  await loadMessageTemplates()
+
+  const optedOutMemberIds = members
+    .filter(member => !isMessageAllowed(member.messaging_preference, template))
+    .map(member => member.id)
+
+  switch (template) {
+    case 'reminder':
+      return { ...planBulkReminders(members, currentMonth, scheme), optedOutMemberIds }
+    case 'draw_reminder':
+      return { ...planDrawReminders(members, currentMonth), optedOutMemberIds }
+    case 'receipt':
+      return {
+        ...planBulkReceipts(members, currentMonth, scheme, await DatabaseService.getIssuedReceipts(scheme, currentMonth)),
+        optedOutMemberIds
+      }
+    case 'token_assignment':
+      return { ...planTokenAssignmentMessages(members, scheme), optedOutMemberIds }
+    default:
+      throw new Error(`Bulk sending is not supported for ${template} messages`)
+  }
+}
+
+/**
+ * Check the messages of a bulk action before they are queued
+ * Flags numbers that can't be formatted for WhatsApp, numbers shared by several recipients
+ * and members who opted out of the message
+ */
+export function dryRunBulkMessages(plan: BulkMessagePlan): DryRunEntry[] {
+  const formattedNumbers = plan.messages.map(message => formatPhoneNumber(message.recipient_number))
+
+  return plan.messages.map((message, index) => {
+    const formattedNumber = formattedNumbers[index]
+    const sharedWith = plan.messages
+      .filter((other, otherIndex) => otherIndex !== index && formattedNumbers[otherIndex] === formattedNumber)
+      .map(other => other.recipient_name)
+
+    const issues: DryRunIssue[] = []
+    if (!isValidWhatsAppNumber(message.recipient_number)) issues.push('invalid_number')
+    if (sharedWith.length > 0) issues.push('duplicate_number')
+    if (message.member_id && plan.optedOutMemberIds.includes(message.member_id)) issues.push('opted_out')
+
+    return { message, formattedNumber, issues, sharedWith }
+  })
+}
+
+/**
+ * Messages of a dry run that can be queued, leaving out invalid numbers and members who opted out
+ */
+export function getSendableEntries(entries: DryRunEntry[]): DryRunEntry[] {
+  return entries.filter(entry => !entry.issues.some(issue => SKIPPED_DRY_RUN_ISSUES.includes(issue)))
+}
+
+/**
+ * Queue the messages of a reviewed bulk action
+ */
+export async function queueBulkMessages(plan: BulkMessagePlan, scheme: Scheme, currentMonth: MonthTable): Promise<OutboxBatch> {
+  return OutboxService.enqueue(plan.template, plan.label, plan.messages, scheme, currentMonth)
+}
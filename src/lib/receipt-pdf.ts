@@ -0,0 +1,220 @@
+/**
+ * PDF Receipts
+ * Builds the branded receipt of a member's installment, for download and for sending on WhatsApp
+ * jsPDF is loaded on first use, so it's only downloaded by admins who create a receipt
+ * The QR code links to the public verification page of the receipt
+ */
+
+import { Member, MonthTable, Receipt, Scheme, formatMonthName, getInstallmentAmount, getLateFee, getDaysLate, formatPaymentDate, PAYMENT_MODE_LABELS } from './supabase'
+import { MessageAttachment } from './messaging-provider'
+import { formatTokenDisplay } from './utils'
+import { getVerificationUrl } from './receipt-verification'
+
+/**
+ * Logo printed at the top of every receipt
+ */
+const LOGO_PATH = '/rafiLogo.jpeg'
+
+// A5 portrait, in millimetres
+const PAGE_WIDTH = 148
+const MARGIN = 14
+
+/**
+ * A generated receipt, ready to download or attach to a message
+ */
+export interface ReceiptPdf {
+  filename: string
+  blob: Blob
+  attachment: MessageAttachment
+}
+
+/**
+ * Format an amount for the PDF
+ * The standard PDF fonts have no rupee sign, so "Rs." is used instead of formatAmount's "₹"
+ */
+function formatPdfAmount(amount: number): string {
+  return `Rs. ${amount.toLocaleString('en-IN')}`
+}
+
+/**
+ * Encode the PDF for the WhatsApp backend, which expects base64 media
+ */
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Load the logo as a data URL
+ * Returns null when it can't be loaded, the receipt is then created without it
+ */
+async function loadLogo(): Promise<string | null> {
+  try {
+    const response = await fetch(LOGO_PATH)
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+    return `data:image/jpeg;base64,${toBase64(await response.arrayBuffer())}`
+  } catch (error) {
+    console.warn('⚠️ Could not load the receipt logo:', error)
+    return null
+  }
+}
+
+/**
+ * QR code of a receipt's verification link, as a PNG data URL
+ * The link holds the token stored with the receipt
+ */
+export async function getReceiptQrCode(receipt: Receipt): Promise<string> {
+  try {
+    const QRCode = await import('qrcode')
+    return await QRCode.toDataURL(getVerificationUrl(receipt), { margin: 1, width: 240 })
+  } catch (error) {
+    console.error(`Error creating the QR code of receipt ${receipt.receipt_number}:`, error)
+    throw new Error(`Failed to create the QR code of receipt ${receipt.receipt_number}`)
+  }
+}
+
+/**
+ * File name of a member's receipt, e.g. "receipt-october-2026-ravi-kumar.pdf"
+ */
+export function getReceiptFilename(member: Member, currentMonth: MonthTable): string {
+  const slug = `${formatMonthName(currentMonth)} ${member.full_name}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+  return `receipt-${slug}.pdf`
+}
+
+/**
+ * Generate the PDF receipt of a member's installment
+ * @param receiptNumber - Numbers of the month's receipts, printed under the title
+ * @param qrCode - QR code of the verification link (getReceiptQrCode), printed below the details
+ */
+export async function generateReceiptPdf(
+  member: Member,
+  currentMonth: MonthTable,
+  scheme: Scheme,
+  receiptNumber?: string | null,
+  qrCode?: string | null
+): Promise<ReceiptPdf> {
+  const [{ jsPDF }, logo] = await Promise.all([import('jspdf'), loadLogo()])
+  const doc = new jsPDF({ unit: 'mm', format: 'a5' })
+
+  let y = MARGIN
+
+  // Header with logo, scheme name and receipt number
+  if (logo) {
+    doc.addImage(logo, 'JPEG', (PAGE_WIDTH - 24) / 2, y, 24, 24)
+    y += 30
+  }
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(16)
+  doc.text(scheme.name.toUpperCase(), PAGE_WIDTH / 2, y, { align: 'center' })
+  y += 7
+
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(11)
+  doc.text('Payment Receipt', PAGE_WIDTH / 2, y, { align: 'center' })
+  y += 6
+
+  if (receiptNumber) {
+    doc.setFontSize(10)
+    doc.text(`Receipt No. ${receiptNumber}`, PAGE_WIDTH / 2, y, { align: 'center' })
+    y += 6
+  }
+
+  doc.setLineWidth(0.5)
+  doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y)
+  y += 9
+
+  // Details, one label and value per row
+  // The late fee isn't part of the payments ledger, so it's listed on its own and not added to a total
+  const installment = getInstallmentAmount(scheme, member)
+  const lateFee = getLateFee(scheme, member)
+  const daysLate = getDaysLate(member)
+
+  const rows: [string, string][] = [
+    ['Token Number', member.token_number ? formatTokenDisplay(member.token_number) : 'N/A'],
+    ['Member Name', member.full_name],
+    ['Month', formatMonthName(currentMonth)],
+    ['Amount', formatPdfAmount(installment)],
+    ...(lateFee > 0
+      ? [[`Late Fee (${daysLate} day${daysLate !== 1 ? 's' : ''} late, payable separately)`, formatPdfAmount(lateFee)]] as [string, string][]
+      : []),
+    ['Amount Paid', formatPdfAmount(member.paid_amount)],
+    ['Payment Status', member.payment_status.replace(/_/g, ' ').toUpperCase()],
+    ['Collected By', member.paid_to || 'N/A'],
+    ...(member.payment_mode ? [['Payment Mode', PAYMENT_MODE_LABELS[member.payment_mode]]] as [string, string][] : []),
+    ['Payment Date', formatPaymentDate(member) ?? 'Not recorded']
+  ]
+
+  doc.setFontSize(11)
+  for (const [label, value] of rows) {
+    doc.setFont('helvetica', 'bold')
+    doc.text(`${label}:`, MARGIN, y)
+    doc.setFont('helvetica', 'normal')
+    doc.text(value, PAGE_WIDTH - MARGIN, y, { align: 'right' })
+    y += 8
+  }
+
+  // Verification QR code
+  if (qrCode) {
+    doc.addImage(qrCode, 'PNG', (PAGE_WIDTH - 28) / 2, y, 28, 28)
+    y += 31
+    doc.setFontSize(8)
+    doc.text('Scan to verify this receipt', PAGE_WIDTH / 2, y, { align: 'center' })
+    y += 2
+  }
+
+  // Footer
+  y += 2
+  doc.setLineWidth(0.2)
+  doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y)
+  y += 8
+
+  doc.setFontSize(10)
+  doc.text('Thank you for your payment!', PAGE_WIDTH / 2, y, { align: 'center' })
+  y += 5
+  doc.setFontSize(8)
+  doc.setTextColor(110)
+  doc.text('This receipt serves as proof of payment', PAGE_WIDTH / 2, y, { align: 'center' })
+  y += 4
+  doc.text(`Generated on ${new Date().toLocaleDateString('en-IN')}`, PAGE_WIDTH / 2, y, { align: 'center' })
+
+  const buffer = doc.output('arraybuffer')
+  const filename = getReceiptFilename(member, currentMonth)
+
+  return {
+    filename,
+    blob: new Blob([buffer], { type: 'application/pdf' }),
+    attachment: { filename, mimetype: 'application/pdf', data: toBase64(buffer) }
+  }
+}
+
+/**
+ * Generate the PDF receipt of a member's month, numbered with its issued receipts
+ * and with the QR code of the latest one
+ * Throws when no receipt was issued for the month or the QR code can't be created,
+ * so a receipt never goes out that can't be verified
+ */
+export async function generateVerifiedReceiptPdf(
+  member: Member,
+  currentMonth: MonthTable,
+  scheme: Scheme,
+  receipts: Receipt[]
+): Promise<ReceiptPdf> {
+  const issued = receipts.filter(receipt => receipt.status === 'issued')
+  const latest = issued.at(-1)
+  if (!latest) {
+    throw new Error(`No receipt was issued to ${member.full_name} for ${formatMonthName(currentMonth)}`)
+  }
+
+  const qrCode = await getReceiptQrCode(latest)
+  return generateReceiptPdf(member, currentMonth, scheme, issued.map(receipt => receipt.receipt_number).join(', '), qrCode)
+}
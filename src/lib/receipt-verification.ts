@@ -0,0 +1,66 @@
+/**
+ * Receipt Verification
+ * Every receipt carries a QR code with a link to the public verification page
+ * The link holds the random token the database gave the receipt when it was issued,
+ * so nobody can look up receipts by counting numbers; the receipts table itself is closed to the public API key
+ */
+
+import { supabase, MonthTable, Receipt, ReceiptStatus } from './supabase'
+
+/**
+ * Path of the public verification page, followed by the receipt's token
+ */
+export const VERIFY_PATH = '/verify'
+
+/**
+ * Tokens are 32 hex characters (a random UUID without dashes)
+ */
+const TOKEN_PATTERN = /^[0-9a-f]{32}$/
+
+// What the public page shows of a receipt, only the member's first name is given to whoever scans the code
+export interface VerifiedReceipt {
+  receipt_number: string
+  first_name: string
+  token_number: number | null
+  month: MonthTable
+  amount: number
+  status: ReceiptStatus
+}
+
+/**
+ * Link to the verification page of a receipt
+ * Points to NEXT_PUBLIC_APP_URL when set, otherwise to the address the app was opened on
+ */
+export function getVerificationUrl(receipt: Pick<Receipt, 'verification_token'>): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || (typeof window !== 'undefined' ? window.location.origin : '')
+  if (!baseUrl) {
+    throw new Error('NEXT_PUBLIC_APP_URL is not set')
+  }
+  return `${baseUrl.replace(/\/$/, '')}${VERIFY_PATH}/${receipt.verification_token}`
+}
+
+/**
+ * Look up the receipt of a verification token
+ * Returns null for malformed tokens and tokens of no receipt
+ */
+export async function verifyReceipt(token: string): Promise<VerifiedReceipt | null> {
+  if (!TOKEN_PATTERN.test(token)) {
+    return null
+  }
+
+  // The receipts table is closed to the API; verify_receipt returns just what the page shows
+  const { data, error } = await supabase
+    .rpc('verify_receipt', { target_token: token })
+    .maybeSingle<Omit<VerifiedReceipt, 'amount'> & { amount: number | string }>()
+
+  if (error) {
+    console.error('Error verifying receipt:', error)
+    throw new Error(`Failed to verify receipt: ${error.message}`)
+  }
+
+  if (!data) {
+    return null
+  }
+
+  return { ...data, amount: Number(data.amount) }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { ScheduleRule, isRuleDue } from './scheduler'
+
+const rule: ScheduleRule = {
+  id: 1,
+  scheme_id: 1,
+  action: 'payment_reminder',
+  day_of_month: 5,
+  time_of_day: '09:30',
+  is_active: true,
+  created_at: '2026-10-01T00:00:00Z'
+}
+
+// Moments in India time, whatever the time zone of the test run
+const ist = (dateTime: string) => new Date(`${dateTime}+05:30`)
+
+describe('isRuleDue', () => {
+  it('is due on its day from its time onwards', () => {
+    expect(isRuleDue(rule, ist('2026-10-05T09:29'))).toBe(false)
+    expect(isRuleDue(rule, ist('2026-10-05T09:30'))).toBe(true)
+    expect(isRuleDue(rule, ist('2026-10-05T23:59'))).toBe(true)
+  })
+
+  it('is not due on other days', () => {
+    expect(isRuleDue(rule, ist('2026-10-04T12:00'))).toBe(false)
+    expect(isRuleDue(rule, ist('2026-10-06T12:00'))).toBe(false)
+  })
+
+  it('goes by India time rather than UTC', () => {
+    // 04:00 UTC is 09:30 IST
+    expect(isRuleDue(rule, new Date('2026-10-05T03:59Z'))).toBe(false)
+    expect(isRuleDue(rule, new Date('2026-10-05T04:00Z'))).toBe(true)
+    // 20:00 UTC on the 4th is already 01:30 IST on the 5th
+    expect(isRuleDue({ ...rule, time_of_day: '00:00' }, new Date('2026-10-04T20:00Z'))).toBe(true)
+    expect(isRuleDue({ ...rule, time_of_day: '00:00' }, new Date('2026-10-05T20:00Z'))).toBe(false)
+  })
+
+  it('runs on the last day of months that are shorter than its day', () => {
+    const endOfMonth = { ...rule, day_of_month: 31 }
+    expect(isRuleDue(endOfMonth, ist('2027-02-28T10:00'))).toBe(true)
+    expect(isRuleDue(endOfMonth, ist('2026-11-30T10:00'))).toBe(true)
+    expect(isRuleDue(endOfMonth, ist('2026-10-30T10:00'))).toBe(false)
+  })
+
+  it('is never due while inactive', () => {
+    expect(isRuleDue({ ...rule, is_active: false }, ist('2026-10-05T10:00'))).toBe(false)
+  })
+})
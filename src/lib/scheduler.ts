@@ -0,0 +1,493 @@
+/**
+ * Reminder Scheduler
+ * Rules like "remind pending members on the 5th and 9th" or "mark pending as overdue on the 12th",
+ * run by the open dashboard and by the /api/scheduler endpoint for an external cron
+ * Rules run once on their day, at or after their time in the shop's time zone (India time), wherever the scheduler runs;
+ * a day that passes without a run is not caught up
+ * The same runs move pending payments to overdue once the payment deadline of the month has passed,
+ * for schemes that have no mark_overdue rule of their own
+ */
+
+import { supabase, Member, MonthTable, Scheme, formatMonthName, getSchemeMonths } from './supabase'
+import { PAYMENT_DEADLINE_DAY, getSchemeDateTime, toMonthTable } from './scheme-calendar'
+import { DatabaseService } from './database'
+import { OutboxBatch, dryRunBulkMessages, getSendableEntries, planBulkMessages, queueBulkMessages } from './outbox'
+import { formatOrdinalDay } from './utils'
+
+export type ScheduleAction = 'payment_reminder' | 'draw_reminder' | 'mark_overdue'
+export type ScheduleRunStatus = 'running' | 'success' | 'skipped' | 'failed'
+
+// One scheduled action of a scheme
+export interface ScheduleRule {
+  id: number
+  scheme_id: number
+  action: ScheduleAction
+  day_of_month: number // Runs on the last day of shorter months when the day doesn't exist
+  time_of_day: string // "HH:MM" in the scheme time zone (India time)
+  is_active: boolean
+  created_at: string
+}
+
+// Type for adding a new rule (without auto-generated fields)
+export interface NewScheduleRule {
+  action: ScheduleAction
+  day_of_month: number
+  time_of_day: string
+  is_active?: boolean
+}
+
+// Log entry of one rule run
+export interface ScheduleRun {
+  id: number
+  rule_id: number | null
+  scheme_id: number
+  month: MonthTable
+  action: ScheduleAction
+  run_on: string // "YYYY-MM-DD"
+  status: ScheduleRunStatus
+  detail: string | null
+  outbox_batch_id: number | null
+  marked_count: number | null // Payments moved to overdue by a mark_overdue run
+  created_at: string
+}
+
+// Outcome of a rule run, written to its log entry
+type RunResult = Pick<ScheduleRun, 'status' | 'detail'> & Partial<Pick<ScheduleRun, 'outbox_batch_id' | 'marked_count'>>
+
+/**
+ * Display labels for the scheduled actions
+ */
+export const SCHEDULE_ACTION_LABELS: Record<ScheduleAction, string> = {
+  payment_reminder: 'Remind pending members',
+  draw_reminder: 'Send draw reminder',
+  mark_overdue: 'Mark pending as overdue'
+}
+
+/**
+ * Rules offered when a scheme has no schedule yet
+ */
+export const SUGGESTED_SCHEDULE_RULES: NewScheduleRule[] = [
+  { action: 'payment_reminder', day_of_month: 5, time_of_day: '10:00' },
+  { action: 'payment_reminder', day_of_month: 9, time_of_day: '10:00' },
+  { action: 'draw_reminder', day_of_month: 11, time_of_day: '10:00' },
+  { action: 'mark_overdue', day_of_month: 12, time_of_day: '00:00' }
+]
+
+/**
+ * Postgres error code of a unique key violation
+ */
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Date in the scheme time zone in "YYYY-MM-DD" format
+ */
+const toSchemeDate = (date: Date): string => {
+  const { year, monthIndex, day } = getSchemeDateTime(date)
+  return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Month of a moment in the scheme time zone
+ */
+const toSchemeMonth = (date: Date): MonthTable => {
+  const { year, monthIndex } = getSchemeDateTime(date)
+  return toMonthTable(year, monthIndex)
+}
+
+/**
+ * Check whether a rule should run at the given moment: on its day, at or after its time, in the scheme time zone
+ */
+export function isRuleDue(rule: ScheduleRule, now: Date = new Date()): boolean {
+  const today = getSchemeDateTime(now)
+  const daysInMonth = new Date(Date.UTC(today.year, today.monthIndex + 1, 0)).getUTCDate()
+  const runDay = Math.min(rule.day_of_month, daysInMonth)
+  const [hours, minutes] = rule.time_of_day.split(':').map(Number)
+
+  return rule.is_active &&
+    today.day === runDay &&
+    today.hours * 60 + today.minutes >= hours * 60 + minutes
+}
+
+/**
+ * Scheduler Service
+ * Manages the rules, pauses and run log, and runs the rules that are due
+ */
+export class SchedulerService {
+  /**
+   * Get the rules of a scheme, ordered by day and time
+   */
+  static async getRules(scheme: Scheme): Promise<ScheduleRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('schedule_rules')
+        .select('*')
+        .eq('scheme_id', scheme.id)
+        .order('day_of_month', { ascending: true })
+        .order('time_of_day', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching schedule rules:', error)
+        throw new Error(`Failed to fetch schedule: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Scheduler error in getRules:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Add rules to a scheme's schedule
+   */
+  static async addRules(scheme: Scheme, rules: NewScheduleRule[]): Promise<ScheduleRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('schedule_rules')
+        .insert(rules.map(rule => ({ ...rule, scheme_id: scheme.id })))
+        .select()
+
+      if (error) {
+        console.error('Error adding schedule rules:', error)
+        throw new Error(`Failed to add schedule rule: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Scheduler error in addRules:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update a rule, e.g. to switch it on or off
+   */
+  static async updateRule(ruleId: number, changes: Partial<NewScheduleRule>): Promise<ScheduleRule> {
+    try {
+      const { data, error } = await supabase
+        .from('schedule_rules')
+        .update(changes)
+        .eq('id', ruleId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error(`Error updating schedule rule ${ruleId}:`, error)
+        throw new Error(`Failed to update schedule rule: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Scheduler error in updateRule:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete a rule, keeping its past runs in the log
+   */
+  static async deleteRule(ruleId: number): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('schedule_rules')
+        .delete()
+        .eq('id', ruleId)
+
+      if (error) {
+        console.error(`Error deleting schedule rule ${ruleId}:`, error)
+        throw new Error(`Failed to delete schedule rule: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Scheduler error in deleteRule:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the latest runs of a scheme, newest first
+   */
+  static async getRuns(scheme: Scheme, limit: number = 30): Promise<ScheduleRun[]> {
+    try {
+      const { data, error } = await supabase
+        .from('schedule_runs')
+        .select('*')
+        .eq('scheme_id', scheme.id)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        console.error('Error fetching schedule runs:', error)
+        throw new Error(`Failed to fetch schedule runs: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Scheduler error in getRuns:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Check whether the schedule of a scheme is paused for a month
+   */
+  static async isPaused(scheme: Scheme, monthTable: MonthTable): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('schedule_pauses')
+        .select('month')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
+
+      if (error) {
+        console.error(`Error checking schedule pause for ${monthTable}:`, error)
+        throw new Error(`Failed to check schedule pause: ${error.message}`)
+      }
+
+      return (data || []).length > 0
+    } catch (error) {
+      console.error('Scheduler error in isPaused:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Pause or resume the schedule of a scheme for one month
+   */
+  static async setPaused(scheme: Scheme, monthTable: MonthTable, paused: boolean): Promise<void> {
+    try {
+      const { error } = paused
+        ? await supabase
+            .from('schedule_pauses')
+            .upsert({ scheme_id: scheme.id, month: monthTable }, { onConflict: 'scheme_id,month' })
+        : await supabase
+            .from('schedule_pauses')
+            .delete()
+            .eq('scheme_id', scheme.id)
+            .eq('month', monthTable)
+
+      if (error) {
+        console.error(`Error ${paused ? 'pausing' : 'resuming'} schedule for ${monthTable}:`, error)
+        throw new Error(`Failed to ${paused ? 'pause' : 'resume'} schedule: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Scheduler error in setPaused:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the latest overdue marking of a scheme month, by a rule or by the payment deadline
+   * Returns null when no pending payments of the month were marked overdue
+   */
+  static async getOverdueTransition(scheme: Scheme, monthTable: MonthTable): Promise<ScheduleRun | null> {
+    try {
+      const { data, error } = await supabase
+        .from('schedule_runs')
+        .select('*')
+        .eq('scheme_id', scheme.id)
+        .eq('month', monthTable)
+        .eq('action', 'mark_overdue')
+        .eq('status', 'success')
+        .gt('marked_count', 0)
+        .order('created_at', { ascending: false })
+        .limit(1)
+
+      if (error) {
+        console.error(`Error fetching overdue marking of ${monthTable}:`, error)
+        throw new Error(`Failed to fetch overdue marking: ${error.message}`)
+      }
+
+      return data?.[0] ?? null
+    } catch (error) {
+      console.error('Scheduler error in getOverdueTransition:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Run the payment deadline job and every active rule that is due, across all schemes
+   * Each rule is claimed in the run log first, so it runs once per day however many times this is called
+   * Returns the runs made by this call; queued messages are sent by whoever drains the outbox
+   */
+  static async runDueRules(now: Date = new Date()): Promise<ScheduleRun[]> {
+    try {
+      const { data: rules, error } = await supabase
+        .from('schedule_rules')
+        .select('*')
+        .eq('is_active', true)
+
+      if (error) {
+        console.error('Error fetching active schedule rules:', error)
+        throw new Error(`Failed to fetch schedule: ${error.message}`)
+      }
+
+      const activeRules = (rules || []) as ScheduleRule[]
+      const schemes = await DatabaseService.getSchemes()
+      const runs = await this.markOverdueAfterDeadline(schemes, activeRules, now)
+
+      const dueRules = activeRules.filter(rule => isRuleDue(rule, now))
+
+      for (const rule of dueRules) {
+        const scheme = schemes.find(s => s.id === rule.scheme_id)
+        if (!scheme) continue
+
+        const run = await this.runRule(rule, scheme, now)
+        if (run) runs.push(run)
+      }
+
+      return runs
+    } catch (error) {
+      console.error('Scheduler error in runDueRules:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Deadline job: once the payment deadline of the month has passed, move the month's pending payments to overdue
+   * Runs once per scheme month, claimed and marked in one transaction (run_overdue_deadline), so payments set back
+   * to pending by hand stay pending and an interrupted run leaves nothing claimed
+   * Schemes with their own mark_overdue rule are left to that rule, and a paused month waits until it is resumed
+   */
+  private static async markOverdueAfterDeadline(schemes: Scheme[], rules: ScheduleRule[], now: Date): Promise<ScheduleRun[]> {
+    if (getSchemeDateTime(now).day <= PAYMENT_DEADLINE_DAY) {
+      return []
+    }
+
+    const month = toSchemeMonth(now)
+    const deadline = `${formatOrdinalDay(PAYMENT_DEADLINE_DAY)} ${formatMonthName(month)}`
+    const runs: ScheduleRun[] = []
+
+    for (const scheme of schemes) {
+      if (!getSchemeMonths(scheme).includes(month)) continue
+      if (rules.some(rule => rule.scheme_id === scheme.id && rule.action === 'mark_overdue')) continue
+      if (await this.isPaused(scheme, month)) continue
+
+      const { data, error } = await supabase.rpc('run_overdue_deadline', {
+        target_scheme_id: scheme.id,
+        target_month: month,
+        target_run_on: toSchemeDate(now),
+        deadline_label: deadline
+      })
+
+      if (error) {
+        console.error(`Error marking overdue payments of ${scheme.name}:`, error)
+        throw new Error(`Failed to mark overdue payments: ${error.message}`)
+      }
+
+      // Nothing is returned when the deadline job already ran for the month
+      const run = (data as ScheduleRun[] | null)?.[0]
+      if (!run) continue
+
+      console.log(`⏰ Deadline passed for ${scheme.name}: ${run.marked_count} pending payments marked overdue`)
+      runs.push(run)
+    }
+
+    return runs
+  }
+
+  /**
+   * Claim and run one rule for today
+   * Returns null when the rule already ran today or today is outside the scheme's calendar
+   */
+  private static async runRule(rule: ScheduleRule, scheme: Scheme, now: Date): Promise<ScheduleRun | null> {
+    const month = toSchemeMonth(now)
+    if (!getSchemeMonths(scheme).includes(month)) {
+      return null
+    }
+
+    // Claim the rule for today; a unique violation means it already ran
+    const { data: claimed, error: claimError } = await supabase
+      .from('schedule_runs')
+      .insert({
+        rule_id: rule.id,
+        scheme_id: scheme.id,
+        month,
+        action: rule.action,
+        run_on: toSchemeDate(now)
+      })
+      .select()
+      .single()
+
+    if (claimError) {
+      if (claimError.code === UNIQUE_VIOLATION) {
+        return null
+      }
+      console.error(`Error claiming schedule rule ${rule.id}:`, claimError)
+      throw new Error(`Failed to start scheduled run: ${claimError.message}`)
+    }
+
+    let result: RunResult
+
+    try {
+      result = await this.executeRule(rule, scheme, month)
+    } catch (error) {
+      console.error(`Scheduled ${rule.action} for ${scheme.name} failed:`, error)
+      result = { status: 'failed', detail: error instanceof Error ? error.message : 'Unknown error' }
+    }
+
+    const { data: run, error } = await supabase
+      .from('schedule_runs')
+      .update(result)
+      .eq('id', claimed.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error(`Error logging schedule run ${claimed.id}:`, error)
+      throw new Error(`Failed to log scheduled run: ${error.message}`)
+    }
+
+    console.log(`⏰ Scheduled ${rule.action} for ${scheme.name}: ${result.status} - ${result.detail}`)
+    return run
+  }
+
+  /**
+   * Carry out the action of a rule for a scheme month
+   */
+  private static async executeRule(
+    rule: ScheduleRule,
+    scheme: Scheme,
+    month: MonthTable
+  ): Promise<RunResult> {
+    if (await this.isPaused(scheme, month)) {
+      return { status: 'skipped', detail: `Schedule is paused for ${formatMonthName(month)}` }
+    }
+
+    if (rule.action === 'mark_overdue') {
+      const count = await DatabaseService.markPendingAsOverdue(scheme, month)
+      return { status: 'success', detail: `${count} pending payment${count !== 1 ? 's' : ''} marked overdue`, marked_count: count }
+    }
+
+    const members = await DatabaseService.getMembers(scheme, month)
+    const recipients = rule.action === 'payment_reminder'
+      ? members.filter(member => member.payment_status === 'pending' || member.payment_status === 'overdue')
+      : members
+
+    const batch = await this.queueMessages(rule, scheme, month, recipients)
+    if (!batch) {
+      return { status: 'skipped', detail: `No members with a valid number who accept messages in ${formatMonthName(month)}` }
+    }
+
+    return { status: 'success', detail: batch.label, outbox_batch_id: batch.id }
+  }
+
+  /**
+   * Queue the messages of a reminder rule, leaving out invalid numbers and members who opted out
+   * Returns null when there is nobody to message
+   */
+  private static async queueMessages(rule: ScheduleRule, scheme: Scheme, month: MonthTable, members: Member[]): Promise<OutboxBatch | null> {
+    const plan = await planBulkMessages(
+      rule.action === 'payment_reminder' ? 'reminder' : 'draw_reminder',
+      members,
+      month,
+      scheme
+    )
+    const messages = getSendableEntries(dryRunBulkMessages(plan)).map(entry => entry.message)
+
+    if (messages.length === 0) {
+      return null
+    }
+
+    return queueBulkMessages({ ...plan, label: `${plan.label} (scheduled)`, messages }, scheme, month)
+  }
+}
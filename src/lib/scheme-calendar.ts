@@ -0,0 +1,204 @@
+/**
+ * Scheme Calendar
+ * Describes when a scheme batch starts and how many months it runs for
+ * The list of monthly register tables is generated from this instead of being hard-coded
+ */
+
+/**
+ * Lowercase English month names used in the monthly table names
+ * Index matches JavaScript's Date.getMonth() (0 = January)
+ */
+export const MONTH_NAMES = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december'
+] as const
+
+export type MonthName = typeof MONTH_NAMES[number]
+
+/**
+ * Name of a monthly register table, e.g. "september_2025"
+ */
+export type MonthTable = `${MonthName}_${number}`
+
+/**
+ * Scheme calendar configuration
+ * startYear/startMonth mark the first month of the batch (startMonth is 0-based)
+ * durationMonths is the total number of monthly installments in the batch
+ */
+export interface SchemeCalendar {
+  startYear: number
+  startMonth: number
+  durationMonths: number
+}
+
+/**
+ * Calendar of the original batch (September 2025, 16 months)
+ * Used whenever no calendar is configured through the environment
+ */
+export const DEFAULT_SCHEME_CALENDAR: SchemeCalendar = {
+  startYear: 2025,
+  startMonth: 8,
+  durationMonths: 16
+}
+
+/**
+ * Build a month table name from a year and a 0-based month index
+ * Month indexes outside 0-11 roll over into the neighbouring years
+ */
+export const toMonthTable = (year: number, monthIndex: number): MonthTable => {
+  const normalizedYear = year + Math.floor(monthIndex / 12)
+  const normalizedMonth = ((monthIndex % 12) + 12) % 12
+  return `${MONTH_NAMES[normalizedMonth]}_${normalizedYear}`
+}
+
+/**
+ * Split a month table name back into its year and 0-based month index
+ * Returns null when the value is not a valid month table name
+ */
+export const parseMonthTable = (month: string): { year: number; monthIndex: number } | null => {
+  const [monthName, year] = month.split('_')
+  const monthIndex = MONTH_NAMES.indexOf(monthName as MonthName)
+
+  if (monthIndex === -1 || !/^\d{4}$/.test(year || '')) {
+    return null
+  }
+
+  return { year: parseInt(year, 10), monthIndex }
+}
+
+/**
+ * Generate the ordered list of monthly tables covered by a calendar
+ */
+export const generateSchemeMonths = (calendar: SchemeCalendar): MonthTable[] => {
+  const months: MonthTable[] = []
+
+  for (let offset = 0; offset < calendar.durationMonths; offset++) {
+    months.push(toMonthTable(calendar.startYear, calendar.startMonth + offset))
+  }
+
+  return months
+}
+
+/**
+ * Parse a calendar from "YYYY-MM" start and duration strings
+ * Falls back to the default calendar when either value is missing or malformed
+ */
+export const parseSchemeCalendar = (start?: string, duration?: string): SchemeCalendar => {
+  const startMatch = start?.trim().match(/^(\d{4})-(\d{1,2})$/)
+  const durationMonths = duration ? parseInt(duration, 10) : NaN
+
+  if (!startMatch || !Number.isInteger(durationMonths) || durationMonths < 1) {
+    return DEFAULT_SCHEME_CALENDAR
+  }
+
+  const startMonth = parseInt(startMatch[2], 10) - 1
+  if (startMonth < 0 || startMonth > 11) {
+    return DEFAULT_SCHEME_CALENDAR
+  }
+
+  return {
+    startYear: parseInt(startMatch[1], 10),
+    startMonth,
+    durationMonths
+  }
+}
+
+/**
+ * Active scheme calendar
+ * A new batch is started by setting NEXT_PUBLIC_SCHEME_START (e.g. "2026-09")
+ * and NEXT_PUBLIC_SCHEME_DURATION (e.g. "16") in the .env file
+ */
+export const SCHEME_CALENDAR: SchemeCalendar = parseSchemeCalendar(
+  process.env.NEXT_PUBLIC_SCHEME_START,
+  process.env.NEXT_PUBLIC_SCHEME_DURATION
+)
+
+/**
+ * Day of the month by which the installment has to be paid
+ * Pending payments turn overdue the day after; set NEXT_PUBLIC_PAYMENT_DEADLINE_DAY (e.g. "11") to change it
+ */
+export const PAYMENT_DEADLINE_DAY: number = (() => {
+  const day = Number(process.env.NEXT_PUBLIC_PAYMENT_DEADLINE_DAY)
+  return Number.isInteger(day) && day >= 1 && day <= 28 ? day : 11
+})()
+
+/**
+ * Time zone of the shop; scheduled rules run on its dates and times wherever the scheduler runs
+ */
+export const SCHEME_TIME_ZONE = 'Asia/Kolkata'
+
+/**
+ * Date and time of a moment in the scheme time zone
+ * monthIndex is 0-based like Date.getMonth()
+ */
+export interface SchemeDateTime {
+  year: number
+  monthIndex: number
+  day: number
+  hours: number
+  minutes: number
+}
+
+const schemeTimeFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: SCHEME_TIME_ZONE,
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  hourCycle: 'h23'
+})
+
+/**
+ * Read a moment in the scheme time zone, e.g. 2026-10-04T20:00Z -> 5 October 2026, 01:30
+ */
+export const getSchemeDateTime = (date: Date = new Date()): SchemeDateTime => {
+  const parts = Object.fromEntries(
+    schemeTimeFormat.formatToParts(date).map(part => [part.type, Number(part.value)])
+  )
+
+  return {
+    year: parts.year,
+    monthIndex: parts.month - 1,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute
+  }
+}
+
+/**
+ * Pick the month of the calendar that matches today's date
+ * Before the batch starts this is the first month, after it ends the last month
+ */
+export const getCurrentSchemeMonth = (months: readonly MonthTable[], today: Date = new Date()): MonthTable => {
+  const currentMonth = toMonthTable(today.getFullYear(), today.getMonth())
+
+  if (months.includes(currentMonth)) {
+    return currentMonth
+  }
+
+  const first = parseMonthTable(months[0])
+  const isBeforeStart = first !== null &&
+    (today.getFullYear() < first.year || (today.getFullYear() === first.year && today.getMonth() < first.monthIndex))
+
+  return isBeforeStart ? months[0] : months[months.length - 1]
+}
+
+/**
+ * Months of the calendar that have already started (up to and including the current month)
+ * Used to avoid querying month tables that have not been created yet
+ */
+export const getElapsedSchemeMonths = (months: readonly MonthTable[], today: Date = new Date()): MonthTable[] => {
+  const currentIndex = months.indexOf(getCurrentSchemeMonth(months, today))
+  return months.slice(0, currentIndex + 1)
+}
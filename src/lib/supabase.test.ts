@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_SCHEME, derivePaymentStatus, getAdvanceAmount, getOutstandingBalance } from './supabase'
+
+describe('ledger balances', () => {
+  const member = { payment_status: 'pending' as const, installment_amount: null, paid_amount: 500 }
+
+  it('counts the balance against the scheme amount unless the member has their own', () => {
+    expect(getOutstandingBalance(DEFAULT_SCHEME, member)).toBe(1500)
+    expect(getOutstandingBalance(DEFAULT_SCHEME, { ...member, installment_amount: 1000 })).toBe(500)
+  })
+
+  it('carries anything paid beyond the installment as advance', () => {
+    expect(getOutstandingBalance(DEFAULT_SCHEME, { ...member, paid_amount: 2500 })).toBe(0)
+    expect(getAdvanceAmount(DEFAULT_SCHEME, { ...member, paid_amount: 2500 })).toBe(500)
+    expect(getAdvanceAmount(DEFAULT_SCHEME, member)).toBe(0)
+  })
+
+  it('owes nothing for members who need not pay', () => {
+    expect(getOutstandingBalance(DEFAULT_SCHEME, { ...member, payment_status: 'no_payment_required' })).toBe(0)
+  })
+})
+
+describe('derivePaymentStatus', () => {
+  it('marks a fully covered installment as paid', () => {
+    expect(derivePaymentStatus(DEFAULT_SCHEME, { payment_status: 'overdue', installment_amount: null }, 2000)).toBe('paid')
+  })
+
+  it('keeps a partial payment pending or overdue', () => {
+    expect(derivePaymentStatus(DEFAULT_SCHEME, { payment_status: 'pending', installment_amount: null }, 1999)).toBe('pending')
+    expect(derivePaymentStatus(DEFAULT_SCHEME, { payment_status: 'overdue', installment_amount: null }, 1000)).toBe('overdue')
+  })
+
+  it('sends a paid installment that is no longer covered back to pending', () => {
+    expect(derivePaymentStatus(DEFAULT_SCHEME, { payment_status: 'paid', installment_amount: null }, 0)).toBe('pending')
+  })
+
+  it('leaves members who need not pay alone', () => {
+    expect(derivePaymentStatus(DEFAULT_SCHEME, { payment_status: 'no_payment_required', installment_amount: null }, 0))
+      .toBe('no_payment_required')
+  })
+})
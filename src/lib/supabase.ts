@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js'
+import { MonthTable, SchemeCalendar, SCHEME_CALENDAR, PAYMENT_DEADLINE_DAY, generateSchemeMonths, parseMonthTable, parseSchemeCalendar } from './scheme-calendar'
+
+export type { MonthTable, SchemeCalendar } from './scheme-calendar'
 
 /**
  * Supabase configuration and client initialization
@@ -26,24 +29,64 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
 // Specific types for form options
 export type PaymentStatus = 'pending' | 'paid' | 'overdue' | 'no_payment_required'
-export type DrawStatus = 'not_drawn' | 'drawn' | 'winner' |
-  'winner_september_2025' | 'winner_october_2025' | 'winner_november_2025' | 'winner_december_2025' |
-  'winner_january_2026' | 'winner_february_2026' | 'winner_march_2026' | 'winner_april_2026' |
-  'winner_may_2026' | 'winner_june_2026' | 'winner_july_2026' | 'winner_august_2026' |
-  'winner_september_2026' | 'winner_october_2026' | 'winner_november_2026' | 'winner_december_2026'
-export type PaidToRecipient = 'Rafi'
+export type DrawStatus = 'not_drawn' | 'drawn' | 'winner' | `winner_${MonthTable}`
+export type PaidToRecipient = string // Name of an entry in the collectors list
+export type PaymentMode = 'cash' | 'upi' | 'bank'
+export type MessageLanguage = 'en' | 'te' | 'both'
+export type LateFeeType = 'none' | 'flat' | 'per_day'
+export type MessagingPreference = 'all' | 'receipts_only' | 'none'
+export type DeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed'
+export type ReceiptStatus = 'issued' | 'cancelled'
+export type MessageTemplate = 'reminder' | 'draw_reminder' | 'receipt' | 'token_assignment' | 'winner_announcement' | 'auto_reply' | 'custom'
+export type MessageTemplateKey = 'reminder' | 'overdue_reminder' | 'token_assignment' | 'draw_reminder' | 'receipt' | 'winner_announcement'
+
+// Scheme interface representing one chit group (batch) run from the dashboard
+// Each scheme has its own name, installment amount, calendar and member roster
+export interface Scheme {
+  id: number
+  name: string
+  installment_amount: number
+  start_month: string // First month of the batch in "YYYY-MM" format
+  duration_months: number
+  late_fee_type: LateFeeType // How overdue installments are charged
+  late_fee_amount: number // Flat fee, or fee per day late
+  late_fee_cap: number | null // Most a per-day fee can add up to
+  created_at: string
+}
+
+// Type for creating a new scheme (without auto-generated fields)
+export interface NewScheme {
+  name: string
+  installment_amount: number
+  start_month: string
+  duration_months: number
+  late_fee_type?: LateFeeType
+  late_fee_amount?: number
+  late_fee_cap?: number | null
+}
 
 // Member interface representing the structure of each table record
 export interface Member {
-  id: number
+  id: number // Persistent member id (same across all months)
+  installment_id: number // Row of this member's installment for the selected month
+  scheme_id: number
+  month: MonthTable
   token_number: number | null
   full_name: string
   mobile_number: string
   family: string
   payment_status: PaymentStatus
   paid_to: PaidToRecipient | null
+  paid_at: string | null // When the installment was paid (set on marking paid, editable)
+  payment_mode: PaymentMode | null
   draw_status: DrawStatus
   additional_information: string | null
+  installment_amount: number | null // Overrides the scheme amount for this member when set
+  preferred_language: MessageLanguage // Language of the member's WhatsApp messages
+  messaging_preference: MessagingPreference // Which WhatsApp messages the member agreed to get
+  messaging_preference_reason: string | null // Why the member opted out, e.g. "Asked on the phone"
+  messaging_preference_at: string | null // When the preference was last changed
+  paid_amount: number // Total of the payments ledger for this month's installment
   created_at: string
   updated_at: string
 }
@@ -55,50 +98,352 @@ export interface NewMember {
   family?: string
   payment_status?: PaymentStatus
   paid_to?: PaidToRecipient | null
+  paid_at?: string | null
+  payment_mode?: PaymentMode | null
   draw_status?: DrawStatus
   additional_information?: string | null
+  installment_amount?: number | null
+  preferred_language?: MessageLanguage
+  messaging_preference?: MessagingPreference
+  messaging_preference_reason?: string | null
+}
+
+// Collector interface representing a person who collects installments at the shop
+export interface Collector {
+  id: number
+  name: string
+  phone: string | null
+  is_active: boolean // Inactive collectors are kept for old records but can't be picked
+  created_at: string
+}
+
+// Type for adding a new collector (without auto-generated fields)
+export interface NewCollector {
+  name: string
+  phone?: string | null
+  is_active?: boolean
+}
+
+// Cash collected by one collector in a month, split by payment mode
+export interface CollectorSummary {
+  collector: string
+  total: number
+  byMode: Record<PaymentMode, number>
+  payments: number
+}
+
+// Payment interface representing one entry of an installment's payments ledger
+export interface Payment {
+  id: number
+  installment_id: number
+  amount: number
+  paid_at: string
+  mode: PaymentMode
+  collector: PaidToRecipient | null
+  note: string | null
+  carried_forward: boolean // Advance moved over from the previous month's overpayment
+  created_at: string
+}
+
+// Type for recording a new payment (without auto-generated fields)
+export interface NewPayment {
+  amount: number
+  paid_at?: string
+  mode: PaymentMode
+  collector?: PaidToRecipient | null
+  note?: string | null
+}
+
+// Numbered receipt of a payment, issued by the database when the payment is recorded
+// Receipts are never deleted; removing the payment cancels its receipt
+export interface Receipt {
+  id: number
+  receipt_number: string // e.g. "1-202610-0007": scheme, month and sequence within the month
+  scheme_id: number
+  month: MonthTable
+  sequence: number
+  payment_id: number | null // Null once the payment was removed
+  member_id: number | null
+  member_name: string
+  token_number: number | null
+  amount: number
+  paid_at: string
+  collector: PaidToRecipient | null
+  status: ReceiptStatus
+  cancelled_at: string | null
+  cancel_reason: string | null
+  verification_token: string // Random token in the receipt's verification link
+  created_at: string
+}
+
+// One WhatsApp send attempt from the message log
+export interface MessageLogEntry {
+  id: number
+  scheme_id: number | null
+  month: MonthTable | null
+  member_id: number | null
+  outbox_message_id: number | null
+  recipient_name: string | null
+  recipient_number: string
+  template: MessageTemplate
+  body: string // Rendered text that was sent
+  success: boolean
+  message_id: string | null // Id returned by the WhatsApp backend
+  error: string | null
+  delivery_status: DeliveryStatus | null // Reported by the WhatsApp backend, null for failed sends
+  delivery_updated_at: string | null
+  created_at: string
+}
+
+// Edited text of a WhatsApp message template, with {placeholder} fields
+export interface MessageTemplateText {
+  key: MessageTemplateKey
+  english: string
+  telugu: string // Empty when the message is sent in English only
+  updated_at: string
+}
+
+// How one member's installment will be created when the scheme moves to its next month
+export interface RolloverPreview {
+  member_id: number
+  full_name: string
+  token_number: number | null
+  payment_status: PaymentStatus // 'no_payment_required' for previous winners
+  draw_status: DrawStatus // 'drawn' for previous winners
+  carried_forward: number // Advance moved over from the current month
+}
+
+/**
+ * The original RAFI Gold Saving Scheme
+ * Used as a fallback when the schemes table has not been created yet
+ */
+export const DEFAULT_SCHEME: Scheme = {
+  id: 1,
+  name: 'RAFI Gold Saving Scheme',
+  installment_amount: 2000,
+  start_month: `${SCHEME_CALENDAR.startYear}-${String(SCHEME_CALENDAR.startMonth + 1).padStart(2, '0')}`,
+  duration_months: SCHEME_CALENDAR.durationMonths,
+  late_fee_type: 'none',
+  late_fee_amount: 0,
+  late_fee_cap: null,
+  created_at: new Date(0).toISOString()
+}
+
+/**
+ * The shop owner, who collects installments unless someone else is recorded
+ * Used as a fallback when the collectors table has not been created yet
+ */
+export const DEFAULT_COLLECTOR: Collector = {
+  id: 1,
+  name: 'Rafi',
+  phone: null,
+  is_active: true,
+  created_at: new Date(0).toISOString()
+}
+
+/**
+ * Helper function to get the monthly installment a member has to pay
+ * Uses the member's own amount when set, otherwise the scheme's amount
+ */
+export const getInstallmentAmount = (scheme: Scheme, member?: { installment_amount?: number | null } | null): number => {
+  return member?.installment_amount ?? scheme.installment_amount
+}
+
+/**
+ * Helper function to format an amount in rupees for display and messages
+ * Converts 2000 to "₹2,000" using Indian digit grouping
+ */
+export const formatAmount = (amount: number): string => {
+  return `₹${amount.toLocaleString('en-IN')}`
+}
+
+/**
+ * Helper function to get the amount a member owes for the month
+ * Previous winners don't pay, so nothing is due for them
+ */
+export const getAmountDue = (scheme: Scheme, member: Pick<Member, 'payment_status' | 'installment_amount'>): number => {
+  return member.payment_status === 'no_payment_required' ? 0 : getInstallmentAmount(scheme, member)
+}
+
+/**
+ * Helper function to get the balance still to be paid for the month
+ */
+export const getOutstandingBalance = (scheme: Scheme, member: Pick<Member, 'payment_status' | 'installment_amount' | 'paid_amount'>): number => {
+  return Math.max(0, getAmountDue(scheme, member) - member.paid_amount)
 }
 
 /**
- * List of all available months for the scheme
+ * Helper function to get the amount paid beyond what is due for the month
+ * Carried forward to the next month on rollover
+ */
+export const getAdvanceAmount = (scheme: Scheme, member: Pick<Member, 'payment_status' | 'installment_amount' | 'paid_amount'>): number => {
+  return Math.max(0, member.paid_amount - getAmountDue(scheme, member))
+}
+
+/**
+ * Helper function to count the days an installment is late
+ * Counts from the day after the month's payment deadline up to the payment date, or up to today while still overdue
+ * Pending installments are not late until they are marked overdue
+ */
+export const getDaysLate = (member: Pick<Member, 'month' | 'payment_status' | 'paid_at'>, today: Date = new Date()): number => {
+  const parsed = parseMonthTable(member.month)
+  if (!parsed) return 0
+
+  const lateFrom = member.payment_status === 'overdue' ? today
+    : member.payment_status === 'paid' && member.paid_at ? new Date(member.paid_at)
+    : null
+  if (!lateFrom) return 0
+
+  const firstLateDay = new Date(parsed.year, parsed.monthIndex, PAYMENT_DEADLINE_DAY + 1)
+  const elapsed = lateFrom.getTime() - firstLateDay.getTime()
+
+  return elapsed < 0 ? 0 : Math.floor(elapsed / (1000 * 3600 * 24)) + 1
+}
+
+/**
+ * Helper function to get the late fee of an installment under the scheme's late fee rule
+ * Flat fees are charged once, per-day fees grow with every day late up to the cap
+ */
+export const getLateFee = (scheme: Scheme, member: Pick<Member, 'month' | 'payment_status' | 'paid_at'>, today: Date = new Date()): number => {
+  const daysLate = getDaysLate(member, today)
+  if (daysLate === 0 || scheme.late_fee_type === 'none' || !scheme.late_fee_amount) return 0
+
+  const fee = scheme.late_fee_type === 'flat' ? scheme.late_fee_amount : scheme.late_fee_amount * daysLate
+  return Math.min(fee, scheme.late_fee_cap ?? Infinity)
+}
+
+/**
+ * Helper function to derive the payment status of a month from its ledger total
+ * Fully covered installments are paid, a paid installment that is no longer covered goes back to pending
+ * Pending/overdue are otherwise kept as they are (partial payments stay pending/overdue with a balance)
+ */
+export const derivePaymentStatus = (scheme: Scheme, member: Pick<Member, 'payment_status' | 'installment_amount'>, paidAmount: number): PaymentStatus => {
+  if (member.payment_status === 'no_payment_required') {
+    return member.payment_status
+  }
+
+  if (paidAmount >= getInstallmentAmount(scheme, member)) {
+    return 'paid'
+  }
+
+  return member.payment_status === 'paid' ? 'pending' : member.payment_status
+}
+
+/**
+ * Display labels for the payment modes
+ */
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  bank: 'Bank'
+}
+
+/**
+ * Display labels for the late fee rules
+ */
+export const LATE_FEE_TYPE_LABELS: Record<LateFeeType, string> = {
+  none: 'No late fee',
+  flat: 'Flat fee',
+  per_day: 'Fee per day late'
+}
+
+/**
+ * Display labels for the message languages
+ */
+export const MESSAGE_LANGUAGE_LABELS: Record<MessageLanguage, string> = {
+  en: 'English',
+  te: 'Telugu',
+  both: 'English + Telugu'
+}
+
+/**
+ * Display labels for the messaging preferences
+ */
+export const MESSAGING_PREFERENCE_LABELS: Record<MessagingPreference, string> = {
+  all: 'All messages',
+  receipts_only: 'Receipts only',
+  none: 'No messages'
+}
+
+/**
+ * Helper function to check whether a member's messaging preference allows a message
+ * Automatic answers are always sent, since the member asked for them
+ */
+export const isMessageAllowed = (preference: MessagingPreference | null | undefined, template: MessageTemplate): boolean => {
+  if (template === 'auto_reply' || !preference || preference === 'all') return true
+  return preference === 'receipts_only' && template === 'receipt'
+}
+
+/**
+ * Display labels for the delivery statuses
+ */
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+  failed: 'Not delivered'
+}
+
+/**
+ * Display labels for the message templates
+ */
+export const MESSAGE_TEMPLATE_LABELS: Record<MessageTemplate, string> = {
+  reminder: 'Payment Reminder',
+  draw_reminder: 'Draw Reminder',
+  receipt: 'Receipt',
+  token_assignment: 'Token Number',
+  winner_announcement: 'Winner Announcement',
+  auto_reply: 'Automatic Reply',
+  custom: 'Other'
+}
+
+/**
+ * Helper function to format the recorded payment date of an installment
+ * Returns null when no payment date has been recorded
+ */
+export const formatPaymentDate = (member: Pick<Member, 'paid_at'>): string | null => {
+  if (!member.paid_at) return null
+
+  return new Date(member.paid_at).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+/**
+ * Helper function to get the calendar of a scheme
+ */
+export const getSchemeCalendar = (scheme: Scheme): SchemeCalendar => {
+  return parseSchemeCalendar(scheme.start_month, String(scheme.duration_months))
+}
+
+/**
+ * Helper function to list all months of a scheme in order
  * Used for table selection and month navigation
- * Starting from September 2025 and extending for 16 months total
- * This covers the complete scheme period from September 2025 to December 2026
- */
-export const MONTHS = [
-  'september_2025',
-  'october_2025',
-  'november_2025',
-  'december_2025',
-  'january_2026',
-  'february_2026',
-  'march_2026',
-  'april_2026',
-  'may_2026',
-  'june_2026',
-  'july_2026',
-  'august_2026',
-  'september_2026',
-  'october_2026',
-  'november_2026',
-  'december_2026'
-] as const
-
-export type MonthTable = typeof MONTHS[number]
+ */
+export const getSchemeMonths = (scheme: Scheme): MonthTable[] => {
+  return generateSchemeMonths(getSchemeCalendar(scheme))
+}
 
 /**
  * Helper function to format month names for display
  */
 export const formatMonthName = (month: MonthTable): string => {
-  const [monthName, year] = month.split('_')
-  return `${monthName.charAt(0).toUpperCase() + monthName.slice(1)} ${year}`
+  const parsed = parseMonthTable(month)
+  if (!parsed) return month
+
+  const [monthName] = month.split('_')
+  return `${monthName.charAt(0).toUpperCase() + monthName.slice(1)} ${parsed.year}`
 }
 
 /**
  * Helper function to create winner draw status for a specific month
  */
 export const createWinnerDrawStatus = (month: MonthTable): DrawStatus => {
-  return `winner_${month}` as DrawStatus
+  return `winner_${month}`
 }
 
 /**
@@ -114,7 +459,7 @@ export const isWinnerStatus = (drawStatus: DrawStatus): boolean => {
 export const getWinnerMonth = (drawStatus: DrawStatus): MonthTable | null => {
   if (!isWinnerStatus(drawStatus)) return null
   const month = drawStatus.replace('winner_', '') as MonthTable
-  return MONTHS.includes(month) ? month : null
+  return parseMonthTable(month) ? month : null
 }
 
 /**
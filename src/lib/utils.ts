@@ -46,6 +46,19 @@ export function generateTokenNumber(existingTokens: number[]): number {
   return nextToken
 }
 
+/**
+ * Format a day of the month as an ordinal
+ * Converts 1, 2, 11, 23 to "1st", "2nd", "11th", "23rd"
+ */
+export function formatOrdinalDay(day: number): string {
+  const lastTwo = day % 100
+  if (lastTwo >= 11 && lastTwo <= 13) {
+    return `${day}th`
+  }
+  const suffix = ['th', 'st', 'nd', 'rd'][day % 10] || 'th'
+  return `${day}${suffix}`
+}
+
 /**
  * Format token number for display with "#" prefix
  * Converts token number to "#1", "#2", "#3" format
@@ -57,6 +70,18 @@ export function formatTokenDisplay(tokenNumber: number | null): string {
   return `#${tokenNumber}`
 }
 
+/**
+ * Convert an ISO timestamp to the "YYYY-MM-DDTHH:mm" local format used by datetime-local inputs
+ */
+export function toDateTimeLocalValue(isoString: string | null | undefined): string {
+  if (!isoString) {
+    return ''
+  }
+  const date = new Date(isoString)
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
 /**
  * Sort members alphabetically by full name
  * Used for displaying members in alphabetical order
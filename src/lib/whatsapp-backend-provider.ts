@@ -0,0 +1,209 @@
+/**
+ * WhatsApp Backend Provider
+ * Sends messages through our own WhatsApp backend at NEXT_PUBLIC_WHATSAPP_API_URL
+ */
+
+import { MessageAttachment, MessagingProvider, MessagingProviderId, ProviderHealth, ProviderStatus, SendResult } from './messaging-provider';
+
+// WhatsApp backend API configuration
+const WHATSAPP_API_BASE = process.env.NEXT_PUBLIC_WHATSAPP_API_URL;
+
+/**
+ * WhatsApp API Response Types
+ */
+interface WhatsAppResponse {
+  success: boolean;
+  data?: {
+    messageId?: string;
+    timestamp?: string;
+    to?: string;
+    message?: string;
+    isReady?: boolean;
+    connectionStatus?: string;
+    clientId?: string;
+  };
+  message?: string;
+  error?: string;
+  timestamp?: string;
+}
+
+interface WhatsAppStatusResponse {
+  success: boolean;
+  data: {
+    isReady: boolean;
+    connectionStatus: string;
+    timestamp: string;
+    clientId: string;
+  };
+  message: string;
+}
+
+/**
+ * Provider for the WhatsApp backend
+ */
+export class WhatsAppBackendProvider implements MessagingProvider {
+  id: MessagingProviderId = 'whatsapp-backend';
+  label = 'WhatsApp Backend';
+
+  /**
+   * Post a message to the WhatsApp backend with improved error handling
+   * Messages with an attachment go to the media endpoint, with the message as caption
+   * @param phoneNumber - Recipient's formatted phone number
+   * @param message - Message content
+   * @param attachment - Document sent with the message
+   * @returns Promise with API response
+   */
+  async send(phoneNumber: string, message: string, attachment?: MessageAttachment): Promise<SendResult> {
+    try {
+      console.log(`📤 Sending WhatsApp ${attachment ? 'document' : 'message'} to ${phoneNumber}`);
+
+      const requestBody = attachment
+        ? { number: phoneNumber, caption: message, media: attachment }
+        : { number: phoneNumber, message: message };
+
+      const response = await fetch(`${WHATSAPP_API_BASE}/api/whatsapp/${attachment ? 'send-media' : 'send'}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+        // Add timeout to prevent hanging requests
+        signal: AbortSignal.timeout(30000) // 30 second timeout
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`❌ HTTP Error ${response.status}:`, errorText);
+        throw new Error(`HTTP error! status: ${response.status}, message: ${errorText}`);
+      }
+
+      const result: WhatsAppResponse = await response.json();
+
+      // Check for success in the response
+      if (result.success === true) {
+        console.log(`✅ Message sent successfully to ${phoneNumber}`);
+        return {
+          success: true,
+          data: result.data,
+          message: result.message || 'Message sent successfully'
+        };
+      } else {
+        console.error(`❌ Failed to send message to ${phoneNumber}:`, result.error || result.message);
+        return {
+          success: false,
+          error: result.error || 'Unknown error',
+          message: result.message || 'Failed to send message'
+        };
+      }
+    } catch (error) {
+      console.error(`❌ Error sending WhatsApp message to ${phoneNumber}:`, error);
+
+      // Check if it's a network error
+      if (error instanceof TypeError && error.message.includes('fetch')) {
+        return {
+          success: false,
+          error: 'Network error',
+          message: 'Cannot connect to WhatsApp backend. Please ensure the backend is running on ' + WHATSAPP_API_BASE
+        };
+      }
+
+      // Check if it's a timeout error
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        return {
+          success: false,
+          error: 'Timeout error',
+          message: 'Request timed out. Please try again.'
+        };
+      }
+
+      return {
+        success: false,
+        error: 'Failed to send message',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Check WhatsApp backend connection status
+   * @returns Promise with connection status
+   */
+  async status(): Promise<ProviderStatus> {
+    try {
+      // First check if backend is accessible
+      const healthCheck = await this.health();
+      if (!healthCheck.isAccessible) {
+        return {
+          isReady: false,
+          status: 'Backend not running',
+          error: healthCheck.error
+        };
+      }
+
+      console.log(`🔍 Checking WhatsApp status at ${WHATSAPP_API_BASE}/api/whatsapp/status`);
+
+      const response = await fetch(`${WHATSAPP_API_BASE}/api/whatsapp/status`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result: WhatsAppStatusResponse = await response.json();
+      console.log(`📦 Status response:`, result);
+
+      // Extract status from the nested data structure
+      const isReady = result.data?.isReady || false;
+      const status = result.data?.connectionStatus || 'unknown';
+
+      return {
+        isReady,
+        status
+      };
+    } catch (error) {
+      console.error('❌ Error checking WhatsApp status:', error);
+      return {
+        isReady: false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Check if WhatsApp backend is accessible
+   * @returns Promise with backend accessibility status
+   */
+  async health(): Promise<ProviderHealth> {
+    try {
+      console.log(`🔍 Checking backend health at ${WHATSAPP_API_BASE}/health`);
+
+      const response = await fetch(`${WHATSAPP_API_BASE}/health`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      console.log(`📊 Health check status: ${response.status}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const healthData = await response.json();
+      console.log(`📦 Health data:`, healthData);
+
+      return {
+        isAccessible: true,
+        status: 'Backend is running'
+      };
+    } catch (error) {
+      console.error('❌ Error checking backend health:', error);
+      return {
+        isAccessible: false,
+        status: 'Backend not accessible',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
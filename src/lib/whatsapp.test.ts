@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { formatPhoneNumber, isValidWhatsAppNumber } from './whatsapp'
+
+describe('formatPhoneNumber', () => {
+  it('adds the India country code to 10-digit numbers', () => {
+    expect(formatPhoneNumber('9876543210')).toBe('919876543210')
+    expect(formatPhoneNumber('98765 43210')).toBe('919876543210')
+  })
+
+  it('keeps numbers that already have the country code', () => {
+    expect(formatPhoneNumber('+91 98765-43210')).toBe('919876543210')
+    expect(formatPhoneNumber('919876543210')).toBe('919876543210')
+  })
+
+  it('returns other numbers with only their digits', () => {
+    expect(formatPhoneNumber('0-98765-43210')).toBe('09876543210')
+    expect(formatPhoneNumber('12345')).toBe('12345')
+  })
+})
+
+describe('isValidWhatsAppNumber', () => {
+  it('accepts Indian mobile numbers with or without the country code', () => {
+    expect(isValidWhatsAppNumber('9876543210')).toBe(true)
+    expect(isValidWhatsAppNumber('+91 98765 43210')).toBe(true)
+  })
+
+  it('rejects numbers that are too short, too long or from elsewhere', () => {
+    expect(isValidWhatsAppNumber('12345')).toBe(false)
+    expect(isValidWhatsAppNumber('098765432101')).toBe(false)
+    expect(isValidWhatsAppNumber('4915112345678')).toBe(false)
+    expect(isValidWhatsAppNumber('')).toBe(false)
+  })
+})
@@ -1,65 +1,35 @@
 /**
  * WhatsApp Integration Utilities
- * Handles communication with the WhatsApp backend for sending reminder messages
+ * Builds the WhatsApp messages and sends them through the active messaging provider
  */
 
-import { Member, MonthTable } from './supabase'
-
-// WhatsApp backend API configuration
-const WHATSAPP_API_BASE = process.env.NEXT_PUBLIC_WHATSAPP_API_URL;
-console.log('WHATSAPP_API_BASE', WHATSAPP_API_BASE);
-
-/**
- * WhatsApp API Response Types
- */
-interface WhatsAppResponse {
-  success: boolean;
-  data?: {
-    messageId?: string;
-    timestamp?: string;
-    to?: string;
-    message?: string;
-    isReady?: boolean;
-    connectionStatus?: string;
-    clientId?: string;
-  };
-  message?: string;
-  error?: string;
-  timestamp?: string;
-}
-
-interface WhatsAppStatusResponse {
-  success: boolean;
-  data: {
-    isReady: boolean;
-    connectionStatus: string;
-    timestamp: string;
-    clientId: string;
-  };
-  message: string;
-}
-
-
+import { supabase, Member, MonthTable, MessageLanguage, MessageTemplate, Receipt, Scheme, DEFAULT_SCHEME, formatMonthName, formatAmount, getInstallmentAmount, getOutstandingBalance, getLateFee, formatPaymentDate, isMessageAllowed, PAYMENT_MODE_LABELS } from './supabase'
+import { SCHEME_CALENDAR, PAYMENT_DEADLINE_DAY } from './scheme-calendar'
+import { formatOrdinalDay } from './utils'
+import { TemplateValues, renderMessage } from './message-templates'
+import { getVerificationUrl } from './receipt-verification'
+import { SendResult, ProviderHealth, ProviderStatus, MessageAttachment, getMessagingProvider } from './messaging-provider'
 
 /**
- * Calculate days remaining until the 11th deadline
+ * Calculate days remaining until the payment deadline of the month
+ * @param now - Moment to calculate from, defaults to the current time
  * @returns Object containing days remaining and deadline information
  */
-export function calculateDeadlineInfo(): {
+export function calculateDeadlineInfo(now: Date = new Date()): {
   daysRemaining: number;
   deadlineDate: Date;
   isOverdue: boolean;
   currentMonth: string;
+  deadline: string;
 } {
-  const now = new Date();
   const currentYear = now.getFullYear();
   const currentMonth = now.getMonth();
 
-  // Create deadline date (11th of current month)
-  const deadlineDate = new Date(currentYear, currentMonth, 11);
+  // Create deadline date (deadline day of current month)
+  const deadlineDate = new Date(currentYear, currentMonth, PAYMENT_DEADLINE_DAY);
 
-  // If we're past the 11th, the deadline is the 11th of next month
-  if (now.getDate() > 11) {
+  // If we're past the deadline day, the deadline is the same day of next month
+  if (now.getDate() > PAYMENT_DEADLINE_DAY) {
     deadlineDate.setMonth(currentMonth + 1);
   }
 
@@ -67,8 +37,8 @@ export function calculateDeadlineInfo(): {
   const timeDiff = deadlineDate.getTime() - now.getTime();
   const daysRemaining = Math.ceil(timeDiff / (1000 * 3600 * 24));
 
-  // Check if overdue (past the 11th)
-  const isOverdue = now.getDate() > 11;
+  // Check if overdue (past the deadline day)
+  const isOverdue = now.getDate() > PAYMENT_DEADLINE_DAY;
 
   // Get current month name
   const monthNames = [
@@ -81,7 +51,8 @@ export function calculateDeadlineInfo(): {
     daysRemaining: Math.max(0, daysRemaining),
     deadlineDate,
     isOverdue,
-    currentMonth: currentMonthName
+    currentMonth: currentMonthName,
+    deadline: `${formatOrdinalDay(PAYMENT_DEADLINE_DAY)} ${currentMonthName}`
   };
 }
 
@@ -114,679 +85,301 @@ export function formatPhoneNumber(phoneNumber: string): string {
 }
 
 /**
- * Generate reminder message for unpaid members
- * @param memberName - Name of the member
- * @param isOverdue - Whether payment is overdue
- * @returns Formatted reminder message
+ * Check whether a phone number can be sent to on WhatsApp
+ * Numbers that only get through formatPhoneNumber's fallback (not a 10-digit or 91-prefixed Indian number) are invalid
+ * @param phoneNumber - Raw phone number
+ * @returns Whether the number is a valid WhatsApp number
  */
-export function generateReminderMessage(memberName: string, isOverdue: boolean = false): string {
-  const { currentMonth, isOverdue: deadlineOverdue } = calculateDeadlineInfo();
-
-  if (isOverdue || deadlineOverdue) {
-    return `🔴 *Payment Overdue Alert*
-
-Dear ${memberName},
-
-Your payment for ${currentMonth} is *OVERDUE*. The deadline was 11th ${currentMonth}.
-
-Please complete your payment immediately to avoid any inconvenience.
-
-Thank you for your prompt attention.
-
-*Rafi Scheme Team*`;
-  } else {
-    return `
-⚠️ *PAYMENT REMINDER*
-
-Respected ${memberName},
-
-You are kindly requested to pay the scheme amount of *₹2000* on or before the *10th*.
-On the *11th at 7:00 PM*, the Scheme Draw will be conducted.
-Those who have the opportunity may come directly to the shop, pay *₹2000*, and collect the receipt.
-
-Yours,
-*Syed Rafi, Ponnur.*
-
------------------------------------------------
-⚠️ *చెల్లింపు గుర్తు*
+export function isValidWhatsAppNumber(phoneNumber: string): boolean {
+  const formatted = formatPhoneNumber(phoneNumber);
+  return formatted.length === 12 && formatted.startsWith('91');
+}
 
-గౌరవనీయులైన ${memberName} గారికి,
+/**
+ * Placeholder values of a member's month, used by the receipt and winner templates
+ * and by the template editor preview
+ * @param member - Member object with all details
+ * @param currentMonth - Month the message is about
+ * @param scheme - Scheme the member belongs to
+ * @returns Values of all member placeholders
+ */
+export function getMemberTemplateValues(member: Member, currentMonth: MonthTable, scheme: Scheme = DEFAULT_SCHEME): TemplateValues {
+  const balance = getOutstandingBalance(scheme, member)
+  const lateFee = getLateFee(scheme, member)
 
-స్కీం తాలూకు కట్టవలసిన *₹2000* *10 తారీకు* లోపు చెల్లించవలసినదిగా కోరుచున్నాను.
-*11 వ తారీకు సాయంత్రము 7 గంటలకు* షాపులు డ్రా తీయబడును.
-అవకాశం ఉన్నవాళ్లు షాపు దగ్గరికి వచ్చి *₹2000* కట్టి రసీదు తీసుకోవాల్సిందిగా కోరుచున్నాను.
+  // Date the installment was paid, or today's date for a receipt of an unpaid month
+  const paidOn = member.payment_status === 'paid'
+    ? formatPaymentDate(member) ?? 'Not recorded'
+    : new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
 
-భక్తితో,
-*సయ్యద్ రఫీ, పొన్నూరు.*
-`
+  return {
+    name: member.full_name,
+    token: member.token_number ? `#${member.token_number.toString().padStart(2, '0')}` : 'N/A',
+    amount: formatAmount(getInstallmentAmount(scheme, member)),
+    month: formatMonthName(currentMonth),
+    scheme: scheme.name.toUpperCase(),
+    duration: scheme.duration_months.toString(),
+    family: member.family,
+    mobile: formatPhoneNumber(member.mobile_number),
+    paid: formatAmount(member.paid_amount),
+    balance: balance > 0 ? formatAmount(balance) : '',
+    late_fee: lateFee > 0 ? formatAmount(lateFee) : '',
+    status: member.payment_status.toUpperCase(),
+    paid_to: member.paid_to ?? '',
+    mode: member.payment_mode ? PAYMENT_MODE_LABELS[member.payment_mode] : '',
+    paid_on: paidOn,
+    receipt_no: '',
+    verify_link: '',
+    today: new Date().toLocaleDateString()
   }
 }
 
+/**
+ * Generate reminder message for unpaid members
+ * @param memberName - Name of the member
+ * @param isOverdue - Whether payment is overdue
+ * @param amount - Monthly installment amount the member has to pay
+ * @param language - Preferred language of the member
+ * @param lateFee - Late fee owed on top of the amount, shown in the overdue variant
+ * @returns Formatted reminder message
+ */
+export function generateReminderMessage(
+  memberName: string,
+  isOverdue: boolean = false,
+  amount: number = DEFAULT_SCHEME.installment_amount,
+  language: MessageLanguage = 'both',
+  lateFee: number = 0
+): string {
+  const { currentMonth, deadline, isOverdue: deadlineOverdue } = calculateDeadlineInfo();
+
+  return renderMessage(isOverdue || deadlineOverdue ? 'overdue_reminder' : 'reminder', {
+    name: memberName,
+    amount: formatAmount(amount),
+    month: currentMonth,
+    deadline,
+    late_fee: lateFee > 0 ? formatAmount(lateFee) : '',
+    total: lateFee > 0 ? formatAmount(amount + lateFee) : ''
+  }, language);
+}
+
 /**
  * Generate token assignment message for members
  * @param memberName - Name of the member
  * @param tokenNumber - Assigned token number
+ * @param durationMonths - Number of months the scheme runs for
+ * @param language - Preferred language of the member
  * @returns Formatted token assignment message
  */
-export function generateTokenAssignmentMessage(memberName: string, tokenNumber: number): string {
-  return `⚠️ *TOKEN NUMBER INFORMATION*
-
-Respected ${memberName},
-
-Your scheme token number is *${tokenNumber}*.
-This token number will remain permanent for *16 months*.
-The numbers will not change in between, and in the draw as well, this same token number *${tokenNumber}* will be considered.
-
----------------------------------
-
-గౌరవనీయులైన ${memberName},
-
-మీ యొక్క స్కీం టోకెన్ నెంబరు *${tokenNumber}*.
-మీకు పంపించబడుతున్న ఈ టోకెన్ నంబరు ఇక పర్మనెంట్ గా *16 నెలలు* ఇదే నంబరు ఉంటుంది.
-మధ్యలో నంబర్లు మారవు, డ్రాలో కూడా ఈ టోకెన్ నంబరు *${tokenNumber}* తీయబడును.
-
-*Rafi Scheme Team*`;
+export function generateTokenAssignmentMessage(
+  memberName: string,
+  tokenNumber: number,
+  durationMonths: number = SCHEME_CALENDAR.durationMonths,
+  language: MessageLanguage = 'both'
+): string {
+  return renderMessage('token_assignment', {
+    name: memberName,
+    // The token message has always shown the plain number, e.g. *7*
+    token: tokenNumber.toString(),
+    duration: durationMonths.toString()
+  }, language);
 }
 
 /**
  * Generate draw reminder message for all members
+ * @param language - Preferred language of the member
  * @returns Formatted draw reminder message
  */
-export function generateDrawReminderMessage(): string {
-  return `⚠️SHEME DRAW
-
-Today at 7:00 PM there will be a draw with all the paid customers, please stay tuned and look forward for the results
-
-Hoping the best of luck for you
-
------------------------------------
-
-⚠️ స్కీమ్ డ్రా
-
-ఈరోజు సాయంత్రం 7:00 గంటలకు అన్ని పేమెంట్ చేసిన కస్టమర్స్ కోసం డ్రా ఉంటుంది.
-దయచేసి స్టే ట్యూన్ గా ఉండండి మరియు రిజల్ట్స్ కోసం వెయిట్ చేయండి.
-
-మీకు బెస్ట్ ఆఫ్ లక్!
+export function generateDrawReminderMessage(language: MessageLanguage = 'both'): string {
+  return renderMessage('draw_reminder', {}, language);
+}
 
-*Rafi Scheme Team*`;
+/**
+ * Generate winner announcement message shared after the live draw
+ * @param member - Member who won the draw
+ * @param currentMonth - Month the draw was held for
+ * @param scheme - Scheme the draw belongs to
+ * @param language - Language of the announcement, both by default since it is shared with everyone
+ * @returns Formatted winner announcement message
+ */
+export function generateWinnerAnnouncementMessage(
+  member: Member,
+  currentMonth: MonthTable,
+  scheme: Scheme = DEFAULT_SCHEME,
+  language: MessageLanguage = 'both'
+): string {
+  return renderMessage('winner_announcement', getMemberTemplateValues(member, currentMonth, scheme), language);
 }
 
 /**
- * Generate receipt message for WhatsApp
+ * Generate receipt message for WhatsApp in the member's preferred language
  * @param member - Member object with all details
  * @param currentMonth - Current month information
+ * @param scheme - Scheme the receipt is issued for (name and installment amount)
+ * @param receipts - Receipts of the month's payments; the issued ones are numbered on the message
+ *                   and the latest of them is linked for verification
  * @returns Formatted receipt message for WhatsApp
  */
-export function generateReceiptMessage(member: Member, currentMonth: MonthTable): string {
-  const getPaymentDate = () => {
-    if (member.payment_status === 'paid') {
-      const date = new Date(member.updated_at)
-      return date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit'
-      })
-    } else {
-      return new Date().toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      })
-    }
-  }
-
-  const formatTokenDisplay = (tokenNumber: number) => {
-    return `#${tokenNumber.toString().padStart(2, '0')}`
-  }
-
-  const formatMonthName = (month: MonthTable) => {
-    const [monthName, year] = month.split('_')
-    return `${monthName.charAt(0).toUpperCase() + monthName.slice(1)} ${year}`
-  }
-
-  return `📄 *PAYMENT RECEIPT*
-
-*RAFI GOLD SAVING SCHEME*
-
-*Token Number:* ${member.token_number ? formatTokenDisplay(member.token_number) : 'N/A'}
-*Member Name:* ${member.full_name}
-*Mobile:* ${formatPhoneNumber(member.mobile_number)}
-*Family:* ${member.family}
-*Month:* ${formatMonthName(currentMonth)}
-*Amount:* ₹2000
-*Payment Status:* ${member.payment_status.toUpperCase()}
-${member.paid_to ? `*Paid To:* ${member.paid_to}` : ''}
-*Payment Date:* ${getPaymentDate()}
-
-Thank you for your payment!
-
-Generated on: ${new Date().toLocaleDateString()}
-
-*RAFI GOLD SAVING SCHEME*
-This receipt serves as proof of payment.`
+export function generateReceiptMessage(
+  member: Member,
+  currentMonth: MonthTable,
+  scheme: Scheme = DEFAULT_SCHEME,
+  receipts: Receipt[] = []
+): string {
+  const issued = receipts.filter(receipt => receipt.status === 'issued');
+  const latest = issued.at(-1);
+
+  return renderMessage('receipt', {
+    ...getMemberTemplateValues(member, currentMonth, scheme),
+    receipt_no: issued.map(receipt => receipt.receipt_number).join(', '),
+    verify_link: latest ? getVerificationUrl(latest) : ''
+  }, member.preferred_language);
 }
 
 /**
- * Send token assignment messages to multiple members with retry mechanism
- * @param members - Array of members with token numbers assigned
- * @param onProgress - Callback function for progress updates
- * @returns Promise with results summary
+ * What a message is about, stored with every attempt in the message log
  */
-export async function sendTokenAssignmentMessages(
-  members: Array<{ id: number; full_name: string; mobile_number: string; token_number: number }>,
-  onProgress?: (current: number, total: number, memberName: string) => void
-): Promise<{
-  success: boolean;
-  sent: number;
-  failed: number;
-  errors: Array<{ memberId: number; memberName: string; error: string }>;
-}> {
-  const results = {
-    success: true,
-    sent: 0,
-    failed: 0,
-    errors: [] as Array<{ memberId: number; memberName: string; error: string }>
-  };
-
-  console.log(`📤 Starting token assignment messages to ${members.length} members`);
-
-  for (let i = 0; i < members.length; i++) {
-    const member = members[i];
-
-    // Skip members without token numbers
-    if (!member.token_number) {
-      console.log(`⚠️ Skipping ${member.full_name} - no token number assigned`);
-      continue;
-    }
-
-    // Update progress
-    onProgress?.(i + 1, members.length, member.full_name);
-
-    // Generate token assignment message
-    const message = generateTokenAssignmentMessage(member.full_name, member.token_number);
-
-    // Send message with retry mechanism
-    let retryCount = 0;
-    const maxRetries = 3;
-    let messageSent = false;
-
-    while (retryCount < maxRetries && !messageSent) {
-      try {
-        const result = await sendWhatsAppMessage(member.mobile_number, message);
-
-        if (result.success === true) {
-          results.sent++;
-          console.log(`✅ Token assignment message sent to ${member.full_name} (Token: ${member.token_number})`);
-          messageSent = true;
-        } else {
-          retryCount++;
-          if (retryCount < maxRetries) {
-            console.warn(`⚠️ Retry ${retryCount}/${maxRetries} for ${member.full_name}: ${result.error}`);
-            // Wait longer between retries
-            await new Promise(resolve => setTimeout(resolve, 2000 * retryCount));
-          } else {
-            results.failed++;
-            results.errors.push({
-              memberId: member.id,
-              memberName: member.full_name,
-              error: result.error || result.message || 'Unknown error'
-            });
-            console.error(`❌ Failed to send token assignment message to ${member.full_name} after ${maxRetries} retries:`, result.error);
-          }
-        }
-      } catch (error) {
-        retryCount++;
-        if (retryCount < maxRetries) {
-          console.warn(`⚠️ Retry ${retryCount}/${maxRetries} for ${member.full_name} due to error:`, error);
-          await new Promise(resolve => setTimeout(resolve, 2000 * retryCount));
-        } else {
-          results.failed++;
-          results.errors.push({
-            memberId: member.id,
-            memberName: member.full_name,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-          console.error(`❌ Failed to send token assignment message to ${member.full_name} after ${maxRetries} retries:`, error);
-        }
-      }
-    }
-
-    // Add delay between messages to avoid rate limiting
-    await new Promise(resolve => setTimeout(resolve, 1500));
-  }
-
-  console.log(`📊 Token assignment messages completed: ${results.sent} sent, ${results.failed} failed`);
-
-  if (results.failed > 0) {
-    console.warn(`⚠️ ${results.failed} messages failed. Consider retrying failed messages.`);
-  }
-
-  return results;
+export interface MessageContext {
+  template: MessageTemplate;
+  memberId?: number | null;
+  recipientName?: string | null;
+  schemeId?: number | null;
+  month?: MonthTable | null;
+  outboxMessageId?: number | null;
 }
 
+/**
+ * Error of a send that was stopped by the recipient's messaging preference
+ */
+export const OPTED_OUT_ERROR = 'Opted out';
 
+/**
+ * Error of a send that was stopped because the recipient's messaging preference couldn't be read
+ * Not final: the outbox retries it like any other failed send
+ */
+export const PREFERENCE_UNAVAILABLE_ERROR = 'Preference unavailable';
 
 /**
- * Send WhatsApp message using the backend API with improved error handling
+ * Longest wait (ms) for the messaging preference before the send is stopped
+ */
+const PREFERENCE_TIMEOUT_MS = 10000;
+
+/**
+ * Send WhatsApp message with the active messaging provider and record the attempt in the message log
+ * Every send goes through here, so members who opted out are never messaged by any sender
  * @param phoneNumber - Recipient's phone number
  * @param message - Message content
+ * @param context - Template, member and month the message belongs to
+ * @param attachment - Document sent with the message, e.g. a PDF receipt
  * @returns Promise with API response
  */
 export async function sendWhatsAppMessage(
   phoneNumber: string,
-  message: string
-): Promise<{ success: boolean; error?: string; message?: string; data?: WhatsAppResponse['data'] }> {
-  try {
-    const formattedNumber = formatPhoneNumber(phoneNumber);
-
-    console.log(`📤 Sending WhatsApp message to ${formattedNumber}`);
-
-    const requestBody = {
-      number: formattedNumber,
-      message: message
-    };
-
-    const response = await fetch(`${WHATSAPP_API_BASE}/api/whatsapp/send`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-      // Add timeout to prevent hanging requests
-      signal: AbortSignal.timeout(30000) // 30 second timeout
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ HTTP Error ${response.status}:`, errorText);
-      throw new Error(`HTTP error! status: ${response.status}, message: ${errorText}`);
-    }
-
-    const result: WhatsAppResponse = await response.json();
-
-    // Check for success in the response
-    if (result.success === true) {
-      console.log(`✅ Message sent successfully to ${formattedNumber}`);
-      return {
-        success: true,
-        data: result.data,
-        message: result.message || 'Message sent successfully'
-      };
-    } else {
-      console.error(`❌ Failed to send message to ${formattedNumber}:`, result.error || result.message);
-      return {
-        success: false,
-        error: result.error || 'Unknown error',
-        message: result.message || 'Failed to send message'
-      };
-    }
-  } catch (error) {
-    console.error(`❌ Error sending WhatsApp message to ${phoneNumber}:`, error);
-
-    // Check if it's a network error
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      return {
+  message: string,
+  context: MessageContext = { template: 'custom' },
+  attachment?: MessageAttachment
+): Promise<SendResult> {
+  const recipient = context.recipientName || formatPhoneNumber(phoneNumber);
+  const optedOut = await isRecipientOptedOut(phoneNumber, context);
+  const result = optedOut === null
+    ? {
         success: false,
-        error: 'Network error',
-        message: 'Cannot connect to WhatsApp backend. Please ensure the backend is running on ' + WHATSAPP_API_BASE
-      };
-    }
-
-    // Check if it's a timeout error
-    if (error instanceof Error && error.name === 'TimeoutError') {
-      return {
-        success: false,
-        error: 'Timeout error',
-        message: 'Request timed out. Please try again.'
-      };
-    }
+        error: PREFERENCE_UNAVAILABLE_ERROR,
+        message: `Could not check whether ${recipient} opted out, the message was not sent`
+      }
+    : optedOut
+      ? {
+          success: false,
+          error: OPTED_OUT_ERROR,
+          message: `${recipient} has opted out of these messages`
+        }
+      : await getMessagingProvider().send(formatPhoneNumber(phoneNumber), message, attachment);
 
-    return {
-      success: false,
-      error: 'Failed to send message',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
+  await logMessageAttempt(phoneNumber, message, context, result);
+  return result;
 }
 
 /**
- * Send bulk reminder messages to multiple members
- * @param members - Array of members to send reminders to
- * @param onProgress - Callback function for progress updates
- * @returns Promise with results summary
+ * Check the messaging preference of the recipient
+ * Uses the member the message is for, otherwise every member with the number, who must all have opted out
+ * Returns null when the preference can't be read in time, so the message isn't sent to someone who may have opted out
+ * Automatic answers are always allowed and need no lookup
  */
-export async function sendBulkReminders(
-  members: Array<{ id: number; full_name: string; mobile_number: string; payment_status: string }>,
-  onProgress?: (current: number, total: number, memberName: string) => void
-): Promise<{
-  success: boolean;
-  sent: number;
-  failed: number;
-  errors: Array<{ memberId: number; memberName: string; error: string }>;
-}> {
-  const results = {
-    success: true,
-    sent: 0,
-    failed: 0,
-    errors: [] as Array<{ memberId: number; memberName: string; error: string }>
-  };
-
-  console.log(`📤 Starting bulk reminder to ${members.length} members`);
-
-  for (let i = 0; i < members.length; i++) {
-    const member = members[i];
-    const isOverdue = member.payment_status === 'overdue';
-
-    // Update progress
-    onProgress?.(i + 1, members.length, member.full_name);
-
-    // Generate reminder message
-    const message = generateReminderMessage(member.full_name, isOverdue);
-
-    // Send message
-    const result = await sendWhatsAppMessage(member.mobile_number, message);
-
-    if (result.success === true) {
-      results.sent++;
-    } else {
-      results.failed++;
-      results.errors.push({
-        memberId: member.id,
-        memberName: member.full_name,
-        error: result.error || result.message || 'Unknown error'
-      });
-    }
-
-    // Add delay between messages to avoid rate limiting
-    await new Promise(resolve => setTimeout(resolve, 1000));
+async function isRecipientOptedOut(phoneNumber: string, context: MessageContext): Promise<boolean | null> {
+  if (context.template === 'auto_reply') {
+    return false;
   }
 
-  console.log(`📊 Bulk reminder completed: ${results.sent} sent, ${results.failed} failed`);
-  return results;
-}
-
-/**
- * Send draw reminder messages to all members
- * @param members - Array of all members to send draw reminders to
- * @param onProgress - Callback function for progress updates
- * @returns Promise with results summary
- */
-export async function sendDrawReminders(
-  members: Array<{ id: number; full_name: string; mobile_number: string }>,
-  onProgress?: (current: number, total: number, memberName: string) => void
-): Promise<{
-  success: boolean;
-  sent: number;
-  failed: number;
-  errors: Array<{ memberId: number; memberName: string; error: string }>;
-}> {
-  const results = {
-    success: true,
-    sent: 0,
-    failed: 0,
-    errors: [] as Array<{ memberId: number; memberName: string; error: string }>
-  };
-
-  console.log(`📤 Starting draw reminder to ${members.length} members`);
-
-  // Generate the draw reminder message once
-  const message = generateDrawReminderMessage();
-
-  for (let i = 0; i < members.length; i++) {
-    const member = members[i];
-
-    // Update progress
-    onProgress?.(i + 1, members.length, member.full_name);
-
-    // Send message with retry mechanism
-    let retryCount = 0;
-    const maxRetries = 3;
-    let messageSent = false;
-
-    while (retryCount < maxRetries && !messageSent) {
-      try {
-        const result = await sendWhatsAppMessage(member.mobile_number, message);
-
-        if (result.success === true) {
-          results.sent++;
-          console.log(`✅ Draw reminder sent to ${member.full_name}`);
-          messageSent = true;
-        } else {
-          retryCount++;
-          if (retryCount < maxRetries) {
-            console.warn(`⚠️ Retry ${retryCount}/${maxRetries} for ${member.full_name}: ${result.error}`);
-            // Wait longer between retries
-            await new Promise(resolve => setTimeout(resolve, 2000 * retryCount));
-          } else {
-            results.failed++;
-            results.errors.push({
-              memberId: member.id,
-              memberName: member.full_name,
-              error: result.error || result.message || 'Unknown error'
-            });
-            console.error(`❌ Failed to send draw reminder to ${member.full_name} after ${maxRetries} retries:`, result.error);
-          }
-        }
-      } catch (error) {
-        retryCount++;
-        if (retryCount < maxRetries) {
-          console.warn(`⚠️ Retry ${retryCount}/${maxRetries} for ${member.full_name} due to error:`, error);
-          await new Promise(resolve => setTimeout(resolve, 2000 * retryCount));
-        } else {
-          results.failed++;
-          results.errors.push({
-            memberId: member.id,
-            memberName: member.full_name,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-          console.error(`❌ Failed to send draw reminder to ${member.full_name} after ${maxRetries} retries:`, error);
-        }
-      }
+  try {
+    const formatted = formatPhoneNumber(phoneNumber);
+    const query = supabase
+      .from('members')
+      .select('mobile_number, messaging_preference')
+      .abortSignal(AbortSignal.timeout(PREFERENCE_TIMEOUT_MS));
+    const { data, error } = context.memberId
+      ? await query.eq('id', context.memberId)
+      : await query.like('mobile_number', `%${formatted.slice(-10)}`);
+
+    if (error) {
+      console.warn(`⚠️ Could not check messaging preference: ${error.message}`);
+      return null;
     }
 
-    // Add delay between messages to avoid rate limiting
-    await new Promise(resolve => setTimeout(resolve, 1500));
-  }
-
-  console.log(`📊 Draw reminder completed: ${results.sent} sent, ${results.failed} failed`);
+    const recipients = (data || []).filter(member => context.memberId || formatPhoneNumber(member.mobile_number) === formatted);
+    const optedOut = recipients.length > 0 && recipients.every(member => !isMessageAllowed(member.messaging_preference, context.template));
 
-  if (results.failed > 0) {
-    console.warn(`⚠️ ${results.failed} draw reminder messages failed. Consider retrying failed messages.`);
+    if (optedOut) {
+      console.log(`🚫 Not sending ${context.template} message to ${context.recipientName || formatted}: opted out`);
+    }
+    return optedOut;
+  } catch (error) {
+    console.warn('⚠️ Could not check messaging preference:', error);
+    return null;
   }
-
-  return results;
 }
 
 /**
- * Check if WhatsApp backend is accessible
- * @returns Promise with backend accessibility status
+ * Store a send attempt in the message log
+ * Logging problems are only reported, they never fail the send itself
  */
-export async function checkBackendHealth(): Promise<{
-  isAccessible: boolean;
-  status: string;
-  error?: string;
-}> {
+async function logMessageAttempt(phoneNumber: string, message: string, context: MessageContext, result: SendResult): Promise<void> {
   try {
-    console.log(`🔍 Checking backend health at ${WHATSAPP_API_BASE}/health`);
-
-    const response = await fetch(`${WHATSAPP_API_BASE}/health`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    console.log(`📊 Health check status: ${response.status}`);
+    const { error } = await supabase
+      .from('message_log')
+      .insert({
+        scheme_id: context.schemeId ?? null,
+        month: context.month ?? null,
+        member_id: context.memberId ?? null,
+        outbox_message_id: context.outboxMessageId ?? null,
+        recipient_name: context.recipientName ?? null,
+        recipient_number: formatPhoneNumber(phoneNumber),
+        template: context.template,
+        body: message,
+        success: result.success,
+        message_id: result.data?.messageId ?? null,
+        delivery_status: result.success ? 'sent' : null,
+        error: result.success ? null : (result.message || result.error || 'Unknown error')
+      });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    if (error) {
+      console.warn(`⚠️ Could not log WhatsApp message: ${error.message}`);
     }
-
-    const healthData = await response.json();
-    console.log(`📦 Health data:`, healthData);
-
-    return {
-      isAccessible: true,
-      status: 'Backend is running'
-    };
   } catch (error) {
-    console.error('❌ Error checking backend health:', error);
-    return {
-      isAccessible: false,
-      status: 'Backend not accessible',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
+    console.warn('⚠️ Could not log WhatsApp message:', error);
   }
 }
 
 /**
- * Check WhatsApp backend connection status
- * @returns Promise with connection status
+ * Check if the messaging provider's service is accessible
+ * @returns Promise with backend accessibility status
  */
-export async function checkWhatsAppStatus(): Promise<{
-  isReady: boolean;
-  status: string;
-  error?: string;
-}> {
-  try {
-    // First check if backend is accessible
-    const healthCheck = await checkBackendHealth();
-    if (!healthCheck.isAccessible) {
-      return {
-        isReady: false,
-        status: 'Backend not running',
-        error: healthCheck.error
-      };
-    }
-
-    console.log(`🔍 Checking WhatsApp status at ${WHATSAPP_API_BASE}/api/whatsapp/status`);
-
-    const response = await fetch(`${WHATSAPP_API_BASE}/api/whatsapp/status`);
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result: WhatsAppStatusResponse = await response.json();
-    console.log(`📦 Status response:`, result);
-
-    // Extract status from the nested data structure
-    const isReady = result.data?.isReady || false;
-    const status = result.data?.connectionStatus || 'unknown';
-
-    return {
-      isReady,
-      status
-    };
-  } catch (error) {
-    console.error('❌ Error checking WhatsApp status:', error);
-    return {
-      isReady: false,
-      status: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
+export async function checkBackendHealth(): Promise<ProviderHealth> {
+  return getMessagingProvider().health();
 }
 
 /**
- * Send bulk receipt messages to paid members
- * @param members - Array of paid members to send receipts to
- * @param currentMonth - Current month information
- * @param onProgress - Callback function for progress updates
- * @returns Promise with results summary
+ * Check whether the messaging provider is connected and ready to send
+ * @returns Promise with connection status
  */
-export async function sendBulkReceipts(
-  members: Array<{ id: number; full_name: string; mobile_number: string; payment_status: string; token_number?: number | null; paid_to?: string | null; updated_at: string }>,
-  currentMonth: MonthTable,
-  onProgress?: (current: number, total: number, memberName: string) => void
-): Promise<{
-  success: boolean;
-  sent: number;
-  failed: number;
-  errors: Array<{ memberId: number; memberName: string; error: string }>;
-}> {
-  const results = {
-    success: true,
-    sent: 0,
-    failed: 0,
-    errors: [] as Array<{ memberId: number; memberName: string; error: string }>
-  };
-
-  // Filter only paid members
-  const paidMembers = members.filter(member => member.payment_status === 'paid');
-
-  if (paidMembers.length === 0) {
-    console.log('⚠️ No paid members found to send receipts to');
-    return {
-      ...results,
-      success: false,
-      errors: [{ memberId: 0, memberName: 'No paid members', error: 'No paid members found' }]
-    };
-  }
-
-  console.log(`📤 Starting bulk receipt sending to ${paidMembers.length} paid members`);
-
-  for (let i = 0; i < paidMembers.length; i++) {
-    const member = paidMembers[i];
-
-    // Update progress
-    onProgress?.(i + 1, paidMembers.length, member.full_name);
-
-    // Generate receipt message
-    const message = generateReceiptMessage(member as Member, currentMonth);
-
-    // Send message with retry mechanism
-    let retryCount = 0;
-    const maxRetries = 3;
-    let messageSent = false;
-
-    while (retryCount < maxRetries && !messageSent) {
-      try {
-        const result = await sendWhatsAppMessage(member.mobile_number, message);
-
-        if (result.success === true) {
-          results.sent++;
-          console.log(`✅ Receipt sent to ${member.full_name} (Token: ${member.token_number || 'N/A'})`);
-          messageSent = true;
-        } else {
-          retryCount++;
-          if (retryCount < maxRetries) {
-            console.warn(`⚠️ Retry ${retryCount}/${maxRetries} for ${member.full_name}: ${result.error}`);
-            // Wait longer between retries
-            await new Promise(resolve => setTimeout(resolve, 2000 * retryCount));
-          } else {
-            results.failed++;
-            results.errors.push({
-              memberId: member.id,
-              memberName: member.full_name,
-              error: result.error || result.message || 'Unknown error'
-            });
-            console.error(`❌ Failed to send receipt to ${member.full_name} after ${maxRetries} retries:`, result.error);
-          }
-        }
-      } catch (error) {
-        retryCount++;
-        if (retryCount < maxRetries) {
-          console.warn(`⚠️ Retry ${retryCount}/${maxRetries} for ${member.full_name} due to error:`, error);
-          await new Promise(resolve => setTimeout(resolve, 2000 * retryCount));
-        } else {
-          results.failed++;
-          results.errors.push({
-            memberId: member.id,
-            memberName: member.full_name,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-          console.error(`❌ Failed to send receipt to ${member.full_name} after ${maxRetries} retries:`, error);
-        }
-      }
-    }
-
-    // Add delay between messages to avoid rate limiting
-    await new Promise(resolve => setTimeout(resolve, 1500));
-  }
-
-  console.log(`📊 Bulk receipt sending completed: ${results.sent} sent, ${results.failed} failed`);
-  return results;
+export async function checkWhatsAppStatus(): Promise<ProviderStatus> {
+  return getMessagingProvider().status();
 }
@@ -0,0 +1,73 @@
+-- Multi-scheme support
+-- Adds a schemes table and scopes every monthly register table by scheme_id
+-- so several chit groups (₹1000, ₹2000, ₹5000 batches) can run side by side
+
+-- Schemes: one row per chit group with its own amount and calendar
+create table if not exists schemes (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  installment_amount numeric(10, 2) not null check (installment_amount > 0),
+  start_month text not null check (start_month ~ '^\d{4}-\d{2}$'),
+  duration_months integer not null check (duration_months > 0),
+  created_at timestamptz not null default now()
+);
+
+-- The original batch keeps id 1 so existing rows map onto it
+insert into schemes (id, name, installment_amount, start_month, duration_months)
+values (1, 'RAFI Gold Saving Scheme', 2000, '2025-09', 16)
+on conflict (id) do nothing;
+
+select setval(pg_get_serial_sequence('schemes', 'id'), greatest((select max(id) from schemes), 1));
+
+-- Create a monthly register table (same shape as september_2025) if it doesn't exist yet
+-- Called when a new scheme's calendar reaches months beyond the existing tables
+create or replace function ensure_month_table(target_month text)
+returns void
+language plpgsql
+as $$
+begin
+  if target_month !~ '^[a-z]+_\d{4}$' then
+    raise exception 'Invalid month table name: %', target_month;
+  end if;
+
+  execute format('create table if not exists %I (like september_2025 including all)', target_month);
+end;
+$$;
+
+-- Add scheme_id to every existing monthly register table
+do $$
+declare
+  month_table text;
+begin
+  for month_table in
+    select table_name
+    from information_schema.tables
+    where table_schema = 'public'
+      and table_name ~ '^(january|february|march|april|may|june|july|august|september|october|november|december)_\d{4}$'
+  loop
+    execute format(
+      'alter table %I add column if not exists scheme_id bigint not null default 1 references schemes(id)',
+      month_table
+    );
+    execute format('create index if not exists %I on %I (scheme_id)', month_table || '_scheme_id_idx', month_table);
+  end loop;
+end;
+$$;
+
+-- Previous winners don't pay; now limited to the members of one scheme
+drop function if exists update_previous_winners_payment_status(text);
+
+create or replace function update_previous_winners_payment_status(target_month text, target_scheme_id bigint default 1)
+returns void
+language plpgsql
+as $$
+begin
+  execute format(
+    'update %I
+        set payment_status = ''no_payment_required'', paid_to = null
+      where scheme_id = $1
+        and (draw_status = ''drawn'' or draw_status like ''winner%%'')',
+    target_month
+  ) using target_scheme_id;
+end;
+$$;
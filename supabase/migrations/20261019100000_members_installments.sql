@@ -0,0 +1,130 @@
+-- Normalized members + monthly installments
+-- Replaces "one table per month" with a persistent members table and one
+-- installment row per member per month, then imports the legacy month tables
+
+-- Members: persistent identity of a member within a scheme
+create table if not exists members (
+  id bigint generated by default as identity primary key,
+  scheme_id bigint not null references schemes(id),
+  token_number integer,
+  full_name text not null,
+  mobile_number text not null,
+  family text not null default 'Individual',
+  additional_information text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists members_scheme_id_idx on members (scheme_id);
+
+-- Installments: one row per member per scheme month
+create table if not exists installments (
+  id bigint generated by default as identity primary key,
+  member_id bigint not null references members(id) on delete cascade,
+  month text not null check (month ~ '^[a-z]+_\d{4}$'),
+  payment_status text not null default 'pending'
+    check (payment_status in ('pending', 'paid', 'overdue', 'no_payment_required')),
+  paid_to text,
+  draw_status text not null default 'not_drawn',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (member_id, month)
+);
+
+create index if not exists installments_month_idx on installments (month);
+
+-- Flattened member + installment rows in the shape the dashboard works with
+-- id is the persistent member id, installment_id the row of that month
+create or replace view member_installments as
+select
+  m.id,
+  m.scheme_id,
+  m.token_number,
+  m.full_name,
+  m.mobile_number,
+  m.family,
+  m.additional_information,
+  i.id as installment_id,
+  i.month,
+  i.payment_status,
+  i.paid_to,
+  i.draw_status,
+  m.created_at,
+  i.updated_at
+from installments i
+join members m on m.id = i.member_id;
+
+-- Previous winners don't pay: any member of the scheme that has won in an earlier month
+drop function if exists update_previous_winners_payment_status(text, bigint);
+
+create or replace function update_previous_winners_payment_status(target_month text, target_scheme_id bigint default 1)
+returns void
+language sql
+as $$
+  update installments i
+     set payment_status = 'no_payment_required',
+         paid_to = null,
+         updated_at = now()
+    from members m
+   where m.id = i.member_id
+     and m.scheme_id = target_scheme_id
+     and i.month = target_month
+     and exists (
+       select 1
+         from installments won
+        where won.member_id = i.member_id
+          and won.month <> target_month
+          and (won.draw_status = 'drawn' or won.draw_status like 'winner%')
+     );
+$$;
+
+-- Month tables are no longer created per scheme
+drop function if exists ensure_month_table(text);
+
+-- Import the legacy per-month tables in chronological order
+-- Rows are linked across months by scheme + full name + mobile number,
+-- the only link the legacy copies have; later months overwrite member details
+do $$
+declare
+  month_table text;
+  legacy record;
+  target_member_id bigint;
+begin
+  for month_table in
+    select table_name
+    from information_schema.tables
+    where table_schema = 'public'
+      and table_name ~ '^(january|february|march|april|may|june|july|august|september|october|november|december)_\d{4}$'
+    order by to_date(replace(table_name, '_', ' '), 'Month YYYY')
+  loop
+    for legacy in execute format('select * from %I order by id', month_table)
+    loop
+      select id into target_member_id
+        from members
+       where scheme_id = legacy.scheme_id
+         and full_name = legacy.full_name
+         and mobile_number = legacy.mobile_number
+       limit 1;
+
+      if target_member_id is null then
+        insert into members (scheme_id, token_number, full_name, mobile_number, family, additional_information, created_at, updated_at)
+        values (legacy.scheme_id, legacy.token_number, legacy.full_name, legacy.mobile_number,
+                coalesce(legacy.family, 'Individual'), legacy.additional_information, legacy.created_at, legacy.updated_at)
+        returning id into target_member_id;
+      else
+        update members
+           set token_number = coalesce(legacy.token_number, token_number),
+               family = coalesce(legacy.family, family),
+               additional_information = legacy.additional_information,
+               updated_at = legacy.updated_at
+         where id = target_member_id;
+      end if;
+
+      insert into installments (member_id, month, payment_status, paid_to, draw_status, created_at, updated_at)
+      values (target_member_id, month_table, legacy.payment_status, legacy.paid_to, legacy.draw_status,
+              legacy.created_at, legacy.updated_at)
+      on conflict (member_id, month) do nothing;
+    end loop;
+  end loop;
+end;
+$$;
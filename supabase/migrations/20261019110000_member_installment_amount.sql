@@ -0,0 +1,28 @@
+-- Per-member installment amount
+-- The scheme's installment_amount applies to everyone unless a member has their own amount
+
+alter table members
+  add column if not exists installment_amount numeric(12, 2) check (installment_amount > 0);
+
+-- Recreate the flattened view so it exposes the member's override
+drop view if exists member_installments;
+
+create view member_installments as
+select
+  m.id,
+  m.scheme_id,
+  m.token_number,
+  m.full_name,
+  m.mobile_number,
+  m.family,
+  m.additional_information,
+  m.installment_amount,
+  i.id as installment_id,
+  i.month,
+  i.payment_status,
+  i.paid_to,
+  i.draw_status,
+  m.created_at,
+  i.updated_at
+from installments i
+join members m on m.id = i.member_id;
@@ -0,0 +1,50 @@
+-- Payments ledger
+-- Every amount received against an installment is stored as its own entry,
+-- so partial payments (₹1000 now, ₹1000 later) and advances can be represented
+
+create table if not exists payments (
+  id bigint generated by default as identity primary key,
+  installment_id bigint not null references installments(id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  paid_at timestamptz not null default now(),
+  mode text not null default 'cash' check (mode in ('cash', 'upi', 'bank')),
+  collector text,
+  note text,
+  carried_forward boolean not null default false, -- Advance moved over from the previous month
+  created_at timestamptz not null default now()
+);
+
+create index if not exists payments_installment_id_idx on payments (installment_id);
+
+-- Installments already marked as paid get one entry for the full amount
+insert into payments (installment_id, amount, paid_at, mode, collector, note)
+select i.id, coalesce(m.installment_amount, s.installment_amount), i.updated_at, 'cash', i.paid_to, 'Imported from payment status'
+  from installments i
+  join members m on m.id = i.member_id
+  join schemes s on s.id = m.scheme_id
+ where i.payment_status = 'paid'
+   and not exists (select 1 from payments p where p.installment_id = i.id);
+
+-- Expose the ledger total of each installment on the flattened view
+drop view if exists member_installments;
+
+create view member_installments as
+select
+  m.id,
+  m.scheme_id,
+  m.token_number,
+  m.full_name,
+  m.mobile_number,
+  m.family,
+  m.additional_information,
+  m.installment_amount,
+  i.id as installment_id,
+  i.month,
+  i.payment_status,
+  i.paid_to,
+  i.draw_status,
+  coalesce((select sum(p.amount) from payments p where p.installment_id = i.id), 0) as paid_amount,
+  m.created_at,
+  i.updated_at
+from installments i
+join members m on m.id = i.member_id;
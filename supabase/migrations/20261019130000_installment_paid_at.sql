@@ -0,0 +1,44 @@
+-- Explicit payment date and mode per installment
+-- Receipts used installments.updated_at as the payment date, so any later edit changed it
+
+alter table installments
+  add column if not exists paid_at timestamptz,
+  add column if not exists payment_mode text check (payment_mode in ('cash', 'upi', 'bank'));
+
+-- Paid installments take the date and mode of their latest ledger entry
+update installments i
+   set paid_at = latest.paid_at,
+       payment_mode = latest.mode
+  from (
+    select distinct on (installment_id) installment_id, paid_at, mode
+      from payments
+     order by installment_id, paid_at desc
+  ) latest
+ where latest.installment_id = i.id
+   and i.payment_status = 'paid'
+   and i.paid_at is null;
+
+drop view if exists member_installments;
+
+create view member_installments as
+select
+  m.id,
+  m.scheme_id,
+  m.token_number,
+  m.full_name,
+  m.mobile_number,
+  m.family,
+  m.additional_information,
+  m.installment_amount,
+  i.id as installment_id,
+  i.month,
+  i.payment_status,
+  i.paid_to,
+  i.paid_at,
+  i.payment_mode,
+  i.draw_status,
+  coalesce((select sum(p.amount) from payments p where p.installment_id = i.id), 0) as paid_amount,
+  m.created_at,
+  i.updated_at
+from installments i
+join members m on m.id = i.member_id;
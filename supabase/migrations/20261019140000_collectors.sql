@@ -0,0 +1,32 @@
+-- Collectors
+-- People who collect installments at the shop (family members, staff)
+-- installments.paid_to and payments.collector store the collector's name
+
+create table if not exists collectors (
+  id bigint generated by default as identity primary key,
+  name text not null unique,
+  phone text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+insert into collectors (name)
+values ('Rafi')
+on conflict (name) do nothing;
+
+-- Ledger entries with the scheme and month they were paid against
+-- Used for the per-collector cash summary of a month
+create or replace view collector_payments as
+select
+  p.id,
+  p.installment_id,
+  p.amount,
+  p.paid_at,
+  p.mode,
+  p.collector,
+  p.carried_forward,
+  i.month,
+  m.scheme_id
+from payments p
+join installments i on i.id = p.installment_id
+join members m on m.id = i.member_id;
@@ -0,0 +1,21 @@
+-- Draws
+-- One recorded draw per scheme per month, kept so anyone can re-run it
+-- winning_token = eligible_tokens[(first 13 hex digits of seed_hash) mod count], tokens sorted ascending
+-- seed_hash is the SHA-256 of seed, e.g. echo -n "<seed>" | sha256sum
+
+create table if not exists draws (
+  id bigint generated by default as identity primary key,
+  scheme_id bigint not null references schemes(id) on delete cascade,
+  month text not null,
+  seed text not null,
+  public_value text not null,
+  draw_date date not null,
+  seed_hash text not null,
+  eligible_tokens integer[] not null,
+  winning_token integer not null,
+  member_id bigint not null references members(id) on delete restrict,
+  created_at timestamptz not null default now(),
+  unique (scheme_id, month)
+);
+
+create index if not exists draws_member_id_idx on draws (member_id);
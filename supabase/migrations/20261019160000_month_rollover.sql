@@ -0,0 +1,155 @@
+-- Month rollover
+-- Moving a scheme to its next month runs as one server-side function so the new
+-- installments, previous winners' statuses and carried-forward advances are
+-- written together or not at all
+
+-- What the next month will look like for every member of the current month
+-- Members who have won in any month so far are 'drawn' and don't pay,
+-- everyone else starts pending, with any advance paid beyond this month carried over
+create or replace function preview_month_rollover(target_scheme_id bigint, current_month text)
+returns table (
+  member_id bigint,
+  full_name text,
+  token_number integer,
+  payment_status text,
+  draw_status text,
+  carried_forward numeric
+)
+language sql
+stable
+as $$
+  with current_installments as (
+    select
+      m.id as member_id,
+      m.full_name,
+      m.token_number,
+      coalesce(m.installment_amount, s.installment_amount) as installment_amount,
+      case when i.payment_status = 'no_payment_required' then 0
+           else coalesce(m.installment_amount, s.installment_amount) end as amount_due,
+      coalesce((select sum(p.amount) from payments p where p.installment_id = i.id), 0) as paid_amount,
+      exists (
+        select 1
+          from installments won
+         where won.member_id = m.id
+           and (won.draw_status = 'drawn' or won.draw_status like 'winner%')
+      ) as has_won
+    from installments i
+    join members m on m.id = i.member_id
+    join schemes s on s.id = m.scheme_id
+    where m.scheme_id = target_scheme_id
+      and i.month = current_month
+  ),
+  rolled as (
+    select
+      c.*,
+      case when c.has_won then 0 else greatest(c.paid_amount - c.amount_due, 0) end as advance
+    from current_installments c
+  )
+  select
+    r.member_id,
+    r.full_name,
+    r.token_number,
+    case when r.has_won then 'no_payment_required'
+         when r.advance > 0 and r.advance >= r.installment_amount then 'paid'
+         else 'pending' end as payment_status,
+    case when r.has_won then 'drawn' else 'not_drawn' end as draw_status,
+    r.advance as carried_forward
+  from rolled r
+  order by r.full_name;
+$$;
+
+-- Create the next month's installments from the preview in a single transaction
+-- Returns the number of installments created
+create or replace function proceed_to_next_month(target_scheme_id bigint, current_month text, next_month text)
+returns integer
+language plpgsql
+as $$
+declare
+  created_count integer;
+begin
+  if not exists (
+    select 1 from installments i join members m on m.id = i.member_id
+     where m.scheme_id = target_scheme_id and i.month = current_month
+  ) then
+    raise exception 'No members found in % to copy', current_month;
+  end if;
+
+  if exists (
+    select 1 from installments i join members m on m.id = i.member_id
+     where m.scheme_id = target_scheme_id and i.month = next_month
+  ) then
+    raise exception 'Next month already has data. Cannot proceed.';
+  end if;
+
+  insert into installments (member_id, month, payment_status, paid_to, paid_at, payment_mode, draw_status)
+  select
+    r.member_id,
+    next_month,
+    r.payment_status,
+    null,
+    case when r.payment_status = 'paid' then now() end,
+    case when r.payment_status = 'paid' then 'cash' end,
+    r.draw_status
+  from preview_month_rollover(target_scheme_id, current_month) r;
+
+  get diagnostics created_count = row_count;
+
+  insert into payments (installment_id, amount, mode, note, carried_forward)
+  select
+    i.id,
+    r.carried_forward,
+    'cash',
+    'Advance carried forward from ' || initcap(replace(current_month, '_', ' ')),
+    true
+  from preview_month_rollover(target_scheme_id, current_month) r
+  join installments i on i.member_id = r.member_id and i.month = next_month
+  where r.carried_forward > 0;
+
+  return created_count;
+end;
+$$;
+
+-- Remove a generated month again, only while nothing has been recorded in it
+-- following_month is the month after target_month, which must not exist yet
+create or replace function undo_month_rollover(target_scheme_id bigint, target_month text, following_month text default null)
+returns void
+language plpgsql
+as $$
+begin
+  if following_month is not null and exists (
+    select 1 from installments i join members m on m.id = i.member_id
+     where m.scheme_id = target_scheme_id and i.month = following_month
+  ) then
+    raise exception 'Only the latest month can be undone';
+  end if;
+
+  if exists (
+    select 1
+      from payments p
+      join installments i on i.id = p.installment_id
+      join members m on m.id = i.member_id
+     where m.scheme_id = target_scheme_id
+       and i.month = target_month
+       and not p.carried_forward
+  ) then
+    raise exception 'Payments have already been recorded in %', target_month;
+  end if;
+
+  if exists (
+    select 1 from installments i join members m on m.id = i.member_id
+     where m.scheme_id = target_scheme_id and i.month = target_month and i.draw_status like 'winner%'
+  ) or exists (
+    select 1 from draws d where d.scheme_id = target_scheme_id and d.month = target_month
+  ) then
+    raise exception 'A winner has already been declared for %', target_month;
+  end if;
+
+  -- Carried-forward advances are deleted with their installments and
+  -- show up again as the advance of the previous month
+  delete from installments i
+   using members m
+   where m.id = i.member_id
+     and m.scheme_id = target_scheme_id
+     and i.month = target_month;
+end;
+$$;
@@ -0,0 +1,60 @@
+-- WhatsApp outbox
+-- Bulk sends are queued as one row per message and drained by a worker,
+-- so a closed tab leaves a record of who has and hasn't been messaged
+
+-- One bulk action (e.g. "Payment reminders - October 2026")
+create table if not exists outbox_batches (
+  id bigint generated by default as identity primary key,
+  scheme_id bigint references schemes(id) on delete cascade,
+  month text,
+  template text not null,
+  label text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists outbox_messages (
+  id bigint generated by default as identity primary key,
+  batch_id bigint not null references outbox_batches(id) on delete cascade,
+  member_id bigint references members(id) on delete set null,
+  recipient_name text not null,
+  recipient_number text not null,
+  template text not null
+    check (template in ('reminder', 'draw_reminder', 'receipt', 'token_assignment', 'winner_announcement')),
+  body text not null,
+  status text not null default 'queued'
+    check (status in ('queued', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  message_id text, -- Id returned by the WhatsApp backend
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists outbox_messages_batch_id_idx on outbox_messages (batch_id);
+create index if not exists outbox_messages_status_idx on outbox_messages (status, next_attempt_at);
+
+-- Claim the next message that is due and mark it as sending
+-- skip locked lets several open tabs drain the same outbox without sending twice;
+-- messages stuck in 'sending' (tab closed mid-send) are picked up again after 2 minutes
+create or replace function claim_outbox_message(target_batch_id bigint default null)
+returns setof outbox_messages
+language sql
+as $$
+  update outbox_messages o
+     set status = 'sending',
+         attempts = o.attempts + 1,
+         updated_at = now()
+   where o.id = (
+     select id
+       from outbox_messages
+      where (target_batch_id is null or batch_id = target_batch_id)
+        and ((status = 'queued' and next_attempt_at <= now())
+          or (status = 'sending' and updated_at < now() - interval '2 minutes'))
+      order by id
+      limit 1
+      for update skip locked
+   )
+  returning o.*;
+$$;
@@ -0,0 +1,21 @@
+-- Message log
+-- Every WhatsApp send attempt with what was sent, to whom and how it went
+
+create table if not exists message_log (
+  id bigint generated by default as identity primary key,
+  scheme_id bigint references schemes(id) on delete cascade,
+  month text,
+  member_id bigint references members(id) on delete set null,
+  outbox_message_id bigint references outbox_messages(id) on delete set null,
+  recipient_name text,
+  recipient_number text not null,
+  template text not null,
+  body text not null,
+  success boolean not null,
+  message_id text, -- Id returned by the WhatsApp backend
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists message_log_member_id_idx on message_log (member_id, created_at);
+create index if not exists message_log_scheme_month_idx on message_log (scheme_id, month, created_at);
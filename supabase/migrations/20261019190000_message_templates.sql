@@ -0,0 +1,17 @@
+-- Message templates
+-- Edited WhatsApp message texts with {placeholder} fields
+-- Templates without a row here use the built-in defaults of the app
+
+create table if not exists message_templates (
+  key text primary key check (key in (
+    'reminder',
+    'overdue_reminder',
+    'token_assignment',
+    'draw_reminder',
+    'receipt',
+    'winner_announcement'
+  )),
+  english text not null,
+  telugu text not null default '', -- Empty when the message is sent in English only
+  updated_at timestamptz not null default now()
+);
@@ -0,0 +1,33 @@
+-- Preferred language of a member's WhatsApp messages
+-- 'both' keeps the English and Telugu parts stacked together as before
+
+alter table members
+  add column if not exists preferred_language text not null default 'both'
+    check (preferred_language in ('en', 'te', 'both'));
+
+-- Recreate the flattened view so it exposes the member's language
+drop view if exists member_installments;
+
+create view member_installments as
+select
+  m.id,
+  m.scheme_id,
+  m.token_number,
+  m.full_name,
+  m.mobile_number,
+  m.family,
+  m.additional_information,
+  m.installment_amount,
+  m.preferred_language,
+  i.id as installment_id,
+  i.month,
+  i.payment_status,
+  i.paid_to,
+  i.paid_at,
+  i.payment_mode,
+  i.draw_status,
+  coalesce((select sum(p.amount) from payments p where p.installment_id = i.id), 0) as paid_amount,
+  m.created_at,
+  i.updated_at
+from installments i
+join members m on m.id = i.member_id;
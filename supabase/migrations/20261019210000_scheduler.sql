@@ -0,0 +1,58 @@
+-- Scheduled reminders
+-- Rules that send reminders or mark installments overdue on set days of the month,
+-- a log of every run, and months in which the schedule is paused
+
+create table if not exists schedule_rules (
+  id bigint generated by default as identity primary key,
+  scheme_id bigint not null references schemes(id) on delete cascade,
+  action text not null check (action in ('payment_reminder', 'draw_reminder', 'mark_overdue')),
+  day_of_month integer not null check (day_of_month between 1 and 31),
+  time_of_day text not null default '10:00' check (time_of_day ~ '^([01]\d|2[0-3]):[0-5]\d$'),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists schedule_rules_scheme_id_idx on schedule_rules (scheme_id);
+
+-- One row per rule per day it ran; the unique key stops two open dashboards running a rule twice
+create table if not exists schedule_runs (
+  id bigint generated by default as identity primary key,
+  rule_id bigint references schedule_rules(id) on delete set null,
+  scheme_id bigint not null references schemes(id) on delete cascade,
+  month text not null,
+  action text not null,
+  run_on date not null,
+  status text not null default 'running' check (status in ('running', 'success', 'skipped', 'failed')),
+  detail text,
+  outbox_batch_id bigint references outbox_batches(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (rule_id, run_on)
+);
+
+create index if not exists schedule_runs_scheme_id_idx on schedule_runs (scheme_id, created_at);
+
+create table if not exists schedule_pauses (
+  scheme_id bigint not null references schemes(id) on delete cascade,
+  month text not null,
+  created_at timestamptz not null default now(),
+  primary key (scheme_id, month)
+);
+
+-- Move every pending installment of a scheme month to overdue, returning how many changed
+create or replace function mark_pending_overdue(target_scheme_id bigint, target_month text)
+returns integer
+language sql
+as $$
+  with updated as (
+    update installments i
+       set payment_status = 'overdue',
+           updated_at = now()
+      from members m
+     where m.id = i.member_id
+       and m.scheme_id = target_scheme_id
+       and i.month = target_month
+       and i.payment_status = 'pending'
+    returning i.id
+  )
+  select count(*)::integer from updated;
+$$;
@@ -0,0 +1,7 @@
+-- Automatic overdue marking after the payment deadline
+-- Runs of mark_overdue remember how many payments they changed, for the overdue notice
+
+alter table schedule_runs add column if not exists marked_count integer;
+
+-- The overdue notice looks up the latest marking of a scheme month
+create index if not exists schedule_runs_month_idx on schedule_runs (scheme_id, month, action);
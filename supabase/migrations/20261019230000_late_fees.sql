@@ -0,0 +1,7 @@
+-- Late fee rules per scheme
+-- Overdue installments owe a flat fee or a fee per day late, optionally capped
+
+alter table schemes
+  add column if not exists late_fee_type text not null default 'none' check (late_fee_type in ('none', 'flat', 'per_day')),
+  add column if not exists late_fee_amount numeric(12, 2) not null default 0 check (late_fee_amount >= 0),
+  add column if not exists late_fee_cap numeric(12, 2) check (late_fee_cap >= 0);
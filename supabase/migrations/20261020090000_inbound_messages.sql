@@ -0,0 +1,19 @@
+-- Inbound WhatsApp messages
+-- Replies from members, received through the WhatsApp backend's webhook
+-- Keyword queries are answered automatically, everything else waits in the dashboard inbox
+
+create table if not exists inbound_messages (
+  id bigint generated by default as identity primary key,
+  message_id text, -- Id given by the WhatsApp backend, used to ignore repeated deliveries
+  from_number text not null,
+  body text not null,
+  member_ids bigint[] not null default '{}', -- Members with the sender's number (families can share one)
+  keyword text check (keyword in ('token', 'status', 'balance')),
+  reply text, -- Automatic answer to a keyword query
+  status text not null default 'open' check (status in ('open', 'done', 'auto_replied')),
+  received_at timestamptz not null default now(),
+  handled_at timestamptz
+);
+
+create unique index if not exists inbound_messages_message_id_idx on inbound_messages (message_id) where message_id is not null;
+create index if not exists inbound_messages_status_idx on inbound_messages (status, received_at);
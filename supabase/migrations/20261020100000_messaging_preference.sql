@@ -0,0 +1,49 @@
+-- Messaging preference of a member
+-- 'all' gets every message, 'receipts_only' only receipts, 'none' nothing but answers to their own questions
+-- The reason and date of the last change are kept for when a member asks why they stopped getting reminders
+
+alter table members
+  add column if not exists messaging_preference text not null default 'all'
+    check (messaging_preference in ('all', 'receipts_only', 'none')),
+  add column if not exists messaging_preference_reason text,
+  add column if not exists messaging_preference_at timestamptz;
+
+-- Recreate the flattened view so it exposes the member's preference
+drop view if exists member_installments;
+
+create view member_installments as
+select
+  m.id,
+  m.scheme_id,
+  m.token_number,
+  m.full_name,
+  m.mobile_number,
+  m.family,
+  m.additional_information,
+  m.installment_amount,
+  m.preferred_language,
+  m.messaging_preference,
+  m.messaging_preference_reason,
+  m.messaging_preference_at,
+  i.id as installment_id,
+  i.month,
+  i.payment_status,
+  i.paid_to,
+  i.paid_at,
+  i.payment_mode,
+  i.draw_status,
+  coalesce((select sum(p.amount) from payments p where p.installment_id = i.id), 0) as paid_amount,
+  m.created_at,
+  i.updated_at
+from installments i
+join members m on m.id = i.member_id;
+
+-- Outbox messages to members who opted out after they were queued are skipped, not retried
+alter table outbox_messages drop constraint if exists outbox_messages_status_check;
+alter table outbox_messages add constraint outbox_messages_status_check
+  check (status in ('queued', 'sending', 'sent', 'failed', 'cancelled', 'skipped'));
+
+-- Members can reply STOP to opt out of all messages
+alter table inbound_messages drop constraint if exists inbound_messages_keyword_check;
+alter table inbound_messages add constraint inbound_messages_keyword_check
+  check (keyword in ('token', 'status', 'balance', 'stop'));
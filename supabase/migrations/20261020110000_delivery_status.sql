@@ -0,0 +1,13 @@
+-- Delivery status of sent messages
+-- The WhatsApp backend reports when a message reached the phone and when it was read
+-- Failed sends have no delivery status, they never reached the backend
+
+alter table message_log
+  add column if not exists delivery_status text
+    check (delivery_status in ('sent', 'delivered', 'read', 'failed')),
+  add column if not exists delivery_updated_at timestamptz;
+
+-- Messages that were sent before delivery was tracked
+update message_log set delivery_status = 'sent' where success and delivery_status is null;
+
+create index if not exists message_log_message_id_idx on message_log (message_id) where message_id is not null;
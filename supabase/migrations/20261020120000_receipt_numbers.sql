@@ -0,0 +1,188 @@
+-- Receipt numbers
+-- Every payment received gets the next number of its scheme and month, e.g. 1-202610-0007
+-- Numbers are issued by the database when the payment is inserted and are never reused:
+-- removing a payment keeps its receipt and marks it cancelled, and receipts can't be deleted
+
+-- Last number issued per scheme and month
+create table if not exists receipt_series (
+  scheme_id bigint not null references schemes(id),
+  month text not null,
+  last_number integer not null default 0,
+  primary key (scheme_id, month)
+);
+
+create table if not exists receipts (
+  id bigint generated by default as identity primary key,
+  receipt_number text not null unique,
+  scheme_id bigint not null references schemes(id),
+  month text not null,
+  sequence integer not null,
+  payment_id bigint references payments(id) on delete set null,
+  member_id bigint references members(id) on delete set null,
+  -- Copied from the payment, so the receipt still reads the same after the payment or member is gone
+  member_name text not null,
+  token_number integer,
+  amount numeric(12, 2) not null,
+  paid_at timestamptz not null,
+  collector text,
+  status text not null default 'issued' check (status in ('issued', 'cancelled')),
+  cancelled_at timestamptz,
+  cancel_reason text,
+  created_at timestamptz not null default now(),
+  unique (scheme_id, month, sequence)
+);
+
+create index if not exists receipts_member_month_idx on receipts (member_id, month);
+create index if not exists receipts_payment_id_idx on receipts (payment_id);
+
+-- Receipt number of a sequence in a scheme's month, e.g. (1, 'october_2026', 7) -> 1-202610-0007
+create or replace function format_receipt_number(target_scheme_id bigint, target_month text, receipt_sequence integer)
+returns text
+language sql
+immutable
+as $$
+  select target_scheme_id || '-' ||
+         to_char(to_date(replace(target_month, '_', ' '), 'Month YYYY'), 'YYYYMM') || '-' ||
+         lpad(receipt_sequence::text, 4, '0');
+$$;
+
+-- Issue the next receipt of the payment's scheme and month
+-- Advances carried forward on rollover were receipted in the month they were paid
+create or replace function issue_payment_receipt()
+returns trigger
+language plpgsql
+as $$
+declare
+  installment record;
+  next_sequence integer;
+begin
+  if new.carried_forward then
+    return new;
+  end if;
+
+  select m.id as member_id, m.scheme_id, m.full_name, m.token_number, i.month
+    into installment
+    from installments i
+    join members m on m.id = i.member_id
+   where i.id = new.installment_id;
+
+  -- Locks the series row, so two payments of a month never get the same number
+  insert into receipt_series (scheme_id, month, last_number)
+  values (installment.scheme_id, installment.month, 1)
+  on conflict (scheme_id, month) do update set last_number = receipt_series.last_number + 1
+  returning last_number into next_sequence;
+
+  insert into receipts (receipt_number, scheme_id, month, sequence, payment_id, member_id, member_name, token_number, amount, paid_at, collector)
+  values (
+    format_receipt_number(installment.scheme_id, installment.month, next_sequence),
+    installment.scheme_id,
+    installment.month,
+    next_sequence,
+    new.id,
+    installment.member_id,
+    installment.full_name,
+    installment.token_number,
+    new.amount,
+    new.paid_at,
+    new.collector
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists payments_issue_receipt on payments;
+create trigger payments_issue_receipt
+  after insert on payments
+  for each row execute function issue_payment_receipt();
+
+-- A removed payment cancels its receipt, unless the app already cancelled it with a reason
+create or replace function cancel_payment_receipt()
+returns trigger
+language plpgsql
+as $$
+begin
+  update receipts
+     set status = 'cancelled',
+         cancelled_at = now(),
+         cancel_reason = 'Payment removed'
+   where payment_id = old.id
+     and status = 'issued';
+
+  return old;
+end;
+$$;
+
+drop trigger if exists payments_cancel_receipt on payments;
+create trigger payments_cancel_receipt
+  before delete on payments
+  for each row execute function cancel_payment_receipt();
+
+-- Receipts are kept as issued: only cancelling is allowed, and only once
+create or replace function protect_receipt()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' then
+    raise exception 'Receipt % cannot be deleted, cancel it instead', old.receipt_number;
+  end if;
+
+  if new.receipt_number <> old.receipt_number
+     or new.scheme_id <> old.scheme_id
+     or new.month <> old.month
+     or new.sequence <> old.sequence
+     or new.amount <> old.amount
+     or new.paid_at <> old.paid_at
+     or new.member_name <> old.member_name
+     or (old.status = 'cancelled' and new.status <> 'cancelled') then
+    raise exception 'Receipt % cannot be changed', old.receipt_number;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists receipts_protect on receipts;
+create trigger receipts_protect
+  before update or delete on receipts
+  for each row execute function protect_receipt();
+
+-- Payments recorded before receipts existed get numbers in the order they were paid
+insert into receipts (receipt_number, scheme_id, month, sequence, payment_id, member_id, member_name, token_number, amount, paid_at, collector)
+select
+  format_receipt_number(numbered.scheme_id, numbered.month, numbered.sequence::integer),
+  numbered.scheme_id,
+  numbered.month,
+  numbered.sequence,
+  numbered.payment_id,
+  numbered.member_id,
+  numbered.full_name,
+  numbered.token_number,
+  numbered.amount,
+  numbered.paid_at,
+  numbered.collector
+from (
+  select
+    p.id as payment_id,
+    p.amount,
+    p.paid_at,
+    p.collector,
+    m.id as member_id,
+    m.scheme_id,
+    m.full_name,
+    m.token_number,
+    i.month,
+    row_number() over (partition by m.scheme_id, i.month order by p.paid_at, p.id) as sequence
+  from payments p
+  join installments i on i.id = p.installment_id
+  join members m on m.id = i.member_id
+  where not p.carried_forward
+    and not exists (select 1 from receipts r where r.payment_id = p.id)
+) numbered;
+
+insert into receipt_series (scheme_id, month, last_number)
+select scheme_id, month, max(sequence)
+  from receipts
+ group by scheme_id, month
+on conflict (scheme_id, month) do update set last_number = greatest(receipt_series.last_number, excluded.last_number);
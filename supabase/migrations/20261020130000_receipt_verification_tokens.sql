@@ -0,0 +1,35 @@
+-- Receipt verification tokens
+-- Every receipt gets a random token when it is issued; the QR code on the receipt links to /verify/<token>
+-- Tokens can't be derived from receipt numbers, so receipts can't be looked up by counting numbers
+
+-- The volatile default gives existing receipts a token of their own too
+alter table receipts
+  add column if not exists verification_token text not null default replace(gen_random_uuid()::text, '-', '');
+
+create unique index if not exists receipts_verification_token_idx on receipts (verification_token);
+
+-- Receipts are kept as issued: only cancelling is allowed, and only once
+create or replace function protect_receipt()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' then
+    raise exception 'Receipt % cannot be deleted, cancel it instead', old.receipt_number;
+  end if;
+
+  if new.receipt_number <> old.receipt_number
+     or new.scheme_id <> old.scheme_id
+     or new.month <> old.month
+     or new.sequence <> old.sequence
+     or new.amount <> old.amount
+     or new.paid_at <> old.paid_at
+     or new.member_name <> old.member_name
+     or new.verification_token <> old.verification_token
+     or (old.status = 'cancelled' and new.status <> 'cancelled') then
+    raise exception 'Receipt % cannot be changed', old.receipt_number;
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,92 @@
+-- Early delivery receipts
+-- A message is logged only after the backend returned its id, so a fast "delivered" callback
+-- can arrive before the log entry exists. Such statuses wait here until the entry is logged.
+
+create table if not exists pending_delivery_statuses (
+  message_id text primary key,
+  delivery_status text not null check (delivery_status in ('delivered', 'read', 'failed')),
+  delivery_updated_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+-- Whether a message can move from one status to the next
+-- Callbacks may arrive out of order, so a message that was read never goes back to delivered
+create or replace function delivery_status_follows(current_status text, next_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select case next_status
+    when 'delivered' then current_status = 'sent'
+    when 'read' then current_status in ('sent', 'delivered')
+    when 'failed' then current_status = 'sent'
+    else false
+  end;
+$$;
+
+-- Store a status reported by the backend
+-- Returns the number of log entries that changed; a status for a message that isn't logged yet
+-- is kept in pending_delivery_statuses and returns 0
+create or replace function record_delivery_status(target_message_id text, new_status text, status_at timestamptz)
+returns integer
+language plpgsql
+as $$
+declare
+  updated_count integer;
+begin
+  -- Serializes with the log insert of the same message (see apply_pending_delivery_status)
+  perform pg_advisory_xact_lock(hashtext('delivery:' || target_message_id));
+
+  update message_log
+     set delivery_status = new_status,
+         delivery_updated_at = status_at
+   where message_id = target_message_id
+     and delivery_status_follows(delivery_status, new_status);
+  get diagnostics updated_count = row_count;
+
+  if updated_count = 0
+     and new_status <> 'sent'
+     and not exists (select 1 from message_log where message_id = target_message_id) then
+    insert into pending_delivery_statuses (message_id, delivery_status, delivery_updated_at)
+    values (target_message_id, new_status, status_at)
+    on conflict (message_id) do update
+      set delivery_status = excluded.delivery_status,
+          delivery_updated_at = excluded.delivery_updated_at
+      where delivery_status_follows(pending_delivery_statuses.delivery_status, excluded.delivery_status);
+  end if;
+
+  return updated_count;
+end;
+$$;
+
+-- A sent message that is logged after its first callbacks takes the status that was waiting for it
+create or replace function apply_pending_delivery_status()
+returns trigger
+language plpgsql
+as $$
+declare
+  pending record;
+begin
+  if new.message_id is null or new.delivery_status is null then
+    return new;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('delivery:' || new.message_id));
+
+  delete from pending_delivery_statuses
+   where message_id = new.message_id
+  returning delivery_status, delivery_updated_at into pending;
+
+  if found and delivery_status_follows(new.delivery_status, pending.delivery_status) then
+    new.delivery_status := pending.delivery_status;
+    new.delivery_updated_at := pending.delivery_updated_at;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists message_log_apply_pending_delivery on message_log;
+create trigger message_log_apply_pending_delivery
+  before insert on message_log
+  for each row execute function apply_pending_delivery_status();
@@ -0,0 +1,33 @@
+-- The deadline job runs once per scheme month
+-- It used to run on every scheduler call, so members set back to pending by hand were marked overdue again.
+-- Its runs have no rule; the first one of a month claims it.
+
+-- Earlier deadline runs were logged whenever they marked something: keep the first run of each month
+-- with the total it marked
+with deadline_runs as (
+  select id,
+         row_number() over (partition by scheme_id, month order by created_at, id) as position,
+         sum(marked_count) over (partition by scheme_id, month) as total_marked
+    from schedule_runs
+   where rule_id is null and action = 'mark_overdue'
+)
+update schedule_runs r
+   set marked_count = d.total_marked
+  from deadline_runs d
+ where r.id = d.id
+   and d.position = 1;
+
+with deadline_runs as (
+  select id,
+         row_number() over (partition by scheme_id, month order by created_at, id) as position
+    from schedule_runs
+   where rule_id is null and action = 'mark_overdue'
+)
+delete from schedule_runs r
+ using deadline_runs d
+ where r.id = d.id
+   and d.position > 1;
+
+create unique index if not exists schedule_runs_deadline_once_idx
+  on schedule_runs (scheme_id, month)
+  where rule_id is null and action = 'mark_overdue';
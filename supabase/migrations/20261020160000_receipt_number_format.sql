@@ -0,0 +1,13 @@
+-- Receipt number format fixes
+-- Stable rather than immutable: to_date depends on session settings
+-- lpad cuts longer text, so sequences past 9999 became 4 digits and repeated earlier numbers; they now keep all their digits
+
+create or replace function format_receipt_number(target_scheme_id bigint, target_month text, receipt_sequence integer)
+returns text
+language sql
+stable
+as $$
+  select target_scheme_id || '-' ||
+         to_char(to_date(replace(target_month, '_', ' '), 'Month YYYY'), 'YYYYMM') || '-' ||
+         lpad(receipt_sequence::text, greatest(length(receipt_sequence::text), 4), '0');
+$$;
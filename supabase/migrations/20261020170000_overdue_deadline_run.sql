@@ -0,0 +1,42 @@
+-- Deadline job in one transaction
+-- The claim of a month and the overdue marking used to be separate requests, so a scheduler that stopped
+-- in between left the month claimed as 'running' and it was never marked.
+-- run_overdue_deadline claims and marks together: either both happen or neither does.
+
+-- Claims left behind that way are released so the next scheduler call marks the month
+delete from schedule_runs
+ where rule_id is null
+   and action = 'mark_overdue'
+   and status = 'running';
+
+-- Claim the deadline run of a scheme month and mark its pending installments overdue
+-- Returns the logged run, or nothing when the month was already claimed
+create or replace function run_overdue_deadline(target_scheme_id bigint, target_month text, target_run_on date, deadline_label text)
+returns setof schedule_runs
+language plpgsql
+as $$
+declare
+  claimed_id bigint;
+  marked integer;
+begin
+  insert into schedule_runs (rule_id, scheme_id, month, action, run_on)
+  values (null, target_scheme_id, target_month, 'mark_overdue', target_run_on)
+  on conflict (scheme_id, month) where rule_id is null and action = 'mark_overdue' do nothing
+  returning id into claimed_id;
+
+  if claimed_id is null then
+    return;
+  end if;
+
+  marked := mark_pending_overdue(target_scheme_id, target_month);
+
+  return query
+    update schedule_runs
+       set status = 'success',
+           detail = marked || ' pending payment' || case when marked = 1 then '' else 's' end ||
+                    ' marked overdue after the ' || deadline_label || ' deadline',
+           marked_count = marked
+     where id = claimed_id
+    returning *;
+end;
+$$;
@@ -0,0 +1,101 @@
+-- Private receipts
+-- Receipts were readable by anyone with the public API key, so the random verification token hid nothing.
+-- Row level security without policies closes the table to the API; the functions below are the only way in.
+-- They run as their owner (security definer) and each returns only what its caller needs.
+
+alter table receipts enable row level security;
+alter table receipt_series enable row level security;
+
+-- Issuing and cancelling on payment changes write to the closed tables
+alter function issue_payment_receipt() security definer set search_path = public;
+alter function cancel_payment_receipt() security definer set search_path = public;
+
+-- Public verification page: the receipt of a token, with only the member's first name
+create or replace function verify_receipt(target_token text)
+returns table (
+  receipt_number text,
+  first_name text,
+  token_number integer,
+  month text,
+  amount numeric,
+  status text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.receipt_number,
+         (regexp_split_to_array(btrim(r.member_name), '\s+'))[1],
+         r.token_number,
+         r.month,
+         r.amount,
+         r.status
+    from receipts r
+   where r.verification_token = target_token;
+$$;
+
+-- Dashboard: the receipts of a scheme month, optionally of one member and only the issued ones
+create or replace function get_receipts(
+  target_scheme_id bigint,
+  target_month text,
+  target_member_id bigint default null,
+  issued_only boolean default false
+)
+returns setof receipts
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+    from receipts r
+   where r.scheme_id = target_scheme_id
+     and r.month = target_month
+     and (target_member_id is null or r.member_id = target_member_id)
+     and (not issued_only or r.status = 'issued')
+   order by r.sequence;
+$$;
+
+-- Dashboard: cancel the receipt of a payment with a reason, before the payment is removed
+create or replace function cancel_receipt(target_payment_id bigint, reason text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update receipts
+     set status = 'cancelled',
+         cancelled_at = now(),
+         cancel_reason = reason
+   where payment_id = target_payment_id
+     and status = 'issued';
+$$;
+
+-- Receipts are kept as issued: only cancelling is allowed, and only once
+-- "is distinct from" also catches changes from or to null, which "<>" let through
+create or replace function protect_receipt()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' then
+    raise exception 'Receipt % cannot be deleted, cancel it instead', old.receipt_number;
+  end if;
+
+  if new.receipt_number is distinct from old.receipt_number
+     or new.scheme_id is distinct from old.scheme_id
+     or new.month is distinct from old.month
+     or new.sequence is distinct from old.sequence
+     or new.amount is distinct from old.amount
+     or new.paid_at is distinct from old.paid_at
+     or new.member_name is distinct from old.member_name
+     or new.token_number is distinct from old.token_number
+     or new.verification_token is distinct from old.verification_token
+     or (old.status = 'cancelled' and new.status is distinct from 'cancelled') then
+    raise exception 'Receipt % cannot be changed', old.receipt_number;
+  end if;
+
+  return new;
+end;
+$$;
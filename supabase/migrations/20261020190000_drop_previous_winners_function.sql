@@ -0,0 +1,5 @@
+-- Month rollover has a single path
+-- proceed_to_next_month sets previous winners to no_payment_required when it creates the month,
+-- so the separate function the app used to call after copying members is no longer needed
+
+drop function if exists update_previous_winners_payment_status(text, bigint);